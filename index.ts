@@ -1,29 +1,121 @@
 import App from './src/app'
 import dotenv from 'dotenv'
-import { UsersRepository, SkinsRepository } from './src/repository'
+import config from './src/config/config'
+import migrator from './src/database/migrator'
+import seed from './src/database/seeds'
+import { CatalogService, CurrencyService } from './src/service'
+import { defaultHealthChecks } from './src/service/health.service'
+import { redis } from './src/config/redis.config'
+import { pool } from './src/config/db.config'
+import { skinWorkerPool } from './src/workers'
 
 dotenv.config()
 
-const app = App({ logger: true })
+let migrated = false
+
+// The server listens while the migrations run, so it is live but only ready once they are applied
+const app = App(
+    { logger: true },
+    {
+        healthChecks: {
+            ...defaultHealthChecks,
+            migrations: async () => {
+                if (!migrated) {
+                    throw new Error('Migrations are still running')
+                }
+            }
+        }
+    }
+)
 const PORT = Number(process.env.PORT_DEV) || 3000
 
-app.listen({ port: PORT, host: '0.0.0.0' }, async (err) => {
-    if (err) {
+/**
+ * Terminates the skin workers and closes the database and Redis clients.
+ * A catalog sync interrupted by the workers ending records its failed run before the database pool is closed.
+ */
+const closeResources = async () => {
+    await skinWorkerPool.destroy()
+    await CatalogService.waitForSync()
+    await pool.end()
+    // QUIT waits for the pending replies, a client that is not connected has nothing to wait for
+    if (redis.status === 'ready') {
+        await redis.quit()
+    } else {
+        redis.disconnect()
+    }
+}
+
+let shuttingDown = false
+
+/**
+ * Shuts the server down gracefully: new connections are refused, requests on open connections get 503,
+ * in-flight requests are finished and the resources are closed, see `closeResources`.
+ * The process exits anyway after `SHUTDOWN_TIMEOUT_MS`.
+ */
+const shutdown = async (signal: NodeJS.Signals) => {
+    if (shuttingDown) {
+        return
+    }
+    shuttingDown = true
+    app.log.info(`Received ${signal}, shutting down`)
+    setTimeout(() => {
+        app.log.error('Shutdown timed out')
+        process.exit(1)
+    }, config.shutdown.timeout).unref()
+
+    try {
+        // No new sync or rate load starts while the requests drain
+        CurrencyService.stopScheduledLoad()
+        CatalogService.stopScheduledSync()
+        await app.close()
+        await closeResources()
+        app.log.info('Shutdown complete')
+        process.exit(0)
+    } catch (err) {
+        app.log.error(err, 'Shutdown failed')
+        process.exit(1)
+    }
+}
+
+process.once('SIGTERM', shutdown)
+process.once('SIGINT', shutdown)
+
+const start = async () => {
+    // Requests that need Redis fail until it is reachable, ioredis keeps retrying in the background
+    redis.connect().catch((err) => app.log.error(`Failed to connect to Redis: ${err.message}`))
+
+    try {
+        await app.listen({ port: PORT, host: '0.0.0.0' })
+    } catch (err) {
         app.log.error(err)
+        await closeResources()
         process.exit(1)
     }
+
     try {
-        await SkinsRepository.createTable()
-        await UsersRepository.createTable()
-        const exists_default_rows = await UsersRepository.getUsers()
-        if (!exists_default_rows.rows.length) {
-            await UsersRepository.insertDefaultRows()
+        const applied = await migrator.up()
+        applied.forEach((migration) => app.log.info(`Applied migration ${migration.version} ${migration.name}`))
+        if (config.env === 'development' && (await seed())) {
+            app.log.info('Inserted seed data')
         }
     } catch (err) {
-        console.log(err)
-        app.log.error('Failed to create users table')
+        // A shutdown during the migrations closes the database pool under them
+        if (shuttingDown) {
+            return
+        }
+        app.log.error('Failed to migrate the database')
         app.log.error(err)
+        await app.close()
+        await closeResources()
         process.exit(1)
     }
+    migrated = true
+
+    CurrencyService.startScheduledLoad(config.exchangeRates.interval)
+    if (config.catalogSync.enabled) {
+        CatalogService.startScheduledSync(config.catalogSync.interval)
+    }
     app.log.info(`Server started on port: ${PORT}`)
-})
+}
+
+start()
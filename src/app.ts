@@ -1,11 +1,44 @@
 import fastify, { FastifyServerOptions } from 'fastify'
-import { userRoute, skinRoute } from './routes'
+import swagger from '@fastify/swagger'
+import swaggerUi from '@fastify/swagger-ui'
+import { randomUUID } from 'crypto'
+import { userRoute, skinRoute, adminRoute, healthRoute } from './routes'
+import { errorHandler, notFoundHandler } from './errors'
+import validatorCompiler from './schemas/validator'
+import openapi from './schemas/openapi'
+import { resolveDependencies, createServices, AppOverrides } from './container'
 
-const App = (options: FastifyServerOptions) => {
-    const app = fastify(options)
+/**
+ * Creates the application.
+ *
+ * @param options - The Fastify server options.
+ * @param overrides - The dependencies to replace, e.g. in-memory repositories and stores in tests.
+ *                    Controllers and middlewares reach the services through `req.server.services`.
+ */
+const App = (options: FastifyServerOptions, overrides: AppOverrides = {}) => {
+    const dependencies = resolveDependencies(overrides)
+
+    // A request ID sent by a proxy in `X-Request-Id` is kept, so the logs of both can be correlated
+    const app = fastify({ requestIdHeader: 'x-request-id', genReqId: () => randomUUID(), ...options })
+
+    app.decorate('services', createServices(dependencies))
+    app.decorate('store', dependencies.store)
+    app.decorateRequest('user', null)
+    app.setValidatorCompiler(validatorCompiler)
+    app.setErrorHandler(errorHandler)
+    app.setNotFoundHandler(notFoundHandler)
+
+    app.addHook('onRequest', async (req, res) => {
+        res.header('X-Request-Id', req.id)
+    })
+
+    app.register(swagger, openapi)
+    app.register(swaggerUi, { routePrefix: '/docs' })
 
     app.register(userRoute, { prefix: '/users' })
     app.register(skinRoute, { prefix: '/skin' })
+    app.register(adminRoute, { prefix: '/admin' })
+    app.register(healthRoute, { prefix: '/health' })
 
     return app
 }
@@ -0,0 +1,54 @@
+/**
+ * A key-value store for cached responses with expiring keys and short-lived locks.
+ * Also holds the short-lived state shared by every process: revoked sessions, counters and idempotency keys.
+ */
+export interface CacheStore {
+    readonly name: string
+    /**
+     * @returns A promise that resolves to the stored value, or `null` if the key is missing or expired.
+     */
+    get(key: string): Promise<string | null>
+    /**
+     * Stores a value that expires after `ttlSeconds`.
+     */
+    set(key: string, value: string, ttlSeconds: number): Promise<void>
+    del(key: string): Promise<void>
+    /**
+     * Stores a value that expires after `ttlSeconds`, unless the key already exists.
+     *
+     * @returns A promise that resolves to `true` if the value was stored.
+     */
+    setIfAbsent(key: string, value: string, ttlSeconds: number): Promise<boolean>
+    /**
+     * Increments a counter, starting at 0 for a missing key, and makes it expire after `ttlSeconds`.
+     *
+     * @returns A promise that resolves to the incremented value.
+     */
+    increment(key: string, ttlSeconds: number): Promise<number>
+    /**
+     * Makes an existing key expire after `ttlSeconds`, a missing key is ignored.
+     */
+    expire(key: string, ttlSeconds: number): Promise<void>
+    /**
+     * @returns A promise that resolves to the number of seconds until the key expires, `0` if the key is missing.
+     */
+    getTtl(key: string): Promise<number>
+    /**
+     * Appends a value to a list and makes the whole list expire after `ttlSeconds`.
+     */
+    pushToList(key: string, value: string, ttlSeconds: number): Promise<void>
+    /**
+     * @returns A promise that resolves to the values from index `start` to `stop` inclusive, empty if the list is missing.
+     */
+    getListRange(key: string, start: number, stop: number): Promise<string[]>
+    /**
+     * Takes a lock that expires after `ttlMs` unless released first.
+     *
+     * @returns A promise that resolves to the token needed to release the lock, or `null` if the lock is held by someone else.
+     */
+    acquireLock(key: string, ttlMs: number): Promise<string | null>
+    /**
+     * Releases a lock if it is still held with `token`.
+     */
+    releaseLock(key: string, token: string): Promise<void>
+}
@@ -0,0 +1,84 @@
+import { CacheStore } from './cache-store'
+
+class FallbackCacheStore implements CacheStore {
+    readonly name: string
+    private degraded = false
+
+    /**
+     * Uses `primary` and switches to `fallback` for every operation the primary store fails,
+     * so the cache keeps working per process while the primary store is unavailable.
+     *
+     * @param primary - The shared store, e.g. Redis.
+     * @param fallback - The store used while the primary one fails, e.g. an in-process memory store.
+     */
+    constructor(private primary: CacheStore, private fallback: CacheStore) {
+        this.name = `${primary.name}+${fallback.name}`
+    }
+
+    get(key: string) {
+        return this.run((store) => store.get(key))
+    }
+
+    set(key: string, value: string, ttlSeconds: number) {
+        return this.run((store) => store.set(key, value, ttlSeconds))
+    }
+
+    del(key: string) {
+        return this.run((store) => store.del(key))
+    }
+
+    setIfAbsent(key: string, value: string, ttlSeconds: number) {
+        return this.run((store) => store.setIfAbsent(key, value, ttlSeconds))
+    }
+
+    increment(key: string, ttlSeconds: number) {
+        return this.run((store) => store.increment(key, ttlSeconds))
+    }
+
+    expire(key: string, ttlSeconds: number) {
+        return this.run((store) => store.expire(key, ttlSeconds))
+    }
+
+    getTtl(key: string) {
+        return this.run((store) => store.getTtl(key))
+    }
+
+    pushToList(key: string, value: string, ttlSeconds: number) {
+        return this.run((store) => store.pushToList(key, value, ttlSeconds))
+    }
+
+    getListRange(key: string, start: number, stop: number) {
+        return this.run((store) => store.getListRange(key, start, stop))
+    }
+
+    acquireLock(key: string, ttlMs: number) {
+        return this.run((store) => store.acquireLock(key, ttlMs))
+    }
+
+    releaseLock(key: string, token: string) {
+        return this.run((store) => store.releaseLock(key, token))
+    }
+
+    /**
+     * Runs an operation on the primary store and repeats it on the fallback store if it fails.
+     * The switch and the recovery are logged once instead of on every operation.
+     */
+    private async run<T>(operation: (store: CacheStore) => Promise<T>) {
+        try {
+            const result = await operation(this.primary)
+            if (this.degraded) {
+                this.degraded = false
+                console.info(`Cache store ${this.primary.name} recovered`)
+            }
+            return result
+        } catch (err) {
+            if (!this.degraded) {
+                this.degraded = true
+                console.error(`Cache store ${this.primary.name} failed, using ${this.fallback.name}:`, err)
+            }
+            return await operation(this.fallback)
+        }
+    }
+}
+
+export default FallbackCacheStore
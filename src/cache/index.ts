@@ -0,0 +1,13 @@
+import { redis } from '../config/redis.config'
+import RedisCacheStore from './redis.store'
+import MemoryCacheStore from './memory.store'
+import FallbackCacheStore from './fallback.store'
+
+// Redis shares the cache between processes, the memory store keeps each process serving while Redis is down
+const cacheStore = new FallbackCacheStore(new RedisCacheStore(redis), new MemoryCacheStore())
+
+// Sessions, login lockouts, rate limits and idempotency keys must be the same in every process, so they never fall back to memory
+const sharedStore = new RedisCacheStore(redis)
+
+export { cacheStore, sharedStore, RedisCacheStore, MemoryCacheStore, FallbackCacheStore }
+export type { CacheStore } from './cache-store'
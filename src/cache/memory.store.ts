@@ -0,0 +1,106 @@
+import { randomUUID } from 'crypto'
+import { CacheStore } from './cache-store'
+
+class MemoryCacheStore implements CacheStore {
+    readonly name = 'memory'
+    private entries = new Map<string, { value: string | string[]; expiresAt: number }>()
+
+    /**
+     * @param maxEntries - The number of keys kept in memory, the oldest key is evicted first. Defaults to 100.
+     */
+    constructor(private maxEntries: number = 100) {}
+
+    async get(key: string) {
+        const value = this.read(key)
+        return typeof value === 'string' ? value : null
+    }
+
+    async set(key: string, value: string, ttlSeconds: number) {
+        this.write(key, value, ttlSeconds * 1000)
+    }
+
+    async del(key: string) {
+        this.entries.delete(key)
+    }
+
+    async setIfAbsent(key: string, value: string, ttlSeconds: number) {
+        if (this.read(key) !== null) {
+            return false
+        }
+        this.write(key, value, ttlSeconds * 1000)
+        return true
+    }
+
+    async increment(key: string, ttlSeconds: number) {
+        const value = Number(await this.get(key)) + 1
+        this.write(key, String(value), ttlSeconds * 1000)
+        return value
+    }
+
+    async expire(key: string, ttlSeconds: number) {
+        const value = this.read(key)
+        if (value !== null) {
+            this.write(key, value, ttlSeconds * 1000)
+        }
+    }
+
+    async getTtl(key: string) {
+        if (this.read(key) === null) {
+            return 0
+        }
+        return Math.ceil((this.entries.get(key)!.expiresAt - Date.now()) / 1000)
+    }
+
+    async pushToList(key: string, value: string, ttlSeconds: number) {
+        const list = this.read(key)
+        this.write(key, Array.isArray(list) ? [...list, value] : [value], ttlSeconds * 1000)
+    }
+
+    async getListRange(key: string, start: number, stop: number) {
+        const list = this.read(key)
+        return Array.isArray(list) ? list.slice(start, stop + 1) : []
+    }
+
+    async acquireLock(key: string, ttlMs: number) {
+        if ((await this.get(key)) !== null) {
+            return null
+        }
+        const token = randomUUID()
+        this.write(key, token, ttlMs)
+        return token
+    }
+
+    async releaseLock(key: string, token: string) {
+        if ((await this.get(key)) === token) {
+            this.entries.delete(key)
+        }
+    }
+
+    /**
+     * Reads a value or a list, dropping it if it expired.
+     */
+    private read(key: string) {
+        const entry = this.entries.get(key)
+        if (!entry) {
+            return null
+        }
+        if (entry.expiresAt <= Date.now()) {
+            this.entries.delete(key)
+            return null
+        }
+        return entry.value
+    }
+
+    /**
+     * Stores a value or a list, moving the key to the end of the eviction order.
+     */
+    private write(key: string, value: string | string[], ttlMs: number) {
+        this.entries.delete(key)
+        this.entries.set(key, { value, expiresAt: Date.now() + ttlMs })
+        if (this.entries.size > this.maxEntries) {
+            this.entries.delete(this.entries.keys().next().value as string)
+        }
+    }
+}
+
+export default MemoryCacheStore
@@ -0,0 +1,85 @@
+import { randomUUID } from 'crypto'
+import Redis from 'ioredis'
+import { CacheStore } from './cache-store'
+
+// Deletes the lock only if it still holds our token, so an expired lock taken over by someone else is kept
+const RELEASE_LOCK_SCRIPT = "if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) else return 0 end"
+
+class RedisCacheStore implements CacheStore {
+    readonly name = 'redis'
+
+    constructor(private redis: Redis) {}
+
+    /**
+     * ioredis queues commands while it reconnects, which would make every request wait for the retries.
+     * Failing fast lets `FallbackCacheStore` switch to its fallback right away.
+     *
+     * @throws Will throw an error if the connection is not ready.
+     */
+    private ensureReady() {
+        if (this.redis.status !== 'ready') {
+            throw new Error(`Redis is not ready (${this.redis.status})`)
+        }
+    }
+
+    async get(key: string) {
+        this.ensureReady()
+        return await this.redis.get(key)
+    }
+
+    async set(key: string, value: string, ttlSeconds: number) {
+        this.ensureReady()
+        await this.redis.set(key, value, 'EX', ttlSeconds)
+    }
+
+    async del(key: string) {
+        this.ensureReady()
+        await this.redis.del(key)
+    }
+
+    async setIfAbsent(key: string, value: string, ttlSeconds: number) {
+        this.ensureReady()
+        return (await this.redis.set(key, value, 'EX', ttlSeconds, 'NX')) === 'OK'
+    }
+
+    async increment(key: string, ttlSeconds: number) {
+        this.ensureReady()
+        const results = await this.redis.multi().incr(key).expire(key, ttlSeconds).exec()
+        return Number(results?.[0]?.[1])
+    }
+
+    async expire(key: string, ttlSeconds: number) {
+        this.ensureReady()
+        await this.redis.expire(key, ttlSeconds)
+    }
+
+    async getTtl(key: string) {
+        this.ensureReady()
+        // -2 for a missing key, -1 for a key without expiry
+        return Math.max(0, await this.redis.ttl(key))
+    }
+
+    async pushToList(key: string, value: string, ttlSeconds: number) {
+        this.ensureReady()
+        await this.redis.multi().rpush(key, value).expire(key, ttlSeconds).exec()
+    }
+
+    async getListRange(key: string, start: number, stop: number) {
+        this.ensureReady()
+        return await this.redis.lrange(key, start, stop)
+    }
+
+    async acquireLock(key: string, ttlMs: number) {
+        this.ensureReady()
+        const token = randomUUID()
+        const locked = await this.redis.set(key, token, 'PX', ttlMs, 'NX')
+        return locked ? token : null
+    }
+
+    async releaseLock(key: string, token: string) {
+        this.ensureReady()
+        await this.redis.eval(RELEASE_LOCK_SCRIPT, 1, key, token)
+    }
+}
+
+export default RedisCacheStore
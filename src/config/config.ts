@@ -1,10 +1,17 @@
 import dotenv from 'dotenv'
+import path from 'path'
 dotenv.config()
 
+const baseCurrency = (process.env.MARKET_CURRENCY || 'EUR').toUpperCase()
+const appId = Number(process.env.MARKET_APP_ID) || 730
+
 const config = {
     env: process.env.NODE_ENV || 'development',
+    // Internal error messages may reveal SQL or driver details, they are only sent to clients when NODE_ENV asks for it explicitly
+    exposeErrorDetails: ['development', 'test'].includes(process.env.NODE_ENV ?? ''),
     port: process.env.PORT || 3000,
     database: {
+        poolSize: Number(process.env.DB_POOL_SIZE) || 10,
         dev: {
             username: process.env.DB_USER,
             password: process.env.DB_PASSWORD,
@@ -19,6 +26,125 @@ const config = {
             host: process.env.DB_HOST,
             port: process.env.DB_PORT
         }
+    },
+    auth: {
+        jwtSecret: process.env.JWT_SECRET || 'secret',
+        // Seconds an access token is valid, revoked access tokens are kept in the Redis denylist for as long
+        accessTokenTtl: Number(process.env.ACCESS_TOKEN_TTL) || 900,
+        // Seconds a refresh token is valid, every refresh rotates it
+        refreshTokenTtl: Number(process.env.REFRESH_TOKEN_TTL) || 30 * 24 * 60 * 60,
+        // Seconds the links sent by email are valid, every link can be used once
+        emailVerificationTtl: Number(process.env.EMAIL_VERIFICATION_TTL) || 24 * 60 * 60,
+        passwordResetTtl: Number(process.env.PASSWORD_RESET_TTL) || 60 * 60
+    },
+    mail: {
+        // `console` or `file`
+        transport: process.env.MAIL_TRANSPORT || 'console',
+        from: process.env.MAIL_FROM || 'no-reply@localhost',
+        // Directory the `file` transport writes one JSON file per message to
+        outboxDir: process.env.MAIL_OUTBOX_DIR || path.join(__dirname, '../../var/mail'),
+        // Base URL of the links in the messages
+        appUrl: process.env.APP_URL || 'http://localhost:3000'
+    },
+    redis: {
+        host: process.env.REDIS_HOST,
+        port: Number(process.env.REDIS_PORT) || 6379
+    },
+    market: {
+        // `skinport` or `fixture`
+        provider: process.env.MARKET_PROVIDER || 'skinport',
+        appId,
+        // App IDs the live catalog may be requested for, the default app ID is always included
+        appIds: [...new Set([appId, ...(process.env.MARKET_APP_IDS || '').split(',').map(Number).filter((id) => Number.isInteger(id) && id > 0)])],
+        // Base currency: items, price overrides and price history are stored in it
+        currency: baseCurrency,
+        // Currencies the catalog is synced in, the base currency is always included
+        currencies: [...new Set([baseCurrency, ...(process.env.MARKET_CURRENCIES || 'EUR,USD').split(',').map((code) => code.trim().toUpperCase()).filter(Boolean)])],
+        skinportUrl: process.env.SKINPORT_API_URL || 'https://api.skinport.com/v1/items',
+        fixturePath: process.env.MARKET_FIXTURE_PATH || path.join(__dirname, '../providers/fixtures/items.json')
+    },
+    upstream: {
+        // Worker threads fetching from the market at the same time, further fetches wait in a queue
+        poolSize: Number(process.env.UPSTREAM_POOL_SIZE) || 2,
+        // Milliseconds a worker may stay silent, while fetching or between two batches, before it is terminated
+        timeout: Number(process.env.UPSTREAM_TIMEOUT_MS) || 30000,
+        // Items per batch posted by a worker, streamed to clients and cached as one unit
+        batchSize: Number(process.env.UPSTREAM_BATCH_SIZE) || 500,
+        // Retries after a failed fetch, with exponential backoff and jitter between retryBaseDelay and retryMaxDelay
+        retries: Number(process.env.UPSTREAM_RETRIES ?? 3),
+        retryBaseDelay: Number(process.env.UPSTREAM_RETRY_BASE_DELAY_MS) || 500,
+        retryMaxDelay: Number(process.env.UPSTREAM_RETRY_MAX_DELAY_MS) || 10000,
+        // Consecutive failed fetches that open the circuit, and milliseconds it stays open
+        breakerThreshold: Number(process.env.UPSTREAM_BREAKER_THRESHOLD) || 3,
+        breakerResetTimeout: Number(process.env.UPSTREAM_BREAKER_RESET_MS) || 60000
+    },
+    catalogSync: {
+        enabled: process.env.CATALOG_SYNC_ENABLED !== 'false',
+        // Seconds between two syncs of the upstream catalog into the items table
+        interval: Number(process.env.CATALOG_SYNC_INTERVAL) || 900
+    },
+    exchangeRates: {
+        // `frankfurter` or `fixture`
+        provider: process.env.EXCHANGE_RATE_PROVIDER || 'frankfurter',
+        frankfurterUrl: process.env.FRANKFURTER_API_URL || 'https://api.frankfurter.app/latest',
+        fixturePath: process.env.EXCHANGE_RATE_FIXTURE_PATH || path.join(__dirname, '../providers/fixtures/rates.json'),
+        // Seconds between two loads of the exchange rates
+        interval: Number(process.env.EXCHANGE_RATE_INTERVAL) || 3600
+    },
+    skinsCache: {
+        // Seconds a cached live catalog is served as fresh
+        ttl: Number(process.env.SKINS_CACHE_TTL) || 300,
+        // Seconds an outdated live catalog is still served while it is refreshed in the background
+        staleTtl: Number(process.env.SKINS_CACHE_STALE_TTL) || 3600,
+        // Seconds the refresh lock is held at most, longer than a fetch including its retries
+        lockTtl: Number(process.env.SKINS_CACHE_LOCK_TTL) || 180,
+        // Seconds a request waits for another process to refresh the catalog before fetching it itself
+        waitTimeout: Number(process.env.SKINS_CACHE_WAIT_TIMEOUT) || 10
+    },
+    idempotency: {
+        // Seconds a stored response is replayed for a repeated Idempotency-Key
+        ttl: Number(process.env.IDEMPOTENCY_TTL) || 86400,
+        // Seconds a key stays reserved while its first request runs, a crashed request releases it after that
+        lockTtl: Number(process.env.IDEMPOTENCY_LOCK_TTL) || 60
+    },
+    rateLimit: {
+        enabled: process.env.RATE_LIMIT_ENABLED !== 'false',
+        // Requests allowed per window of `window` seconds, counted per client IP
+        login: {
+            max: Number(process.env.RATE_LIMIT_LOGIN_MAX) || 10,
+            window: Number(process.env.RATE_LIMIT_LOGIN_WINDOW) || 60
+        },
+        // Registration, verification and password reset requests, each of them sends mail or redeems a token
+        account: {
+            max: Number(process.env.RATE_LIMIT_ACCOUNT_MAX) || 5,
+            window: Number(process.env.RATE_LIMIT_ACCOUNT_WINDOW) || 900
+        },
+        // The database-backed catalog, every page is a query over the items table
+        catalog: {
+            max: Number(process.env.RATE_LIMIT_CATALOG_MAX) || 60,
+            window: Number(process.env.RATE_LIMIT_CATALOG_WINDOW) || 60
+        },
+        // The live catalog, every cache miss fetches from the upstream market through a worker
+        live: {
+            max: Number(process.env.RATE_LIMIT_LIVE_MAX) || 20,
+            window: Number(process.env.RATE_LIMIT_LIVE_WINDOW) || 60
+        }
+    },
+    health: {
+        // Milliseconds each readiness check may take before its dependency is reported as down
+        timeout: Number(process.env.HEALTH_CHECK_TIMEOUT_MS) || 2000
+    },
+    shutdown: {
+        // Milliseconds in-flight requests get to finish on SIGTERM before the process exits anyway
+        timeout: Number(process.env.SHUTDOWN_TIMEOUT_MS) || 30000
+    },
+    loginLockout: {
+        // Failed logins of one email within `window` seconds before the account is locked
+        threshold: Number(process.env.LOGIN_LOCKOUT_THRESHOLD) || 5,
+        window: Number(process.env.LOGIN_LOCKOUT_WINDOW) || 900,
+        // Seconds of the first lockout, doubled by every further failure up to maxDuration
+        baseDuration: Number(process.env.LOGIN_LOCKOUT_BASE_DURATION) || 60,
+        maxDuration: Number(process.env.LOGIN_LOCKOUT_MAX_DURATION) || 3600
     }
 }
 
@@ -1,16 +1,53 @@
 import config from './config'
-const { Client } = require('pg')
+const { Pool, types } = require('pg')
+
+// NUMERIC columns (balances, prices) are returned as strings by default
+types.setTypeParser(1700, (value: string) => parseFloat(value))
 
 const dbConfig = config.env === 'development' ? config.database.dev : config.database.production
 
-const client = new Client({
+const pool = new Pool({
     host: dbConfig.host,
     user: dbConfig.username,
     port: Number(dbConfig.port),
     password: dbConfig.password,
-    database: dbConfig.name
+    database: dbConfig.name,
+    max: config.database.poolSize
+})
+
+// An idle client losing its connection must not crash the process, the pool replaces it
+pool.on('error', (err: Error) => {
+    console.error('Unexpected error on idle database client', err)
 })
 
-client.connect()
+/**
+ * Runs a function inside a database transaction on a dedicated pooled connection.
+ *
+ * @param fn - The function to run. It receives the transaction client, which can be handed to
+ *             repositories through their `forTransaction` method.
+ * @returns A promise that resolves to the value returned by `fn` once the transaction is committed.
+ * @throws Rethrows the error thrown by `fn` after rolling the transaction back.
+ *
+ * @example
+ * ```typescript
+ * await withTransaction(async (tx) => {
+ *     const user = await UsersRepository.forTransaction(tx).getUserForUpdate(id)
+ * })
+ * ```
+ */
+const withTransaction = async <T>(fn: (tx: any) => Promise<T>): Promise<T> => {
+    const client = await pool.connect()
+    try {
+        await client.query('BEGIN')
+        const result = await fn(client)
+        await client.query('COMMIT')
+        return result
+    } catch (err) {
+        await client.query('ROLLBACK').catch(() => undefined)
+        throw err
+    } finally {
+        client.release()
+    }
+}
 
-export { client }
+export { pool, withTransaction }
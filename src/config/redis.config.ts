@@ -0,0 +1,14 @@
+import config from './config'
+import Redis from 'ioredis'
+
+// The server connects on startup, so importing the app, e.g. in tests with in-memory stores, opens no connection
+const redis = new Redis({
+    host: config.redis.host,
+    port: config.redis.port,
+    lazyConnect: true
+})
+
+// ioredis keeps reconnecting on its own, the listener only keeps connection errors from being reported as unhandled
+redis.on('error', (err) => console.error('Redis connection error:', err.message))
+
+export { redis }
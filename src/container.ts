@@ -0,0 +1,129 @@
+import {
+    UsersRepository,
+    SkinsRepository,
+    OrdersRepository,
+    InventoryRepository,
+    LedgerRepository,
+    ExchangeRatesRepository,
+    RefreshTokensRepository,
+    RolesRepository,
+    UserTokensRepository
+} from './repository'
+import { withTransaction } from './config/db.config'
+import { cacheStore, sharedStore, CacheStore } from './cache'
+import { mailer, Mailer } from './mailer'
+import { MarketDataProvider } from './providers'
+import { streamSkinWorker, streamFromProvider } from './workers'
+import { UserService } from './service/user.service'
+import { SkinService } from './service/skin.service'
+import { AuthService } from './service/auth.service'
+import { AccountService } from './service/account.service'
+import { RegistrationService } from './service/registration.service'
+import { CurrencyService } from './service/currency.service'
+import { HealthService, HealthCheck, defaultHealthChecks } from './service/health.service'
+
+export interface Repositories {
+    users: any
+    skins: any
+    orders: any
+    inventory: any
+    ledger: any
+    exchangeRates: any
+    refreshTokens: any
+    roles: any
+    userTokens: any
+}
+
+/**
+ * Everything the application talks to.
+ */
+export interface AppDependencies {
+    repositories: Repositories
+    // Runs a function in a transaction, the repositories must understand the client it passes, see `withTransaction`
+    transaction: typeof withTransaction
+    // Caches the live catalog, may lose entries
+    cache: CacheStore
+    // Holds sessions, login lockouts, rate limits and idempotency keys, must be shared by every process
+    store: CacheStore
+    mailer: Mailer
+    // Fetched in the current thread instead of the skin worker pool, which always uses the `MARKET_PROVIDER` setting
+    marketDataProvider?: MarketDataProvider
+    // Run by `GET /health/ready`, by name
+    healthChecks: Record<string, HealthCheck>
+}
+
+/**
+ * The dependencies to replace when creating the application, e.g. in-memory repositories in tests.
+ * The PostgreSQL repositories, Redis and the skin worker pool are used for the others.
+ */
+export type AppOverrides = Partial<Omit<AppDependencies, 'repositories'>> & { repositories?: Partial<Repositories> }
+
+/**
+ * The services used by the controllers and middlewares of one application, see `req.server.services`.
+ */
+export interface Services {
+    user: UserService
+    skin: SkinService
+    auth: AuthService
+    account: AccountService
+    registration: RegistrationService
+    health: HealthService
+}
+
+declare module 'fastify' {
+    interface FastifyInstance {
+        services: Services
+        /**
+         * The shared store of the application, see `AppDependencies.store`.
+         */
+        store: CacheStore
+    }
+}
+
+const defaultRepositories: Repositories = {
+    users: UsersRepository,
+    skins: SkinsRepository,
+    orders: OrdersRepository,
+    inventory: InventoryRepository,
+    ledger: LedgerRepository,
+    exchangeRates: ExchangeRatesRepository,
+    refreshTokens: RefreshTokensRepository,
+    roles: RolesRepository,
+    userTokens: UserTokensRepository
+}
+
+/**
+ * Fills in the production implementation of every dependency that is not overridden.
+ *
+ * @param overrides - The dependencies to replace.
+ * @returns The complete dependencies.
+ */
+export const resolveDependencies = (overrides: AppOverrides = {}): AppDependencies => ({
+    transaction: withTransaction,
+    cache: cacheStore,
+    store: sharedStore,
+    mailer,
+    healthChecks: defaultHealthChecks,
+    ...overrides,
+    repositories: { ...defaultRepositories, ...overrides.repositories }
+})
+
+/**
+ * Wires the services of one application to its dependencies.
+ *
+ * @param dependencies - The complete dependencies, see `resolveDependencies`.
+ * @returns The services.
+ */
+export const createServices = (dependencies: AppDependencies): Services => {
+    const { repositories, transaction, cache, store, marketDataProvider } = dependencies
+    const auth = new AuthService(repositories.refreshTokens, repositories.users, store, transaction)
+    const currency = new CurrencyService(repositories.exchangeRates)
+    return {
+        auth,
+        user: new UserService(repositories.users, repositories.skins, repositories.orders, repositories.inventory, repositories.ledger, currency, auth, transaction),
+        skin: new SkinService(repositories.skins, repositories.exchangeRates, cache, marketDataProvider ? streamFromProvider(marketDataProvider) : streamSkinWorker),
+        account: new AccountService(repositories.users, repositories.roles, auth, transaction),
+        registration: new RegistrationService(repositories.users, repositories.userTokens, auth, dependencies.mailer, transaction),
+        health: new HealthService(dependencies.healthChecks)
+    }
+}
@@ -0,0 +1,139 @@
+import { FastifyReply, FastifyRequest } from 'fastify'
+import { IdParams, AccountsQuery, DisableBody, RoleBody } from '../schemas'
+import { NotFoundError } from '../errors'
+
+/**
+ * Sends the account updated by an account change.
+ */
+const sendAccount = (res: FastifyReply, user: any, msg: string) => {
+    res.status(200).send({
+        statusCode: 200,
+        msg,
+        user
+    })
+}
+
+class AdminController {
+    /**
+     * Searches accounts with pagination.
+     *
+     * @param req - The Fastify request object with optional `search`, `role`, `disabled`, `limit` and `offset` in the query.
+     * @param res - The Fastify reply object used to send the response.
+     * @returns A promise that resolves to the page of users and the total number of matching users.
+     * @remarks
+     * - `search` matches a substring of the email, `disabled` is `true` or `false`.
+     * - `limit` defaults to 50 and cannot exceed 200, `offset` defaults to 0.
+     */
+    async getUsers(req: FastifyRequest<{ Querystring: AccountsQuery }>, res: FastifyReply) {
+        const { search, role, disabled, limit, offset } = req.query
+        const result = await req.server.services.account.searchUsers({
+            search: search?.trim() || undefined,
+            role: role || undefined,
+            disabled,
+            limit,
+            offset
+        })
+        res.status(200).send({
+            statusCode: 200,
+            msg: 'Users retrieved successfully',
+            users: result.users,
+            total: result.total,
+            limit,
+            offset
+        })
+    }
+
+    /**
+     * Retrieves an account with its role, permissions and state.
+     *
+     * @param req - The Fastify request object, containing the user ID in the parameters.
+     * @param res - The Fastify reply object used to send the response.
+     * @remarks
+     * - Responds with a 404 status code if the user is not found.
+     */
+    async getUser(req: FastifyRequest<{ Params: IdParams }>, res: FastifyReply) {
+        const user = await req.server.services.account.getUser(req.params.id)
+        if (!user) {
+            throw new NotFoundError('User not found')
+        }
+        res.status(200).send({
+            statusCode: 200,
+            msg: 'User retrieved successfully',
+            user
+        })
+    }
+
+    /**
+     * Lists the roles and the permissions they grant.
+     *
+     * @param req - The Fastify request object.
+     * @param res - The Fastify reply object used to send the response.
+     */
+    async getRoles(req: FastifyRequest, res: FastifyReply) {
+        const roles = await req.server.services.account.getRoles()
+        res.status(200).send({
+            statusCode: 200,
+            msg: 'Roles retrieved successfully',
+            roles
+        })
+    }
+
+    /**
+     * Disables an account and ends its sessions.
+     *
+     * @param req - The Fastify request object, containing the user ID in the parameters and the mandatory reason in the body.
+     * @param res - The Fastify reply object used to send the response.
+     * @remarks
+     * - Responds with a 404 status code if the user is not found and a 409 status code if the caller tries to disable their own account.
+     * - Responds with a 403 status code if the user has permissions the caller lacks.
+     */
+    async disableUser(req: FastifyRequest<{ Params: IdParams; Body: DisableBody }>, res: FastifyReply) {
+        const user = await req.server.services.account.disableUser(req.user!, req.params.id, req.body.reason.trim())
+        sendAccount(res, user, 'User disabled successfully')
+    }
+
+    /**
+     * Enables a disabled account.
+     *
+     * @param req - The Fastify request object, containing the user ID in the parameters.
+     * @param res - The Fastify reply object used to send the response.
+     * @remarks
+     * - Responds with a 404 status code if the user is not found.
+     * - Responds with a 403 status code if the user has permissions the caller lacks.
+     */
+    async enableUser(req: FastifyRequest<{ Params: IdParams }>, res: FastifyReply) {
+        const user = await req.server.services.account.enableUser(req.user!, req.params.id)
+        sendAccount(res, user, 'User enabled successfully')
+    }
+
+    /**
+     * Forces the user to change the password and ends the user's sessions.
+     *
+     * @param req - The Fastify request object, containing the user ID in the parameters.
+     * @param res - The Fastify reply object used to send the response.
+     * @remarks
+     * - Responds with a 404 status code if the user is not found.
+     * - Responds with a 403 status code if the user has permissions the caller lacks.
+     */
+    async forcePasswordReset(req: FastifyRequest<{ Params: IdParams }>, res: FastifyReply) {
+        const user = await req.server.services.account.forcePasswordReset(req.user!, req.params.id)
+        sendAccount(res, user, 'Password reset required')
+    }
+
+    /**
+     * Changes the role of an account and ends its sessions.
+     *
+     * @param req - The Fastify request object, containing the user ID in the parameters and the role name in the body.
+     * @param res - The Fastify reply object used to send the response.
+     * @remarks
+     * - Responds with a 400 status code if the role does not exist, a 404 status code if the user is not found
+     *   and a 409 status code if the caller tries to change their own role.
+     * - Responds with a 403 status code if the user has or the role grants permissions the caller lacks.
+     */
+    async setUserRole(req: FastifyRequest<{ Params: IdParams; Body: RoleBody }>, res: FastifyReply) {
+        const user = await req.server.services.account.setUserRole(req.user!, req.params.id, req.body.role)
+        sendAccount(res, user, 'Role changed successfully')
+    }
+}
+
+export default new AdminController()
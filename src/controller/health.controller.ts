@@ -0,0 +1,42 @@
+import { FastifyReply, FastifyRequest } from 'fastify'
+
+class HealthController {
+    /**
+     * Liveness probe: responds while the process can handle requests at all.
+     *
+     * @param req - The Fastify request object.
+     * @param res - The Fastify reply object used to send the response.
+     * @remarks
+     * Dependencies are not checked, an unreachable database must not get the process restarted.
+     */
+    async live(req: FastifyRequest, res: FastifyReply) {
+        return res.status(200).send({
+            statusCode: 200,
+            msg: 'OK'
+        })
+    }
+
+    /**
+     * Readiness probe: reports whether the server can serve requests.
+     *
+     * @param req - The Fastify request object.
+     * @param res - The Fastify reply object used to send the response.
+     * @returns A promise that resolves to the result of every check, see `HealthService.checkReadiness`.
+     * @remarks
+     * - Responds with a 200 status code if every check passed and a 503 status code otherwise.
+     * - While the server shuts down Fastify responds with 503 before the checks run, so load balancers stop routing to it.
+     */
+    async ready(req: FastifyRequest, res: FastifyReply) {
+        const { ready, checks } = await req.server.services.health.checkReadiness()
+        if (!ready) {
+            req.log.warn({ checks }, 'Readiness check failed')
+        }
+        return res.status(ready ? 200 : 503).send({
+            statusCode: ready ? 200 : 503,
+            msg: ready ? 'Ready' : 'Not ready',
+            checks
+        })
+    }
+}
+
+export default new HealthController()
@@ -1,4 +1,6 @@
 import UserController from './user.controller'
 import SkinController from './skin.controller'
+import AdminController from './admin.controller'
+import HealthController from './health.controller'
 
-export { UserController, SkinController }
+export { UserController, SkinController, AdminController, HealthController }
@@ -1,17 +1,314 @@
 import { FastifyReply, FastifyRequest } from 'fastify'
-import { SkinService } from '../service'
+import { OutgoingHttpHeaders, ServerResponse } from 'http'
+import config from '../config/config'
+import { SkinFields } from '../repository/skins.repository'
+import { IdParams, CatalogQuery, LiveSkinsQuery, HistoryQuery, CreateSkinBody, UpdateSkinBody } from '../schemas'
+import { NotFoundError, ValidationError } from '../errors'
+
+const HISTORY_DEFAULT_RANGE = 30 * 24 * 60 * 60 * 1000
+const NDJSON = 'application/x-ndjson'
+
+/**
+ * Writes a chunk to the response, waiting for the client to drain the buffer when it is full.
+ *
+ * @throws Will throw an error if the client disconnects before the buffer drains.
+ */
+const writeChunk = (stream: ServerResponse, chunk: string) =>
+    new Promise<void>((resolve, reject) => {
+        if (stream.destroyed) {
+            reject(new Error('Client disconnected'))
+            return
+        }
+        if (stream.write(chunk)) {
+            resolve()
+            return
+        }
+        const onDrain = () => {
+            stream.off('close', onClose)
+            resolve()
+        }
+        const onClose = () => {
+            stream.off('drain', onDrain)
+            reject(new Error('Client disconnected'))
+        }
+        stream.once('drain', onDrain)
+        stream.once('close', onClose)
+    })
+
+/**
+ * Streams batches of skins as NDJSON or as a JSON array and ends the response.
+ * Leaving the loop early, e.g. on a disconnect, stops the source of the batches.
+ *
+ * @param stream - The raw response, its headers already written.
+ * @param batches - The batches of skins.
+ * @param ndjson - Whether to write one skin per line instead of a JSON array.
+ */
+const streamSkins = async (stream: ServerResponse, batches: AsyncIterable<unknown[]>, ndjson: boolean) => {
+    let first = true
+    try {
+        if (!ndjson) {
+            await writeChunk(stream, '[')
+        }
+        for await (const batch of batches) {
+            if (!batch.length) {
+                continue
+            }
+            const body = ndjson ? batch.map((item) => `${JSON.stringify(item)}\n`).join('') : batch.map((item) => JSON.stringify(item)).join(',')
+            await writeChunk(stream, ndjson || first ? body : `,${body}`)
+            first = false
+        }
+        stream.end(ndjson ? undefined : ']')
+    } catch (err: any) {
+        if (ndjson && !stream.destroyed) {
+            stream.end(`${JSON.stringify({ error: err?.message || 'Failed to stream skins' })}\n`)
+        } else {
+            stream.destroy()
+        }
+    }
+}
+
+/**
+ * Trims the names of a validated admin request body.
+ *
+ * @param body - The skin fields of the request body.
+ * @returns The fields, `name` and `market_hash_name` without surrounding whitespace.
+ */
+const trimSkinFields = <T extends Partial<SkinFields>>(body: T): T => {
+    const fields = { ...body }
+    if (fields.name !== undefined) {
+        fields.name = fields.name.trim()
+    }
+    if (fields.market_hash_name) {
+        fields.market_hash_name = fields.market_hash_name.trim()
+    }
+    return fields
+}
 
 class SkinController {
     /**
-     * Handles the request to get skins.
+     * Retrieves a page of the synced catalog with filtering and sorting.
      * 
-     * @param req - The Fastify request object.
+     * @param req - The Fastify request object, containing the catalog parameters in the query.
+     * @param res - The Fastify reply object used to send the response.
+     * @returns A promise that resolves to the skins of the page, the total number of matching skins and the cursor of the next page.
+     * @remarks
+     * - `limit` defaults to 50 and cannot exceed 100, `cursor` is the `nextCursor` of the previous page.
+     * - `search` matches a substring of the name and `prefix` its beginning, both case-insensitively.
+     * - `min_price_tradable`, `max_price_tradable`, `min_price_non_tradable` and `max_price_non_tradable` filter by price,
+     *   `tradable_only=true` keeps skins with a tradable price.
+     * - `sort` is `name` (default), `price_tradable` or `price_non_tradable`, `order` is `asc` (default) or `desc`.
+     *   Skins without the sorted price come last.
+     * - `currency` is one of `MARKET_CURRENCIES` and defaults to the base currency, price filters use the same currency.
+     * - Responds with a 400 status code if the currency is not one of `MARKET_CURRENCIES` or the cursor is invalid.
+     * - Responds with a 503 status code if no exchange rate to the requested currency has been loaded.
+     */
+    async getCatalog(req: FastifyRequest<{ Querystring: CatalogQuery }>, res: FastifyReply) {
+        const query = req.query
+        const currency = (query.currency || config.market.currency).toUpperCase()
+        if (!config.market.currencies.includes(currency)) {
+            throw new ValidationError('Invalid catalog query parameters', 'UNSUPPORTED_CURRENCY')
+        }
+        const result = await req.server.services.skin.getCatalog(
+            {
+                limit: query.limit,
+                search: query.search || undefined,
+                prefix: query.prefix || undefined,
+                minPriceTradable: query.min_price_tradable,
+                maxPriceTradable: query.max_price_tradable,
+                minPriceNonTradable: query.min_price_non_tradable,
+                maxPriceNonTradable: query.max_price_non_tradable,
+                tradableOnly: query.tradable_only === true,
+                sort: query.sort,
+                order: query.order,
+                currency
+            },
+            query.cursor || undefined
+        )
+        res.status(200).send({
+            statusCode: 200,
+            msg: 'Skins retrieved successfully',
+            currency: result.currency,
+            items: result.items,
+            total: result.total,
+            nextCursor: result.nextCursor
+        })
+    }
+
+    /**
+     * Handles the request to get the live skins list from the upstream API.
+     * 
+     * @param req - The Fastify request object, containing optional `app_id` and `currency` in the query.
      * @param res - The Fastify reply object.
-     * @returns A promise that resolves to the response from the SkinService.
+     * @returns A promise that resolves once the skins with their tradable and non-tradable prices were streamed.
+     * @remarks
+     * - `app_id` and `currency` default to the `MARKET_APP_ID` and `MARKET_CURRENCY` settings.
+     * - Responds with a 400 status code if `app_id` is not one of `MARKET_APP_IDS` or `currency` is not one of `MARKET_CURRENCIES`.
+     * - Clients accepting `application/x-ndjson` receive one skin per line, other clients a JSON array.
+     *   Both are written batch by batch as they arrive, waiting for the client to drain the previous batch.
+     * - A client disconnect aborts the fetch. A failure after the first batch ends NDJSON with an `{"error": ...}` line
+     *   and aborts a JSON array response, so a truncated array cannot be mistaken for a complete one.
+     * - Headers already set on the reply, like `X-Request-Id`, are sent with the stream.
+     * - The `X-Cache` header is `HIT`, `STALE` or `MISS` and `Age` is the number of seconds since the skins were fetched.
+     * - Responds with a 502 status code if the upstream API cannot be reached.
+     * - Responds with a 503 status code and a `Retry-After` header while the upstream API is considered unhealthy.
+     */
+    async getSkins(req: FastifyRequest<{ Querystring: LiveSkinsQuery }>, res: FastifyReply) {
+        try {
+            const { app_id: appId = config.market.appId } = req.query
+            const currency = (req.query.currency || config.market.currency).toUpperCase()
+            // Every app ID and currency is cached and fetched separately, so only the configured ones are served
+            if (!config.market.currencies.includes(currency)) {
+                throw new ValidationError('Invalid live catalog query parameters', 'UNSUPPORTED_CURRENCY')
+            }
+
+            const abort = new AbortController()
+            res.raw.on('close', () => {
+                if (!res.raw.writableFinished) {
+                    abort.abort(new Error('Client disconnected'))
+                }
+            })
+            const result = await req.server.services.skin.getSkinsByWorker({ appId, currency }, abort.signal)
+
+            const ndjson = (req.headers.accept || '').includes(NDJSON)
+            res.hijack()
+            // A hijacked reply no longer writes its own headers, e.g. `X-Request-Id`, so they are passed on here
+            res.raw.writeHead(200, {
+                ...(res.getHeaders() as OutgoingHttpHeaders),
+                'Content-Type': ndjson ? NDJSON : 'application/json; charset=utf-8',
+                'X-Cache': result.cache,
+                Age: Math.max(0, Math.floor((Date.now() - result.fetchedAt) / 1000))
+            })
+            await streamSkins(res.raw, result.batches, ndjson)
+        } catch (error) {
+            // Once the reply is hijacked the error handler can no longer respond, the stream was already ended
+            if (res.sent) {
+                return
+            }
+            throw error
+        }
+    }
+
+    /**
+     * Retrieves a single skin.
+     * 
+     * @param req - The Fastify request object, containing the skin ID in the parameters.
+     * @param res - The Fastify reply object used to send the response.
+     * @returns A promise that resolves to the skin with its current prices, price overrides included.
+     * @remarks
+     * - Responds with a 404 status code if the skin is not found, hidden or deleted.
+     */
+    async getSkinById(req: FastifyRequest<{ Params: IdParams }>, res: FastifyReply) {
+        const skin = await req.server.services.skin.getSkinById(req.params.id)
+        if (!skin) {
+            throw new NotFoundError('Skin not found')
+        }
+        res.status(200).send({
+            statusCode: 200,
+            msg: 'Skin retrieved successfully',
+            skin
+        })
+    }
+
+    /**
+     * Adds a skin to the catalog manually. Admin only.
+     * 
+     * @param req - The Fastify request object, containing the skin fields in the body.
+     * @param res - The Fastify reply object used to send the response.
+     * @returns A promise that resolves to the created skin.
+     * @remarks
+     * - `name` is required. `market_hash_name` is optional, a skin that has one is also updated by the catalog sync.
+     * - Responds with a 409 status code if the `market_hash_name` is already used.
+     * - Responds with a 201 status code on success.
+     */
+    async createSkin(req: FastifyRequest<{ Body: CreateSkinBody }>, res: FastifyReply) {
+        const skin = await req.server.services.skin.createSkin(trimSkinFields(req.body))
+        res.status(201).send({
+            statusCode: 201,
+            msg: 'Skin created successfully',
+            skin
+        })
+    }
+
+    /**
+     * Partially updates a skin. Admin only.
+     * 
+     * @param req - The Fastify request object, containing the skin ID in the parameters and the fields to change in the body.
+     * @param res - The Fastify reply object used to send the response.
+     * @returns A promise that resolves to the updated skin.
+     * @remarks
+     * - Only the provided fields change. `price_override_tradable` and `price_override_non_tradable` take precedence over the synced prices,
+     *   `null` removes an override. `hidden: true` removes the skin from the catalog and blocks purchases.
+     * - Responds with a 400 status code if no field is provided.
+     * - Responds with a 404 status code if the skin is not found or deleted.
+     * - Responds with a 409 status code if the `market_hash_name` is already used.
+     */
+    async updateSkin(req: FastifyRequest<{ Params: IdParams; Body: UpdateSkinBody }>, res: FastifyReply) {
+        const fields = trimSkinFields(req.body)
+        if (!Object.keys(fields).length) {
+            throw new ValidationError('No skin fields provided')
+        }
+        const skin = await req.server.services.skin.updateSkin(req.params.id, fields)
+        res.status(200).send({
+            statusCode: 200,
+            msg: 'Skin updated successfully',
+            skin
+        })
+    }
+
+    /**
+     * Soft-deletes a skin. Admin only.
+     * 
+     * @param req - The Fastify request object, containing the skin ID in the parameters.
+     * @param res - The Fastify reply object used to send the response.
+     * @returns A promise that resolves to the deleted skin.
+     * @remarks
+     * - Responds with a 404 status code if the skin is not found or already deleted.
+     */
+    async deleteSkin(req: FastifyRequest<{ Params: IdParams }>, res: FastifyReply) {
+        const skin = await req.server.services.skin.deleteSkin(req.params.id)
+        if (!skin) {
+            throw new NotFoundError('Skin not found')
+        }
+        res.status(200).send({
+            statusCode: 200,
+            msg: 'Skin deleted successfully',
+            skin
+        })
+    }
+
+    /**
+     * Retrieves the price history of a skin.
+     * 
+     * @param req - The Fastify request object, containing the skin ID in the parameters and optional `interval`, `from` and `to` in the query.
+     * @param res - The Fastify reply object used to send the response.
+     * @returns A promise that resolves to the time-bucketed price series and the price changes over 24h, 7d and 30d.
+     * @remarks
+     * - `interval` is `hour` (default) or `day`.
+     * - `from` and `to` are ISO 8601 dates and default to the last 30 days.
+     * - Responds with a 400 status code if `from` is not before `to`.
+     * - Responds with a 404 status code if the skin is not found.
      */
-    async getSkins(req: FastifyRequest, res: FastifyReply) {
-        const response = await SkinService.getSkinsByWorker(req, res)
-        return response
+    async getSkinHistory(req: FastifyRequest<{ Params: IdParams; Querystring: HistoryQuery }>, res: FastifyReply) {
+        const { interval, from, to } = req.query
+        const toDate = to ? new Date(to) : new Date()
+        const fromDate = from ? new Date(from) : new Date(toDate.getTime() - HISTORY_DEFAULT_RANGE)
+        if (fromDate >= toDate) {
+            throw new ValidationError('Invalid date range', 'INVALID_DATE_RANGE')
+        }
+        const history = await req.server.services.skin.getSkinHistory(req.params.id, interval, fromDate, toDate)
+        if (!history) {
+            throw new NotFoundError('Skin not found')
+        }
+        res.status(200).send({
+            statusCode: 200,
+            msg: 'Price history retrieved successfully',
+            skin: history.skin,
+            interval,
+            from: fromDate,
+            to: toDate,
+            series: history.series,
+            change: history.change
+        })
     }
 }
 
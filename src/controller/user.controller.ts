@@ -1,7 +1,26 @@
-import { UserService } from '../service'
 import { FastifyReply, FastifyRequest } from 'fastify'
 import bcrypt from 'bcryptjs'
-import { sign } from 'jsonwebtoken'
+import config from '../config/config'
+import { canAccessUser } from '../middlewares/requireself'
+import { validatePassword } from '../utils/password'
+import { NotFoundError, ForbiddenError, ValidationError } from '../errors'
+import {
+    IdParams,
+    PageQuery,
+    TransactionsQuery,
+    BuyBody,
+    DepositBody,
+    OrderParams,
+    AdjustBody,
+    CurrencyBody,
+    CredentialsBody,
+    TokenBody,
+    EmailBody,
+    ResetPasswordBody,
+    RefreshBody,
+    LogoutBody,
+    ChangePasswordBody
+} from '../schemas'
 
 class UserController {
     /**
@@ -10,23 +29,14 @@ class UserController {
      * @param req - The Fastify request object.
      * @param res - The Fastify reply object.
      * @returns A promise that resolves to a response containing the list of users.
-     * @throws Will throw an error if there is an issue retrieving the users.
      */
     async getUsers(req: FastifyRequest, res: FastifyReply) {
-        try {
-            const users = await UserService.getUsers()
-            res.status(200).send({
-                statusCode: 200,
-                msg: 'Users retrieved successfully',
-                users
-            })
-        } catch (error) {
-            res.status(500).send({
-                statusCode: 500,
-                msg: 'Internal Server Error',
-                error: error
-            })
-        }
+        const users = await req.server.services.user.getUsers()
+        return res.status(200).send({
+            statusCode: 200,
+            msg: 'Users retrieved successfully',
+            users
+        })
     }
 
     /**
@@ -34,92 +44,200 @@ class UserController {
      * 
      * @param req - The Fastify request object, containing the user ID in the parameters.
      * @param res - The Fastify reply object used to send the response.
-     * @returns A promise that resolves to the user data if found, or an error message if not.
-     * @throws Will throw an error if there is an issue with the request processing.
+     * @returns A promise that resolves to the user data.
+     * @throws NotFoundError if the user is not found.
+     */
+    async getUserById(req: FastifyRequest<{ Params: IdParams }>, res: FastifyReply) {
+        const user = await req.server.services.user.getUserById(req.params.id)
+        if (!user) {
+            throw new NotFoundError('User not found')
+        }
+        return res.status(200).send({
+            statusCode: 200,
+            msg: 'User retrieved successfully',
+            user
+        })
+    }
+
+    /**
+     * Retrieves the inventory of a user with pagination.
+     * 
+     * @param req - The Fastify request object, containing the user ID in the parameters and optional `limit` and `offset` in the query.
+     * @param res - The Fastify reply object used to send the response.
+     * @returns A promise that resolves to the inventory page, the total number of owned items and their current value.
+     * @remarks
+     * - `limit` defaults to 20 and cannot exceed 100, `offset` defaults to 0.
+     * - Responds with a 404 status code if the user is not found.
+     */
+    async getUserInventory(req: FastifyRequest<{ Params: IdParams; Querystring: PageQuery }>, res: FastifyReply) {
+        const userId = req.params.id
+        const { limit, offset } = req.query
+        const user = await req.server.services.user.getUserById(userId)
+        if (!user) {
+            throw new NotFoundError('User not found')
+        }
+        const inventory = await req.server.services.user.getUserInventory(userId, limit, offset)
+        return res.status(200).send({
+            statusCode: 200,
+            msg: 'Inventory retrieved successfully',
+            currency: inventory.currency,
+            items: inventory.items,
+            total: inventory.total,
+            totalValue: inventory.totalValue,
+            limit,
+            offset
+        })
+    }
+
+    /**
+     * Retrieves the balance ledger of a user with optional date-range filtering and pagination.
+     * 
+     * @param req - The Fastify request object, containing the user ID in the parameters and optional `from`, `to`, `limit` and `offset` in the query.
+     * @param res - The Fastify reply object used to send the response.
+     * @returns A promise that resolves to the ledger entries, their total count and the reconciliation of the ledger with the stored balance.
      * @remarks
-     * - Responds with a 400 status code if the ID is invalid.
+     * - `from` and `to` are ISO 8601 dates, `from` is inclusive and `to` is exclusive.
+     * - `limit` defaults to 50 and cannot exceed 200, `offset` defaults to 0.
      * - Responds with a 404 status code if the user is not found.
-     * - Responds with a 500 status code if there is an internal server error.
-     */
-    async getUserById(req: FastifyRequest, res: FastifyReply) {
-        try {
-            const { id } = req.params as { id: string }
-            const userId = parseInt(id, 10)
-            if (isNaN(userId)) {
-                res.status(400).send({
-                    statusCode: 400,
-                    msg: 'Invalid ID'
-                })
-                return
-            }
-            const user = await UserService.getUserById(userId)
-            if (!user) {
-                res.status(404).send({
-                    statusCode: 404,
-                    msg: 'User not found'
-                })
-                return
-            }
-            res.status(200).send({
-                statusCode: 200,
-                msg: 'User retrieved successfully',
-                user
-            })
-        } catch (error) {
-            res.status(500).send({
-                statusCode: 500,
-                msg: 'Internal Server Error',
-                error: error
-            })
+     */
+    async getUserTransactions(req: FastifyRequest<{ Params: IdParams; Querystring: TransactionsQuery }>, res: FastifyReply) {
+        const { from, to, limit, offset } = req.query
+        const result = await req.server.services.user.getUserTransactions(req.params.id, {
+            from: from ? new Date(from) : undefined,
+            to: to ? new Date(to) : undefined,
+            limit,
+            offset
+        })
+        if (!result) {
+            throw new NotFoundError('User not found')
         }
+        return res.status(200).send({
+            statusCode: 200,
+            msg: 'Transactions retrieved successfully',
+            transactions: result.transactions,
+            total: result.total,
+            reconciliation: result.reconciliation,
+            limit,
+            offset
+        })
     }
 
     /**
-     * Handles the purchase of an item by deducting the specified amount from the user's balance.
+     * Handles the purchase of a skin by the user.
      * 
-     * @param req - The Fastify request object containing the userId and amount in the body.
+     * @param req - The Fastify request object containing the skinId, the optional tradable flag and the optional userId in the body.
      * @param res - The Fastify reply object used to send the response.
      * 
      * @remarks
-     * - Validates the userId and amount from the request body.
-     * - If validation fails, responds with a 400 status code and an error message.
-     * - Calls the UserService to deduct the balance.
-     * - If the deduction is successful, responds with a 200 status code and a success message.
-     * - If the deduction fails, responds with a 400 status code and an error message.
-     * - Catches and logs any errors, responding with a 500 status code and an internal server error message.
-     * @throws Will throw an error if the UserService.deductBalance method fails.
-     */
-    async simpleBuyItem(req: FastifyRequest, res: FastifyReply) {
-        try {
-            const { userId, amount } = req.body as { userId: number; amount: number }
-            if (!userId || !amount || isNaN(userId) || isNaN(amount) || amount <= 0) {
-                res.status(400).send({
-                    statusCode: 400,
-                    msg: 'Invalid userId or amount'
-                })
-                return
-            }
-            const result = await UserService.deductBalance(userId, amount)
-            if (result.success) {
-                res.status(200).send({
-                    statusCode: 200,
-                    msg: 'Balance deducted successfully',
-                    user: result.user
-                })
-            } else {
-                res.status(400).send({
-                    statusCode: 400,
-                    msg: result.msg
-                })
-            }
-        } catch (error) {
-            console.log(error)
-            res.status(500).send({
-                statusCode: 500,
-                msg: 'Internal Server Error',
-                error: error
-            })
+     * - The item is bought for the authenticated user unless a user with the `balance:adjust` permission passes another userId.
+     * - Responds with a 403 status code if the userId belongs to another user and the caller lacks the `balance:adjust` permission.
+     * - The price is never taken from the client, it is read from the `items` table.
+     * - The tradable variant is bought unless `tradable` is explicitly `false`.
+     * - If the purchase is successful, responds with a 200 status code, the created order and the updated balance.
+     * - If the purchase fails, the domain error thrown by the UserService is sent with its status code.
+     */
+    async buyItem(req: FastifyRequest<{ Body: BuyBody }>, res: FastifyReply) {
+        const { userId = req.user!.id, skinId, tradable = true } = req.body
+        if (!canAccessUser(req.user, userId, 'balance:adjust')) {
+            throw new ForbiddenError('Access denied! You can only buy items for your own account.')
         }
+        const result = await req.server.services.user.buyItem(userId, skinId, tradable)
+        return res.status(200).send({
+            statusCode: 200,
+            msg: 'Item purchased successfully',
+            order: result.order,
+            user: result.user
+        })
+    }
+
+    /**
+     * Handles a deposit of funds to the user's balance.
+     * 
+     * @param req - The Fastify request object containing the amount and the optional userId in the body.
+     * @param res - The Fastify reply object used to send the response.
+     * 
+     * @remarks
+     * - Only users with the `balance:deposit` permission may deposit, to their own account or the account of the userId.
+     * - Responds with a 404 status code if the user is not found.
+     * - Responds with a 200 status code and the updated balance on success.
+     */
+    async deposit(req: FastifyRequest<{ Body: DepositBody }>, res: FastifyReply) {
+        const { userId = req.user!.id, amount } = req.body
+        const result = await req.server.services.user.deposit(userId, amount)
+        return res.status(200).send({
+            statusCode: 200,
+            msg: 'Deposit completed successfully',
+            user: result.user
+        })
+    }
+
+    /**
+     * Handles the refund of an order: the item leaves the buyer's inventory and the price is credited back.
+     * 
+     * @param req - The Fastify request object, containing the order ID in the parameters.
+     * @param res - The Fastify reply object used to send the response.
+     * 
+     * @remarks
+     * - Responds with a 403 status code if the order belongs to another user and the caller lacks the `balance:adjust` permission.
+     * - Responds with a 404 status code if the order is not found.
+     * - Responds with a 409 status code if the order was already refunded or the item is no longer owned.
+     * - Responds with a 200 status code, the refunded order and the updated balance on success.
+     */
+    async refundOrder(req: FastifyRequest<{ Params: OrderParams }>, res: FastifyReply) {
+        const result = await req.server.services.user.refundOrder(req.params.orderId, req.user!)
+        return res.status(200).send({
+            statusCode: 200,
+            msg: 'Order refunded successfully',
+            order: result.order,
+            user: result.user
+        })
+    }
+
+    /**
+     * Handles an admin correction of a user's balance.
+     * 
+     * @param req - The Fastify request object, containing the user ID in the parameters and the signed amount and the reason in the body.
+     * @param res - The Fastify reply object used to send the response.
+     * 
+     * @remarks
+     * - A positive amount credits the balance, a negative amount debits it.
+     * - The reason is mandatory and is stored on the ledger entry.
+     * - Responds with a 400 status code if the balance would become negative.
+     * - Responds with a 404 status code if the user is not found.
+     * - Responds with a 200 status code and the updated balance on success.
+     */
+    async adjustBalance(req: FastifyRequest<{ Params: IdParams; Body: AdjustBody }>, res: FastifyReply) {
+        const { amount, reason } = req.body
+        const result = await req.server.services.user.adjustBalance(req.params.id, amount, reason.trim())
+        return res.status(200).send({
+            statusCode: 200,
+            msg: 'Balance adjusted successfully',
+            user: result.user
+        })
+    }
+
+    /**
+     * Handles a change of the authenticated user's balance currency.
+     * 
+     * @param req - The Fastify request object containing the new currency in the body.
+     * @param res - The Fastify reply object used to send the response.
+     * 
+     * @remarks
+     * - The currency code is case-insensitive and must be one of `MARKET_CURRENCIES`, otherwise responds with a 400 status code.
+     * - Responds with a 503 status code if no exchange rate to the old or the new currency has been loaded.
+     * - Responds with a 200 status code and the converted balance on success.
+     */
+    async changeCurrency(req: FastifyRequest<{ Body: CurrencyBody }>, res: FastifyReply) {
+        const currency = req.body.currency.toUpperCase()
+        if (!config.market.currencies.includes(currency)) {
+            throw new ValidationError(`Currency must be one of ${config.market.currencies.join(', ')}`, 'UNSUPPORTED_CURRENCY')
+        }
+        const result = await req.server.services.user.changeCurrency(req.user!.id, currency)
+        return res.status(200).send({
+            statusCode: 200,
+            msg: 'Currency changed successfully',
+            user: result.user
+        })
     }
 
     /**
@@ -127,121 +245,185 @@ class UserController {
      *
      * @param {FastifyRequest} req - The request object containing email and password in the body.
      * @param {FastifyReply} res - The response object used to send back the appropriate response.
-     * @returns {Promise<void>} - Sends a response with the status and message or token.
-     * @throws {Error} - If an unexpected error occurs, a 500 status code is returned with the error message.
-     */
-    async login(req: FastifyRequest, res: FastifyReply) {
-        try {
-            const { email, password } = req.body as { email: string; password: string };
-            if (!email || !password) {
-                return res.status(400).send({
-                    statusCode: 400,
-                    msg: 'Email or password is missing',
-                });
-            }
-
-            const user = await UserService.getUserByEmail(email);
-            if (!user) {
-                return res.status(404).send({
-                    statusCode: 404,
-                    msg: 'User not found',
-                });
-            }
-
-            const isMatch = await bcrypt.compare(password, user.password);
-            if (!isMatch) {
-                return res.status(400).send({
-                    statusCode: 400,
-                    msg: 'Invalid password',
-                });
-            }
-
-            const payload = {
-                user: {
-                    id: user.id,
-                },
-            };
-            const jwt_secret = process.env.JWT_SECRET || 'secret';
-
-            // Используйте синхронную версию sign для получения токена
-            const token = sign(payload, jwt_secret, { expiresIn: 3600 });
-
-            // Отправьте ответ с токеном
-            return res.status(200).send({
-                statusCode: 200,
-                msg: 'Login successful',
-                token,
-            });
-        } catch (error) {
-            console.error(error); // Вывод ошибки в консоль для отладки
-            return res.status(500).send({
-                statusCode: 500,
-                msg: 'Internal Server Error',
-                error: error,
-            });
-        }
+     * @returns {Promise<void>} - Sends a response with the status and message, or the access token,
+     *                            the refresh token and the access token lifetime in seconds.
+     *                            Unknown emails and wrong passwords both get 401, a locked out email gets 429 with `Retry-After`,
+     *                            a disabled account or an unverified email gets 403.
+     */
+    async login(req: FastifyRequest<{ Body: CredentialsBody }>, res: FastifyReply) {
+        const { email, password } = req.body;
+
+        const { accessToken, refreshToken, expiresIn } = await req.server.services.auth.login(email, password);
+
+        return res.status(200).send({
+            statusCode: 200,
+            msg: 'Login successful',
+            token: accessToken,
+            refreshToken,
+            expiresIn,
+        });
+    }
+
+    /**
+     * Registers a new account and sends the email verification link.
+     *
+     * @param req - The Fastify request object containing the email and the password in the body.
+     * @param res - The Fastify reply object used to send the response.
+     * @returns A response with status 201 and the created user.
+     * Will return a 400 status code if the email is invalid or the password breaks the password rules,
+     * or a 409 status code if the email is already registered.
+     */
+    async register(req: FastifyRequest<{ Body: CredentialsBody }>, res: FastifyReply) {
+        const { email, password } = req.body;
+
+        const user = await req.server.services.registration.register(email, password);
+
+        return res.status(201).send({
+            statusCode: 201,
+            msg: 'Registration successful, check your email to verify the account',
+            user,
+        });
+    }
+
+    /**
+     * Verifies an email with the token from the verification link.
+     *
+     * @param req - The Fastify request object containing the token in the body.
+     * @param res - The Fastify reply object used to send the response.
+     * @returns A response confirming the verification.
+     * Will return a 400 status code if the token is unknown, expired or already used.
+     */
+    async verifyEmail(req: FastifyRequest<{ Body: TokenBody }>, res: FastifyReply) {
+        await req.server.services.registration.verifyEmail(req.body.token);
+
+        return res.status(200).send({
+            statusCode: 200,
+            msg: 'Email verified successfully',
+        });
+    }
+
+    /**
+     * Sends a new verification link. Responds the same way whether or not the email is registered.
+     *
+     * @param req - The Fastify request object containing the email in the body.
+     * @param res - The Fastify reply object used to send the response.
+     * @returns A response with status 202.
+     */
+    async resendVerification(req: FastifyRequest<{ Body: EmailBody }>, res: FastifyReply) {
+        await req.server.services.registration.resendVerification(req.body.email);
+
+        return res.status(202).send({
+            statusCode: 202,
+            msg: 'If the account exists and is not verified, a verification link has been sent',
+        });
     }
 
     /**
-     * Handles the password change request for a user.
+     * Sends a password reset link. Responds the same way whether or not the email is registered.
      *
-     * @param req - The Fastify request object containing the email, old password, and new password.
+     * @param req - The Fastify request object containing the email in the body.
+     * @param res - The Fastify reply object used to send the response.
+     * @returns A response with status 202.
+     */
+    async forgotPassword(req: FastifyRequest<{ Body: EmailBody }>, res: FastifyReply) {
+        await req.server.services.registration.requestPasswordReset(req.body.email);
+
+        return res.status(202).send({
+            statusCode: 202,
+            msg: 'If the account exists, a password reset link has been sent',
+        });
+    }
+
+    /**
+     * Sets a new password with the token from a password reset link. All existing sessions of the user are ended.
+     *
+     * @param req - The Fastify request object containing the token and the new password in the body.
+     * @param res - The Fastify reply object used to send the response.
+     * @returns A response confirming the change.
+     * Will return a 400 status code if the token cannot be used or the password breaks the password rules.
+     */
+    async resetPassword(req: FastifyRequest<{ Body: ResetPasswordBody }>, res: FastifyReply) {
+        const { token, password } = req.body;
+
+        await req.server.services.registration.resetPassword(token, password);
+
+        return res.status(200).send({
+            statusCode: 200,
+            msg: 'Password reset successfully',
+        });
+    }
+
+    /**
+     * Exchanges a refresh token for a new pair of tokens.
+     *
+     * @param req - The Fastify request object containing the refresh token in the body.
+     * @param res - The Fastify reply object used to send the response.
+     * @returns A response with the new access token, refresh token and access token lifetime in seconds.
+     * Will return a 401 status code if the refresh token is unknown, expired, revoked or has already been used.
+     */
+    async refresh(req: FastifyRequest<{ Body: RefreshBody }>, res: FastifyReply) {
+        const result = await req.server.services.auth.refresh(req.body.refreshToken);
+
+        return res.status(200).send({
+            statusCode: 200,
+            msg: 'Token refreshed successfully',
+            token: result.accessToken,
+            refreshToken: result.refreshToken,
+            expiresIn: result.expiresIn,
+        });
+    }
+
+    /**
+     * Ends the current session. Must be used after `authJwt`.
+     *
+     * @param req - The Fastify request object with the access token in the `Authorization` header
+     *              and, optionally, the refresh token of the session in the body.
+     * @param res - The Fastify reply object used to send the response.
+     * @returns A response confirming the logout.
+     */
+    async logout(req: FastifyRequest<{ Body: LogoutBody }>, res: FastifyReply) {
+        await req.server.services.auth.logout(req.user!.token, req.body.refreshToken);
+
+        return res.status(200).send({
+            statusCode: 200,
+            msg: 'Logout successful',
+        });
+    }
+
+    /**
+     * Handles the password change request for a user. All existing sessions of the user are ended.
+     *
+     * @param req - The Fastify request object containing the old password and the new password of the authenticated user.
      * @param res - The Fastify reply object used to send the response.
      * @returns A response indicating the result of the password change operation.
-     * @throws Will return a 400 status code if the old password and new password are the same,
-     * or if any of the required fields (email, old password, new password) are missing.
-     * Will return a 404 status code if the user is not found.
-     * Will return a 400 status code if the old password does not match the user's current password.
-     * Will return a 500 status code if an internal server error occurs.
-     */
-    async changePassword(req: FastifyRequest, res: FastifyReply) {
-        try {
-            const { email, oldPassword, newPassword } = req.body as { email: string; oldPassword: string; newPassword: string };
-
-            if(oldPassword === newPassword) {
-                return res.status(400).send({
-                    statusCode: 400,
-                    msg: 'Old password and new password should not be the same',
-                });
-            }
-
-            if (!email || !oldPassword || !newPassword) {
-                return res.status(400).send({
-                    statusCode: 400,
-                    msg: 'Email, old password or new password is missing',
-                });
-            }
-
-            const user = await UserService.getUserByEmail(email);
-            if (!user) {
-                return res.status(404).send({
-                    statusCode: 404,
-                    msg: 'User not found',
-                });
-            }
-
-            const isMatch = await bcrypt.compare(oldPassword, user.password);
-            if (!isMatch) {
-                return res.status(400).send({
-                    statusCode: 400,
-                    msg: 'Invalid password',
-                });
-            }
-
-            await UserService.changePassword(user.id, newPassword);
-
-            return res.status(200).send({
-                statusCode: 200,
-                msg: 'Password changed successfully',
-            });
-        } catch (error) {
-            console.error(error); // Вывод ошибки в консоль для отладки
-            return res.status(500).send({
-                statusCode: 500,
-                msg: 'Internal Server Error',
-                error: error,
-            });
+     * @throws ValidationError if the old password and new password are the same,
+     * if the old password does not match the user's current password or if the new password breaks the password rules.
+     */
+    async changePassword(req: FastifyRequest<{ Body: ChangePasswordBody }>, res: FastifyReply) {
+        const { oldPassword, newPassword } = req.body;
+
+        if(oldPassword === newPassword) {
+            throw new ValidationError('Old password and new password should not be the same', 'SAME_PASSWORD');
         }
+
+        const user = await req.server.services.user.getUserCredentialsById(req.user!.id);
+
+        const passwordError = validatePassword(newPassword, user.email);
+        if (passwordError) {
+            throw new ValidationError(passwordError, 'WEAK_PASSWORD');
+        }
+
+        const isMatch = await bcrypt.compare(oldPassword, user.password);
+        if (!isMatch) {
+            throw new ValidationError('Invalid password', 'INVALID_PASSWORD');
+        }
+
+        await req.server.services.user.changePassword(user.id, newPassword);
+
+        return res.status(200).send({
+            statusCode: 200,
+            msg: 'Password changed successfully',
+        });
     }
 }
 
@@ -0,0 +1,51 @@
+import { pool } from '../config/db.config'
+import migrator from './migrator'
+import seed from './seeds'
+
+const usage = 'Usage: npm run migrate -- <up | down [steps] | status> | npm run seed'
+
+const run = async (command: string | undefined, arg: string | undefined) => {
+    switch (command) {
+        case 'up': {
+            const applied = await migrator.up()
+            applied.forEach((migration) => console.log(`Applied ${migration.version} ${migration.name}`))
+            console.log(applied.length ? `${applied.length} migration(s) applied` : 'Database is up to date')
+            break
+        }
+        case 'down': {
+            const steps = arg === undefined ? 1 : parseInt(arg, 10)
+            if (isNaN(steps) || steps < 1) {
+                throw new Error(usage)
+            }
+            const reverted = await migrator.down(steps)
+            reverted.forEach((migration) => console.log(`Reverted ${migration.version} ${migration.name}`))
+            console.log(reverted.length ? `${reverted.length} migration(s) reverted` : 'Nothing to revert')
+            break
+        }
+        case 'status': {
+            const migrations = await migrator.status()
+            console.table(
+                migrations.map((migration) => ({
+                    version: migration.version,
+                    name: migration.name,
+                    applied_at: migration.appliedAt ? migration.appliedAt.toISOString() : 'pending'
+                }))
+            )
+            break
+        }
+        case 'seed': {
+            console.log((await seed()) ? 'Seed data inserted' : 'Users already exist, nothing to seed')
+            break
+        }
+        default:
+            throw new Error(usage)
+    }
+}
+
+run(process.argv[2], process.argv[3])
+    .then(() => pool.end())
+    .catch(async (err) => {
+        console.error(err.message || err)
+        await pool.end()
+        process.exit(1)
+    })
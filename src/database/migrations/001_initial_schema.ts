@@ -0,0 +1,98 @@
+import { Migration } from '../migrator'
+
+/**
+ * Creates the schema that used to be created by the repositories on every boot:
+ * `items`, `users`, `orders`, `inventory` and the append-only `balance_transactions` ledger.
+ *
+ * Databases created by the old boot code already contain these tables, so every statement
+ * is idempotent and brings such databases to the same state as a fresh one.
+ */
+const migration: Migration = {
+    version: 1,
+    name: 'initial_schema',
+
+    async up(client) {
+        await client.query('CREATE TABLE IF NOT EXISTS items (id SERIAL PRIMARY KEY, name VARCHAR(255), min_price_non_tradable FLOAT, min_price_tradable FLOAT)')
+
+        await client.query(`
+            CREATE TABLE IF NOT EXISTS users (
+            id SERIAL PRIMARY KEY,
+            balance NUMERIC(12, 2) NOT NULL,
+            email VARCHAR(255) NOT NULL,
+            password VARCHAR(255) NOT NULL,
+            role VARCHAR(32) NOT NULL DEFAULT 'user'
+        )`)
+        await client.query('ALTER TABLE users ALTER COLUMN balance TYPE NUMERIC(12, 2)')
+        await client.query("ALTER TABLE users ADD COLUMN IF NOT EXISTS role VARCHAR(32) NOT NULL DEFAULT 'user'")
+
+        await client.query(`
+            CREATE TABLE IF NOT EXISTS orders (
+            id SERIAL PRIMARY KEY,
+            user_id INT NOT NULL REFERENCES users(id),
+            item_id INT NOT NULL REFERENCES items(id),
+            price NUMERIC(12, 2) NOT NULL,
+            tradable BOOLEAN NOT NULL,
+            status VARCHAR(32) NOT NULL DEFAULT 'completed',
+            created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        )`)
+
+        await client.query(`
+            CREATE TABLE IF NOT EXISTS inventory (
+            id SERIAL PRIMARY KEY,
+            user_id INT NOT NULL REFERENCES users(id),
+            item_id INT NOT NULL REFERENCES items(id),
+            order_id INT REFERENCES orders(id),
+            acquired_price NUMERIC(12, 2) NOT NULL,
+            tradable BOOLEAN NOT NULL,
+            acquired_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        )`)
+        await client.query('CREATE INDEX IF NOT EXISTS inventory_user_id_idx ON inventory (user_id, acquired_at DESC)')
+
+        await client.query(`
+            CREATE TABLE IF NOT EXISTS balance_transactions (
+            id SERIAL PRIMARY KEY,
+            user_id INT NOT NULL REFERENCES users(id),
+            type VARCHAR(6) NOT NULL CHECK (type IN ('debit', 'credit')),
+            amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+            reason VARCHAR(64) NOT NULL,
+            order_id INT REFERENCES orders(id),
+            note TEXT,
+            balance_after NUMERIC(12, 2) NOT NULL,
+            created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        )`)
+        await client.query('ALTER TABLE balance_transactions ADD COLUMN IF NOT EXISTS note TEXT')
+        await client.query('CREATE INDEX IF NOT EXISTS balance_transactions_user_id_idx ON balance_transactions (user_id, created_at DESC)')
+        await client.query(`
+            CREATE OR REPLACE FUNCTION balance_transactions_append_only() RETURNS trigger AS $$
+            BEGIN
+                RAISE EXCEPTION 'balance_transactions is append-only';
+            END;
+            $$ LANGUAGE plpgsql
+        `)
+        await client.query('DROP TRIGGER IF EXISTS balance_transactions_append_only ON balance_transactions')
+        await client.query(`
+            CREATE TRIGGER balance_transactions_append_only
+            BEFORE UPDATE OR DELETE ON balance_transactions
+            FOR EACH ROW EXECUTE FUNCTION balance_transactions_append_only()
+        `)
+
+        // Balances that existed before the ledger are recorded as opening credits so they reconcile
+        await client.query(`
+            INSERT INTO balance_transactions (user_id, type, amount, reason, balance_after)
+            SELECT u.id, 'credit', u.balance, 'opening_balance', u.balance
+            FROM users u
+            WHERE u.balance > 0 AND NOT EXISTS (SELECT 1 FROM balance_transactions bt WHERE bt.user_id = u.id)
+        `)
+    },
+
+    async down(client) {
+        await client.query('DROP TABLE IF EXISTS balance_transactions')
+        await client.query('DROP FUNCTION IF EXISTS balance_transactions_append_only()')
+        await client.query('DROP TABLE IF EXISTS inventory')
+        await client.query('DROP TABLE IF EXISTS orders')
+        await client.query('DROP TABLE IF EXISTS users')
+        await client.query('DROP TABLE IF EXISTS items')
+    }
+}
+
+export default migration
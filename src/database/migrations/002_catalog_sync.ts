@@ -0,0 +1,45 @@
+import { Migration } from '../migrator'
+
+/**
+ * Prepares `items` for the scheduled catalog sync and adds the `catalog_sync_runs` log.
+ *
+ * - `items.market_hash_name`: The upstream identifier items are upserted by, unique.
+ * - `items.last_synced_at`: The time of the last sync that returned the item.
+ * - `items.delisted_at`: Set when the item disappears from the upstream, cleared when it comes back.
+ * - `catalog_sync_runs`: One row per sync run with its status, counts and error.
+ */
+const migration: Migration = {
+    version: 2,
+    name: 'catalog_sync',
+
+    async up(client) {
+        await client.query('ALTER TABLE items ADD COLUMN market_hash_name VARCHAR(255)')
+        await client.query('ALTER TABLE items ADD COLUMN last_synced_at TIMESTAMPTZ')
+        await client.query('ALTER TABLE items ADD COLUMN delisted_at TIMESTAMPTZ')
+        // Rows inserted before the sync existed are keyed by name, duplicates keep a NULL key
+        await client.query('UPDATE items SET market_hash_name = name WHERE id IN (SELECT MIN(id) FROM items WHERE name IS NOT NULL GROUP BY name)')
+        await client.query('CREATE UNIQUE INDEX items_market_hash_name_key ON items (market_hash_name)')
+
+        await client.query(`
+            CREATE TABLE catalog_sync_runs (
+            id SERIAL PRIMARY KEY,
+            started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+            finished_at TIMESTAMPTZ,
+            status VARCHAR(16) NOT NULL DEFAULT 'running',
+            fetched_count INT,
+            upserted_count INT,
+            delisted_count INT,
+            error TEXT
+        )`)
+    },
+
+    async down(client) {
+        await client.query('DROP TABLE catalog_sync_runs')
+        await client.query('DROP INDEX items_market_hash_name_key')
+        await client.query('ALTER TABLE items DROP COLUMN delisted_at')
+        await client.query('ALTER TABLE items DROP COLUMN last_synced_at')
+        await client.query('ALTER TABLE items DROP COLUMN market_hash_name')
+    }
+}
+
+export default migration
@@ -0,0 +1,27 @@
+import { Migration } from '../migrator'
+
+/**
+ * Adds `price_history`, one snapshot of both minimum prices per item and catalog sync.
+ */
+const migration: Migration = {
+    version: 3,
+    name: 'price_history',
+
+    async up(client) {
+        await client.query(`
+            CREATE TABLE price_history (
+            id BIGSERIAL PRIMARY KEY,
+            item_id INT NOT NULL REFERENCES items(id) ON DELETE CASCADE,
+            min_price_tradable FLOAT,
+            min_price_non_tradable FLOAT,
+            recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        )`)
+        await client.query('CREATE INDEX price_history_item_id_recorded_at_idx ON price_history (item_id, recorded_at)')
+    },
+
+    async down(client) {
+        await client.query('DROP TABLE price_history')
+    }
+}
+
+export default migration
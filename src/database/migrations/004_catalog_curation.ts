@@ -0,0 +1,29 @@
+import { Migration } from '../migrator'
+
+/**
+ * Adds the columns used for manual catalog curation to `items`.
+ *
+ * - `hidden`: Hidden items are left out of the catalog and cannot be purchased.
+ * - `deleted_at`: Soft-deleted items behave like missing ones, the row is kept for orders and inventory.
+ * - `price_override_tradable`, `price_override_non_tradable`: Manual prices that take precedence over the synced ones.
+ */
+const migration: Migration = {
+    version: 4,
+    name: 'catalog_curation',
+
+    async up(client) {
+        await client.query('ALTER TABLE items ADD COLUMN hidden BOOLEAN NOT NULL DEFAULT FALSE')
+        await client.query('ALTER TABLE items ADD COLUMN deleted_at TIMESTAMPTZ')
+        await client.query('ALTER TABLE items ADD COLUMN price_override_tradable FLOAT')
+        await client.query('ALTER TABLE items ADD COLUMN price_override_non_tradable FLOAT')
+    },
+
+    async down(client) {
+        await client.query('ALTER TABLE items DROP COLUMN price_override_non_tradable')
+        await client.query('ALTER TABLE items DROP COLUMN price_override_tradable')
+        await client.query('ALTER TABLE items DROP COLUMN deleted_at')
+        await client.query('ALTER TABLE items DROP COLUMN hidden')
+    }
+}
+
+export default migration
@@ -0,0 +1,61 @@
+import { Migration } from '../migrator'
+
+/**
+ * Adds multi-currency pricing and currency-aware balances.
+ *
+ * - `item_prices`: The synced prices of every item in each non-base currency.
+ * - `exchange_rates`: Append-only log of loaded rates, orders reference the rate they were converted with.
+ * - `users.currency`: The currency of the balance.
+ * - `orders.currency`, `orders.base_price`, `orders.exchange_rate_id`: The charged currency, the price in the base currency and the applied rate.
+ * - `inventory.currency`, `balance_transactions.currency`: The currency of the stored amounts.
+ *
+ * Existing rows were all in EUR, the base currency at the time this migration was written.
+ */
+const migration: Migration = {
+    version: 5,
+    name: 'multi_currency',
+
+    async up(client) {
+        await client.query(`
+            CREATE TABLE item_prices (
+            item_id INT NOT NULL REFERENCES items(id) ON DELETE CASCADE,
+            currency VARCHAR(3) NOT NULL,
+            min_price_tradable FLOAT,
+            min_price_non_tradable FLOAT,
+            updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+            PRIMARY KEY (item_id, currency)
+        )`)
+
+        await client.query(`
+            CREATE TABLE exchange_rates (
+            id SERIAL PRIMARY KEY,
+            base VARCHAR(3) NOT NULL,
+            quote VARCHAR(3) NOT NULL,
+            rate NUMERIC(18, 8) NOT NULL CHECK (rate > 0),
+            source VARCHAR(32) NOT NULL,
+            fetched_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        )`)
+        await client.query('CREATE INDEX exchange_rates_pair_fetched_at_idx ON exchange_rates (base, quote, fetched_at DESC)')
+
+        await client.query("ALTER TABLE users ADD COLUMN currency VARCHAR(3) NOT NULL DEFAULT 'EUR'")
+        await client.query("ALTER TABLE orders ADD COLUMN currency VARCHAR(3) NOT NULL DEFAULT 'EUR'")
+        await client.query('ALTER TABLE orders ADD COLUMN base_price NUMERIC(12, 2)')
+        await client.query('ALTER TABLE orders ADD COLUMN exchange_rate_id INT REFERENCES exchange_rates(id)')
+        await client.query('UPDATE orders SET base_price = price')
+        await client.query("ALTER TABLE inventory ADD COLUMN currency VARCHAR(3) NOT NULL DEFAULT 'EUR'")
+        await client.query("ALTER TABLE balance_transactions ADD COLUMN currency VARCHAR(3) NOT NULL DEFAULT 'EUR'")
+    },
+
+    async down(client) {
+        await client.query('ALTER TABLE balance_transactions DROP COLUMN currency')
+        await client.query('ALTER TABLE inventory DROP COLUMN currency')
+        await client.query('ALTER TABLE orders DROP COLUMN exchange_rate_id')
+        await client.query('ALTER TABLE orders DROP COLUMN base_price')
+        await client.query('ALTER TABLE orders DROP COLUMN currency')
+        await client.query('ALTER TABLE users DROP COLUMN currency')
+        await client.query('DROP TABLE exchange_rates')
+        await client.query('DROP TABLE item_prices')
+    }
+}
+
+export default migration
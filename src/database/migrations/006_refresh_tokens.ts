@@ -0,0 +1,37 @@
+import { Migration } from '../migrator'
+
+/**
+ * Adds `refresh_tokens` for rotating refresh tokens.
+ *
+ * - `token_hash`: SHA-256 of the token, the token itself is only known to the client.
+ * - `family_id`: Shared by every token rotated from the same login, reusing a rotated token revokes the family.
+ * - `used_at`, `replaced_by`: Set when the token is rotated.
+ * - `revoked_at`: Set on logout, password change or detected reuse.
+ */
+const migration: Migration = {
+    version: 6,
+    name: 'refresh_tokens',
+
+    async up(client) {
+        await client.query(`
+            CREATE TABLE refresh_tokens (
+            id SERIAL PRIMARY KEY,
+            user_id INT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+            family_id UUID NOT NULL,
+            token_hash CHAR(64) NOT NULL UNIQUE,
+            expires_at TIMESTAMPTZ NOT NULL,
+            created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+            used_at TIMESTAMPTZ,
+            replaced_by INT REFERENCES refresh_tokens(id),
+            revoked_at TIMESTAMPTZ
+        )`)
+        await client.query('CREATE INDEX refresh_tokens_family_id_idx ON refresh_tokens (family_id)')
+        await client.query('CREATE INDEX refresh_tokens_user_id_idx ON refresh_tokens (user_id)')
+    },
+
+    async down(client) {
+        await client.query('DROP TABLE refresh_tokens')
+    }
+}
+
+export default migration
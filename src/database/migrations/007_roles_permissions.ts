@@ -0,0 +1,77 @@
+import { Migration } from '../migrator'
+
+/**
+ * Adds role-based access control and account management.
+ *
+ * - `roles`, `permissions`, `role_permissions`: The permissions granted by each role, `users.role` now references `roles`.
+ * - `users.disabled_at`, `users.disabled_reason`: Set while the account is disabled, disabled users cannot log in.
+ * - `users.password_reset_required`: Set when support forces a password reset, cleared by the next password change.
+ *
+ * The seeded roles are `user` without extra permissions, `support` for account management and `admin` with every permission.
+ */
+const migration: Migration = {
+    version: 7,
+    name: 'roles_permissions',
+
+    async up(client) {
+        await client.query(`
+            CREATE TABLE roles (
+            name VARCHAR(32) PRIMARY KEY,
+            description TEXT NOT NULL
+        )`)
+        await client.query(`
+            CREATE TABLE permissions (
+            name VARCHAR(64) PRIMARY KEY,
+            description TEXT NOT NULL
+        )`)
+        await client.query(`
+            CREATE TABLE role_permissions (
+            role VARCHAR(32) NOT NULL REFERENCES roles(name) ON DELETE CASCADE,
+            permission VARCHAR(64) NOT NULL REFERENCES permissions(name) ON DELETE CASCADE,
+            PRIMARY KEY (role, permission)
+        )`)
+
+        await client.query(`
+            INSERT INTO roles (name, description) VALUES
+            ('user', 'Customer'),
+            ('support', 'Support staff managing customer accounts'),
+            ('admin', 'Administrator')
+        `)
+        await client.query(`
+            INSERT INTO permissions (name, description) VALUES
+            ('users:read', 'View and search any account, its inventory and transactions'),
+            ('users:manage', 'Disable and enable accounts, force password resets'),
+            ('users:assign-role', 'Change the role of an account'),
+            ('balance:adjust', 'Correct balances, deposit, buy and refund on behalf of other users'),
+            ('catalog:write', 'Create, edit and delete catalog items')
+        `)
+        await client.query(`
+            INSERT INTO role_permissions (role, permission) VALUES
+            ('support', 'users:read'),
+            ('support', 'users:manage'),
+            ('admin', 'users:read'),
+            ('admin', 'users:manage'),
+            ('admin', 'users:assign-role'),
+            ('admin', 'balance:adjust'),
+            ('admin', 'catalog:write')
+        `)
+
+        await client.query("UPDATE users SET role = 'user' WHERE role NOT IN (SELECT name FROM roles)")
+        await client.query('ALTER TABLE users ADD CONSTRAINT users_role_fkey FOREIGN KEY (role) REFERENCES roles(name)')
+        await client.query('ALTER TABLE users ADD COLUMN disabled_at TIMESTAMPTZ')
+        await client.query('ALTER TABLE users ADD COLUMN disabled_reason TEXT')
+        await client.query('ALTER TABLE users ADD COLUMN password_reset_required BOOLEAN NOT NULL DEFAULT FALSE')
+    },
+
+    async down(client) {
+        await client.query('ALTER TABLE users DROP COLUMN password_reset_required')
+        await client.query('ALTER TABLE users DROP COLUMN disabled_reason')
+        await client.query('ALTER TABLE users DROP COLUMN disabled_at')
+        await client.query('ALTER TABLE users DROP CONSTRAINT users_role_fkey')
+        await client.query('DROP TABLE role_permissions')
+        await client.query('DROP TABLE permissions')
+        await client.query('DROP TABLE roles')
+    }
+}
+
+export default migration
@@ -0,0 +1,43 @@
+import { Migration } from '../migrator'
+
+/**
+ * Adds self-service registration, email verification and password reset.
+ *
+ * - `users.email`: Unique from now on, emails are stored lower-cased.
+ * - `users.email_verified_at`: Set once the user opened the verification link, unverified users cannot log in.
+ *   Existing users are considered verified.
+ * - `user_tokens`: Single-use tokens sent by email, stored as SHA-256 hashes. `purpose` is `email_verification` or `password_reset`.
+ *
+ * Fails if the table already contains the same email twice, the duplicates have to be resolved by hand first.
+ */
+const migration: Migration = {
+    version: 8,
+    name: 'self_service_accounts',
+
+    async up(client) {
+        await client.query('UPDATE users SET email = LOWER(email)')
+        await client.query('ALTER TABLE users ADD CONSTRAINT users_email_key UNIQUE (email)')
+        await client.query('ALTER TABLE users ADD COLUMN email_verified_at TIMESTAMPTZ')
+        await client.query('UPDATE users SET email_verified_at = NOW()')
+
+        await client.query(`
+            CREATE TABLE user_tokens (
+            id SERIAL PRIMARY KEY,
+            user_id INT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+            purpose VARCHAR(32) NOT NULL CHECK (purpose IN ('email_verification', 'password_reset')),
+            token_hash CHAR(64) NOT NULL UNIQUE,
+            expires_at TIMESTAMPTZ NOT NULL,
+            created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+            used_at TIMESTAMPTZ
+        )`)
+        await client.query('CREATE INDEX user_tokens_user_id_purpose_idx ON user_tokens (user_id, purpose)')
+    },
+
+    async down(client) {
+        await client.query('DROP TABLE user_tokens')
+        await client.query('ALTER TABLE users DROP COLUMN email_verified_at')
+        await client.query('ALTER TABLE users DROP CONSTRAINT users_email_key')
+    }
+}
+
+export default migration
@@ -0,0 +1,23 @@
+import { Migration } from '../migrator'
+
+/**
+ * Adds the `balance:deposit` permission, granted to `admin`.
+ *
+ * Deposits are not backed by a payment yet, so crediting funds is a staff action like a balance correction
+ * instead of something every user can do on their own account.
+ */
+const migration: Migration = {
+    version: 9,
+    name: 'deposit_permission',
+
+    async up(client) {
+        await client.query("INSERT INTO permissions (name, description) VALUES ('balance:deposit', 'Deposit funds to any account, e.g. after a confirmed payment')")
+        await client.query("INSERT INTO role_permissions (role, permission) VALUES ('admin', 'balance:deposit')")
+    },
+
+    async down(client) {
+        await client.query("DELETE FROM permissions WHERE name = 'balance:deposit'")
+    }
+}
+
+export default migration
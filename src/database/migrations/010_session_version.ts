@@ -0,0 +1,21 @@
+import { Migration } from '../migrator'
+
+/**
+ * Adds `users.session_version`, incremented whenever every session of the user ends.
+ * Access tokens carry the version they were issued with and are rejected once it is outdated,
+ * unlike the issue time in seconds this also rejects a token issued in the same second before the revocation.
+ */
+const migration: Migration = {
+    version: 10,
+    name: 'session_version',
+
+    async up(client) {
+        await client.query('ALTER TABLE users ADD COLUMN session_version INT NOT NULL DEFAULT 0')
+    },
+
+    async down(client) {
+        await client.query('ALTER TABLE users DROP COLUMN session_version')
+    }
+}
+
+export default migration
@@ -0,0 +1,13 @@
+import initialSchema from './001_initial_schema'
+import catalogSync from './002_catalog_sync'
+import priceHistory from './003_price_history'
+import catalogCuration from './004_catalog_curation'
+import multiCurrency from './005_multi_currency'
+import refreshTokens from './006_refresh_tokens'
+import rolesPermissions from './007_roles_permissions'
+import selfServiceAccounts from './008_self_service_accounts'
+import depositPermission from './009_deposit_permission'
+import sessionVersion from './010_session_version'
+
+// Every migration must be listed here, the migrator applies them in version order
+export default [initialSchema, catalogSync, priceHistory, catalogCuration, multiCurrency, refreshTokens, rolesPermissions, selfServiceAccounts, depositPermission, sessionVersion]
@@ -0,0 +1,151 @@
+import { pool } from '../config/db.config'
+import migrations from './migrations'
+
+/**
+ * A single schema change. `up` applies it and `down` reverts it, both run inside a transaction.
+ */
+export interface Migration {
+    version: number
+    name: string
+    up(client: any): Promise<void>
+    down(client: any): Promise<void>
+}
+
+// Arbitrary application-wide key, every process migrating the database takes the same lock
+const MIGRATION_LOCK_KEY = 72540173
+
+class Migrator {
+    constructor(
+        private database: any = pool,
+        private migrations: Migration[] = []
+    ) {
+        this.migrations = [...migrations].sort((a, b) => a.version - b.version)
+    }
+
+    /**
+     * Applies every migration that has not been applied yet, in version order.
+     *
+     * @returns {Promise<Migration[]>} A promise that resolves to the applied migrations.
+     * @throws Will throw an error if a migration fails. The failed migration is rolled back,
+     *         the migrations applied before it stay applied.
+     */
+    async up() {
+        return await this.withLock(async (client) => {
+            const applied = await this.getAppliedVersions(client)
+            const pending = this.migrations.filter((migration) => !applied.has(migration.version))
+
+            for (const migration of pending) {
+                await this.runInTransaction(client, async () => {
+                    await migration.up(client)
+                    await client.query('INSERT INTO schema_migrations (version, name) VALUES ($1, $2)', [migration.version, migration.name])
+                })
+            }
+
+            return pending
+        })
+    }
+
+    /**
+     * Reverts the most recently applied migrations.
+     *
+     * @param {number} [steps=1] - The number of migrations to revert.
+     * @returns {Promise<Migration[]>} A promise that resolves to the reverted migrations.
+     * @throws Will throw an error if an applied migration is unknown to this build or if reverting fails.
+     */
+    async down(steps: number = 1) {
+        return await this.withLock(async (client) => {
+            const applied = [...(await this.getAppliedVersions(client)).keys()].sort((a, b) => b - a).slice(0, steps)
+            const reverted: Migration[] = []
+
+            for (const version of applied) {
+                const migration = this.migrations.find((candidate) => candidate.version === version)
+                if (!migration) {
+                    throw new Error(`Migration ${version} is applied but missing from this build`)
+                }
+                await this.runInTransaction(client, async () => {
+                    await migration.down(client)
+                    await client.query('DELETE FROM schema_migrations WHERE version = $1', [version])
+                })
+                reverted.push(migration)
+            }
+
+            return reverted
+        })
+    }
+
+    /**
+     * Lists every known migration together with the time it was applied.
+     *
+     * @returns {Promise<Array<{ version: number; name: string; appliedAt: Date | null }>>} A promise that resolves to the migration status,
+     *          including applied migrations that are missing from this build.
+     */
+    async status() {
+        return await this.withLock(async (client) => {
+            const applied = await this.getAppliedVersions(client)
+            const known = this.migrations.map((migration) => ({
+                version: migration.version,
+                name: migration.name,
+                appliedAt: applied.get(migration.version)?.applied_at || null
+            }))
+            const unknown = [...applied.values()]
+                .filter((row) => !this.migrations.some((migration) => migration.version === row.version))
+                .map((row) => ({ version: row.version, name: `${row.name} (missing from this build)`, appliedAt: row.applied_at }))
+
+            return [...known, ...unknown].sort((a, b) => a.version - b.version)
+        })
+    }
+
+    /**
+     * Runs a function on a dedicated connection holding the migration advisory lock,
+     * so concurrent processes never migrate the same database at once.
+     *
+     * @param fn - The function to run with the locked client.
+     * @returns A promise that resolves to the value returned by `fn`.
+     */
+    private async withLock<T>(fn: (client: any) => Promise<T>): Promise<T> {
+        const client = await this.database.connect()
+        try {
+            await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY])
+            await client.query(`
+                CREATE TABLE IF NOT EXISTS schema_migrations (
+                version INT PRIMARY KEY,
+                name VARCHAR(255) NOT NULL,
+                applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+            )`)
+            return await fn(client)
+        } finally {
+            await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]).catch(() => undefined)
+            client.release()
+        }
+    }
+
+    /**
+     * Retrieves the applied migrations keyed by version.
+     *
+     * @param client - The locked client.
+     * @returns A promise that resolves to a map of version to `schema_migrations` row.
+     */
+    private async getAppliedVersions(client: any) {
+        const response = await client.query('SELECT version, name, applied_at FROM schema_migrations ORDER BY version')
+        return new Map<number, { version: number; name: string; applied_at: Date }>(response.rows.map((row: any) => [row.version, row]))
+    }
+
+    /**
+     * Runs a function inside a transaction on the given client.
+     *
+     * @param client - The locked client.
+     * @param fn - The function to run.
+     */
+    private async runInTransaction(client: any, fn: () => Promise<void>) {
+        await client.query('BEGIN')
+        try {
+            await fn()
+            await client.query('COMMIT')
+        } catch (err) {
+            await client.query('ROLLBACK')
+            throw err
+        }
+    }
+}
+
+export default new Migrator(pool, migrations)
@@ -0,0 +1,19 @@
+import { UsersRepository, LedgerRepository } from '../../repository'
+
+/**
+ * Inserts the development data: the default users and their opening balances in the ledger.
+ * Safe to run repeatedly, nothing is inserted once users exist.
+ *
+ * @returns {Promise<boolean>} A promise that resolves to `true` if the data was inserted.
+ */
+const seed = async () => {
+    const users = await UsersRepository.getUsers()
+    if (users.rows.length) {
+        return false
+    }
+    await UsersRepository.insertDefaultRows()
+    await LedgerRepository.insertOpeningBalances()
+    return true
+}
+
+export default seed
@@ -0,0 +1,106 @@
+/**
+ * Base class of the errors the API reports to clients. The message is always safe to send,
+ * `code` is a stable machine-readable identifier and `statusCode` the HTTP status of the response.
+ */
+export class AppError extends Error {
+    constructor(
+        message: string,
+        readonly statusCode: number,
+        readonly code: string,
+        options?: { cause?: unknown }
+    ) {
+        super(message, options)
+        this.name = new.target.name
+    }
+}
+
+/**
+ * The request is malformed or breaks a business rule, e.g. a password that is too short.
+ */
+export class ValidationError extends AppError {
+    constructor(message: string, code = 'VALIDATION_ERROR') {
+        super(message, 400, code)
+    }
+}
+
+/**
+ * The balance is too low for a purchase or a debit.
+ */
+export class InsufficientFundsError extends AppError {
+    constructor(message = 'Insufficient balance') {
+        super(message, 400, 'INSUFFICIENT_FUNDS')
+    }
+}
+
+/**
+ * The request has no valid credentials.
+ */
+export class UnauthorizedError extends AppError {
+    constructor(message = 'Unauthorized', code = 'UNAUTHORIZED') {
+        super(message, 401, code)
+    }
+}
+
+/**
+ * The caller is authenticated but may not perform the request.
+ */
+export class ForbiddenError extends AppError {
+    constructor(message = 'Access denied', code = 'FORBIDDEN') {
+        super(message, 403, code)
+    }
+}
+
+/**
+ * The requested resource does not exist, or is hidden from the caller, e.g. a deleted skin.
+ */
+export class NotFoundError extends AppError {
+    constructor(message = 'Not found', code = 'NOT_FOUND') {
+        super(message, 404, code)
+    }
+}
+
+/**
+ * The request conflicts with the current state of the resource, e.g. an email that is already registered.
+ */
+export class ConflictError extends AppError {
+    constructor(message: string, code = 'CONFLICT') {
+        super(message, 409, code)
+    }
+}
+
+/**
+ * The caller sent too many requests. `retryAfter` is the number of seconds to wait, sent as `Retry-After`.
+ */
+export class TooManyRequestsError extends AppError {
+    constructor(
+        message: string,
+        readonly retryAfter: number,
+        code = 'TOO_MANY_REQUESTS'
+    ) {
+        super(message, 429, code)
+    }
+}
+
+/**
+ * A dependency of the request, e.g. Redis or an exchange rate, cannot be used right now.
+ * `retryAfter` is sent as `Retry-After` when it is known.
+ */
+export class ServiceUnavailableError extends AppError {
+    constructor(
+        message: string,
+        readonly retryAfter?: number,
+        code = 'SERVICE_UNAVAILABLE'
+    ) {
+        super(message, 503, code)
+    }
+}
+
+/**
+ * The upstream market failed or sent an invalid response, the API counterpart of a provider's `MarketUpstreamError`.
+ * The cause is logged but never sent to the client.
+ */
+export class UpstreamError extends AppError {
+    constructor(message: string, cause?: unknown) {
+        super(message, 502, 'UPSTREAM_ERROR', { cause })
+    }
+}
@@ -0,0 +1,92 @@
+import { FastifyError, FastifyReply, FastifyRequest } from 'fastify'
+import config from '../config/config'
+import { AppError } from './domain.errors'
+
+export interface ErrorBody {
+    statusCode: number
+    code: string
+    msg: string
+    requestId: string
+    retryAfter?: number
+    details?: unknown
+}
+
+/**
+ * Builds the envelope of a failed response.
+ *
+ * @remarks
+ * - Domain errors keep their status code, code and message.
+ * - Schema validation failures respond with 400 and `VALIDATION_ERROR`, `details` lists the invalid fields.
+ * - Other client errors raised by Fastify, e.g. malformed JSON, keep their status code and Fastify error code.
+ * - Anything else is an internal error: the client only gets `INTERNAL_ERROR`,
+ *   with `NODE_ENV` set to `development` or `test`, `details` also carries the error message.
+ */
+const toErrorBody = (error: FastifyError | Error, req: FastifyRequest): ErrorBody => {
+    const requestId = String(req.id)
+    if (error instanceof AppError) {
+        return {
+            statusCode: error.statusCode,
+            code: error.code,
+            msg: error.message,
+            requestId,
+            retryAfter: (error as AppError & { retryAfter?: number }).retryAfter
+        }
+    }
+    const fastifyError = error as FastifyError
+    if (fastifyError.validation) {
+        return {
+            statusCode: 400,
+            code: 'VALIDATION_ERROR',
+            msg: fastifyError.message,
+            requestId,
+            details: fastifyError.validation.map((issue) => ({
+                field: `${fastifyError.validationContext}${issue.instancePath}`,
+                message: issue.message
+            }))
+        }
+    }
+    if (fastifyError.statusCode && fastifyError.statusCode >= 400 && fastifyError.statusCode < 500) {
+        return {
+            statusCode: fastifyError.statusCode,
+            code: fastifyError.code || 'BAD_REQUEST',
+            msg: fastifyError.message,
+            requestId
+        }
+    }
+    return {
+        statusCode: 500,
+        code: 'INTERNAL_ERROR',
+        msg: 'Internal Server Error',
+        requestId,
+        details: config.exposeErrorDetails ? error.message : undefined
+    }
+}
+
+/**
+ * The error handler of the application. Every failed request, whether a handler or a hook threw a domain error,
+ * the schema validation failed or something unexpected broke, responds with the same envelope:
+ * `statusCode`, `code`, `msg` and the `requestId` of the request, which is also sent in the `X-Request-Id` header.
+ * Server errors are logged with their cause.
+ */
+export const errorHandler = (error: FastifyError | Error, req: FastifyRequest, res: FastifyReply) => {
+    const body = toErrorBody(error, req)
+    if (body.statusCode >= 500) {
+        req.log.error({ err: error }, body.msg)
+    }
+    if (body.retryAfter !== undefined) {
+        res.header('Retry-After', body.retryAfter)
+    }
+    res.status(body.statusCode).send(body)
+}
+
+/**
+ * Responds to unknown routes with the error envelope.
+ */
+export const notFoundHandler = (req: FastifyRequest, res: FastifyReply) => {
+    res.status(404).send({
+        statusCode: 404,
+        code: 'ROUTE_NOT_FOUND',
+        msg: `Route ${req.method} ${req.url} not found`,
+        requestId: String(req.id)
+    })
+}
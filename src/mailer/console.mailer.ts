@@ -0,0 +1,18 @@
+import { Mailer, MailMessage } from './mailer'
+
+class ConsoleMailer implements Mailer {
+    readonly name = 'console'
+
+    constructor(private from: string) {}
+
+    /**
+     * Prints the message to the console instead of delivering it, for local development.
+     *
+     * @param message - The message to print.
+     */
+    async send(message: MailMessage) {
+        console.info(`Mail from ${this.from} to ${message.to}: ${message.subject}\n${message.text}`)
+    }
+}
+
+export default ConsoleMailer
@@ -0,0 +1,29 @@
+import { mkdir, writeFile } from 'fs/promises'
+import { randomUUID } from 'crypto'
+import path from 'path'
+import { Mailer, MailMessage } from './mailer'
+
+class FileMailer implements Mailer {
+    readonly name = 'file'
+
+    constructor(
+        private from: string,
+        private directory: string
+    ) {}
+
+    /**
+     * Writes the message to a JSON file in the outbox directory instead of delivering it,
+     * so tests and offline setups can read the links sent to users.
+     *
+     * @param message - The message to store.
+     * @throws Will throw an error if the file cannot be written.
+     */
+    async send(message: MailMessage) {
+        await mkdir(this.directory, { recursive: true })
+        const sentAt = new Date()
+        const fileName = `${sentAt.getTime()}-${randomUUID()}.json`
+        await writeFile(path.join(this.directory, fileName), JSON.stringify({ from: this.from, ...message, sentAt }, null, 4))
+    }
+}
+
+export default FileMailer
@@ -0,0 +1,27 @@
+import config from '../config/config'
+import { Mailer } from './mailer'
+import ConsoleMailer from './console.mailer'
+import FileMailer from './file.mailer'
+
+/**
+ * Creates the mail transport with the given name.
+ *
+ * @param name - `console` or `file`, defaults to the `MAIL_TRANSPORT` setting.
+ * @returns The mailer.
+ * @throws Will throw an error if the name is unknown.
+ */
+const createMailer = (name: string = config.mail.transport): Mailer => {
+    switch (name) {
+        case 'console':
+            return new ConsoleMailer(config.mail.from)
+        case 'file':
+            return new FileMailer(config.mail.from, config.mail.outboxDir)
+        default:
+            throw new Error(`Unknown mail transport: ${name}`)
+    }
+}
+
+const mailer = createMailer()
+
+export { mailer, createMailer, ConsoleMailer, FileMailer }
+export type { Mailer, MailMessage } from './mailer'
@@ -0,0 +1,17 @@
+export interface MailMessage {
+    to: string
+    subject: string
+    text: string
+}
+
+/**
+ * A transport for outgoing mail.
+ */
+export interface Mailer {
+    readonly name: string
+    /**
+     * @param message - The message to deliver.
+     * @returns A promise that resolves once the transport accepted the message.
+     */
+    send(message: MailMessage): Promise<void>
+}
@@ -1,50 +1,85 @@
-import { FastifyRequest, FastifyReply } from 'fastify';
+import { FastifyRequest } from 'fastify';
 import { verify } from 'jsonwebtoken';
+import { AccessTokenPayload, AuthenticatedUser } from '../service/auth.service';
+import config from '../config/config';
+import { UnauthorizedError, ForbiddenError, ServiceUnavailableError } from '../errors';
 
-interface JwtPayload {
-    user: {
-        id: number;
-    };
+declare module 'fastify' {
+    interface FastifyRequest {
+        /**
+         * The caller authenticated by `authJwt`, `null` on routes without authentication.
+         */
+        user: AuthenticatedUser | null;
+    }
+
+    interface FastifyContextConfig {
+        /**
+         * Lets users whose password reset was forced by support through `authJwt`, so they can change the password.
+         */
+        allowPasswordResetRequired?: boolean;
+    }
 }
 
 /**
  * Middleware function to authenticate JWT tokens in incoming requests.
  * 
  * @param req - The Fastify request object.
- * @param res - The Fastify reply object.
  * 
- * @returns A response with status 403 if no token is provided, or status 401 if the token is invalid.
+ * @throws ForbiddenError if no token is provided or a password reset is required, UnauthorizedError if the token is invalid
+ * or revoked, or ServiceUnavailableError if the revocation state cannot be checked.
  * 
  * @remarks
  * This middleware checks for the presence of a JWT token in the `Authorization` header of the request.
  * If a token is found, it attempts to verify it using a secret key. If the token is missing or invalid,
- * an appropriate error response is sent back to the client.
+ * the request is rejected with the matching domain error.
+ * Valid tokens are also checked against the denylist in the shared store, so tokens of ended sessions are rejected
+ * before they expire. If the store is unavailable the request is refused rather than let through.
+ * On success the caller, their role and permissions from the token are attached to `req.user`.
+ * Users with a forced password reset only pass on routes with `config: { allowPasswordResetRequired: true }`.
  * 
  * @example
  * ```typescript
  * fastify.addHook('preHandler', authJwt);
  * ```
  */
-const authJwt = async (req: FastifyRequest, res: FastifyReply) => {
+const authJwt = async (req: FastifyRequest) => {
     const token = req.headers['authorization']?.split(' ')[1];
 
     if (!token) {
-        return res.status(403).send({
-            statusCode: 403,
-            msg: 'Access denied! No token provided.',
-        });
+        throw new ForbiddenError('Access denied! No token provided.', 'TOKEN_MISSING');
     }
 
-    const jwtSecret = process.env.JWT_SECRET || 'secret';
+    let decoded: AccessTokenPayload;
+    try {
+        decoded = verify(token, config.auth.jwtSecret) as AccessTokenPayload;
+    } catch (err) {
+        throw new UnauthorizedError('Unauthorized! Invalid token.', 'INVALID_TOKEN');
+    }
 
+    let revoked: boolean;
     try {
-        const decoded = verify(token, jwtSecret) as JwtPayload;
+        revoked = await req.server.services.auth.isAccessTokenRevoked(decoded);
     } catch (err) {
-        return res.status(401).send({
-            statusCode: 401,
-            msg: 'Unauthorized! Invalid token.',
-        });
+        req.log.error(err, 'Failed to check access token revocation');
+        throw new ServiceUnavailableError('Authentication is temporarily unavailable', undefined, 'AUTH_UNAVAILABLE');
+    }
+    if (revoked) {
+        throw new UnauthorizedError('Unauthorized! Token has been revoked.', 'TOKEN_REVOKED');
+    }
+
+    // Tokens issued before roles were embedded carry only the user ID
+    const { id, role = 'user', permissions = [], passwordResetRequired = false } = decoded.user;
+    if (passwordResetRequired && !req.routeOptions.config.allowPasswordResetRequired) {
+        throw new ForbiddenError('Access denied! Password reset required.', 'PASSWORD_RESET_REQUIRED');
     }
+
+    req.user = {
+        id,
+        role,
+        permissions,
+        passwordResetRequired,
+        token: decoded,
+    };
 };
 
 export default authJwt;
\ No newline at end of file
@@ -0,0 +1,151 @@
+import { FastifyRequest, FastifyReply } from 'fastify'
+import { createHash } from 'crypto'
+import config from '../config/config'
+import { ConflictError, ValidationError, ServiceUnavailableError } from '../errors'
+
+interface StoredResponse {
+    state: 'pending' | 'completed'
+    fingerprint: string
+    statusCode?: number
+    contentType?: string
+    body?: string
+}
+
+interface Reservation {
+    key: string
+    fingerprint: string
+    release: () => Promise<void>
+}
+
+const inFlight = new WeakMap<FastifyRequest, Reservation>()
+
+/**
+ * Keeps the reservation of `key` from expiring while the request is running,
+ * otherwise a retry sent after `lockTtl` would be processed a second time.
+ */
+const reserve = (req: FastifyRequest, res: FastifyReply, key: string, fingerprint: string) => {
+    let renewing = Promise.resolve()
+    const renewal = setInterval(() => {
+        renewing = req.server.store.expire(key, config.idempotency.lockTtl).catch((err) => {
+            req.log.error(err, 'Failed to extend the Idempotency-Key reservation')
+        })
+    }, (config.idempotency.lockTtl * 1000) / 2)
+    renewal.unref()
+
+    // Resolves once the last renewal settled, it would otherwise shorten the TTL of the stored response
+    const release = () => {
+        clearInterval(renewal)
+        return renewing
+    }
+    // The timer must not outlive the request, e.g. when the connection is closed before the response is sent
+    res.raw.once('close', release)
+    inFlight.set(req, { key, fingerprint, release })
+}
+
+/**
+ * Middleware function that makes a route idempotent for requests carrying an `Idempotency-Key` header.
+ *
+ * @param req - The Fastify request object.
+ * @param res - The Fastify reply object.
+ *
+ * @returns The stored response if the key was already used with the same payload.
+ * @throws ConflictError if the key was used with a different payload or the first request is still running,
+ * ValidationError if the key is malformed, or ServiceUnavailableError if the idempotency store is unavailable.
+ *
+ * @remarks
+ * The key is reserved in the shared store before the handler runs and the final response is stored by `storeIdempotentResponse`,
+ * which must be registered as an `onSend` hook in the same scope. The reservation is extended every `config.idempotency.lockTtl / 2` seconds
+ * while the request is running and expires `config.idempotency.lockTtl` seconds after that stops,
+ * so a key whose request never completed, e.g. because the process crashed, can be retried. Stored responses expire after `config.idempotency.ttl` seconds.
+ * Use it after `authJwt`, keys are unique per authenticated user.
+ * Requests without the header are processed as usual.
+ *
+ * @example
+ * ```typescript
+ * app.addHook('onSend', storeIdempotentResponse)
+ * app.post('/buy', { preHandler: [authJwt, idempotency] }, handler)
+ * ```
+ */
+const idempotency = async (req: FastifyRequest, res: FastifyReply) => {
+    const header = req.headers['idempotency-key']
+    if (header === undefined) {
+        return
+    }
+
+    const idempotencyKey = Array.isArray(header) ? header[0] : header
+    if (!idempotencyKey || idempotencyKey.length > 255) {
+        throw new ValidationError('Invalid Idempotency-Key header', 'INVALID_IDEMPOTENCY_KEY')
+    }
+
+    // Keys are scoped to the caller, otherwise two users sending the same body would share a stored response
+    const key = `idempotency:${req.user?.id ?? 'anonymous'}:${req.method}:${req.routeOptions.url}:${idempotencyKey}`
+    const fingerprint = createHash('sha256')
+        .update(JSON.stringify({ method: req.method, url: req.url, body: req.body ?? null }))
+        .digest('hex')
+
+    let stored: StoredResponse | null
+    try {
+        const reserved = await req.server.store.setIfAbsent(key, JSON.stringify({ state: 'pending', fingerprint }), config.idempotency.lockTtl)
+        if (reserved) {
+            reserve(req, res, key, fingerprint)
+            return
+        }
+        const raw = await req.server.store.get(key)
+        stored = raw ? JSON.parse(raw) : null
+    } catch (err) {
+        req.log.error(err, 'Idempotency store error')
+        throw new ServiceUnavailableError('Service unavailable, please retry later')
+    }
+
+    if (!stored || stored.state === 'pending') {
+        throw new ConflictError('A request with this Idempotency-Key is still being processed', 'IDEMPOTENCY_KEY_IN_USE')
+    }
+
+    if (stored.fingerprint !== fingerprint) {
+        throw new ConflictError('Idempotency-Key has already been used with a different payload', 'IDEMPOTENCY_KEY_REUSED')
+    }
+
+    res.header('Idempotent-Replayed', 'true')
+    if (stored.contentType) {
+        res.type(stored.contentType)
+    }
+    return res.status(stored.statusCode || 200).send(stored.body)
+}
+
+/**
+ * `onSend` hook that stores the response of a request reserved by `idempotency`.
+ * Server errors release the key instead, so the client can retry the operation.
+ *
+ * @param req - The Fastify request object.
+ * @param res - The Fastify reply object.
+ * @param payload - The serialized response payload.
+ * @returns The unchanged payload.
+ */
+const storeIdempotentResponse = async (req: FastifyRequest, res: FastifyReply, payload: unknown) => {
+    const entry = inFlight.get(req)
+    if (!entry) {
+        return payload
+    }
+    inFlight.delete(req)
+
+    try {
+        await entry.release()
+        if (res.statusCode >= 500 || typeof payload !== 'string') {
+            await req.server.store.del(entry.key)
+            return payload
+        }
+        const stored: StoredResponse = {
+            state: 'completed',
+            fingerprint: entry.fingerprint,
+            statusCode: res.statusCode,
+            contentType: res.getHeader('content-type') as string | undefined,
+            body: payload
+        }
+        await req.server.store.set(entry.key, JSON.stringify(stored), config.idempotency.ttl)
+    } catch (err) {
+        req.log.error(err, 'Failed to store idempotent response')
+    }
+    return payload
+}
+
+export { idempotency, storeIdempotentResponse }
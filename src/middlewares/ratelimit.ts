@@ -0,0 +1,66 @@
+import { FastifyRequest, FastifyReply } from 'fastify'
+import config from '../config/config'
+import { TooManyRequestsError } from '../errors'
+
+export interface RateLimitOptions {
+    // Distinguishes the counters of different limits, e.g. `login`
+    name: string
+    // Requests allowed per window
+    max: number
+    // Window length in seconds
+    window: number
+    // Count per client IP, or per authenticated user falling back to the IP on anonymous requests
+    by?: 'ip' | 'user'
+}
+
+/**
+ * Creates a middleware function that limits how often a client may call a route, with counters in the shared store
+ * so the limit holds across every instance of the server.
+ *
+ * @param options - The name, the number of requests per window, the window length and what to count by.
+ * @returns The middleware, throwing a `TooManyRequestsError` once the limit is reached, sent with a `Retry-After` header.
+ *
+ * @remarks
+ * Every response carries `RateLimit-Limit`, `RateLimit-Remaining` and `RateLimit-Reset` (seconds until the window ends).
+ * Windows are fixed, counting starts anew at every multiple of the window length.
+ * If the store is unavailable requests are let through, losing the limit is preferable to losing the service.
+ * Disabled with `RATE_LIMIT_ENABLED=false`.
+ *
+ * @example
+ * ```typescript
+ * app.post('/login', { preHandler: rateLimit({ name: 'login', max: 10, window: 60 }) }, handler)
+ * ```
+ */
+const rateLimit = (options: RateLimitOptions) => {
+    const { name, max, window, by = 'ip' } = options
+
+    return async (req: FastifyRequest, res: FastifyReply) => {
+        if (!config.rateLimit.enabled) {
+            return
+        }
+
+        const client = by === 'user' && req.user ? `user:${req.user.id}` : `ip:${req.ip}`
+        const now = Math.floor(Date.now() / 1000)
+        const windowStart = now - (now % window)
+        const reset = windowStart + window - now
+        const key = `ratelimit:${name}:${client}:${windowStart}`
+
+        let count: number
+        try {
+            count = await req.server.store.increment(key, window)
+        } catch (err) {
+            req.log.error(err, 'Rate limit store error')
+            return
+        }
+
+        res.header('RateLimit-Limit', max)
+        res.header('RateLimit-Remaining', Math.max(0, max - count))
+        res.header('RateLimit-Reset', reset)
+
+        if (count > max) {
+            throw new TooManyRequestsError('Too many requests, please retry later', reset)
+        }
+    }
+}
+
+export default rateLimit
@@ -0,0 +1,40 @@
+import { FastifyRequest } from 'fastify'
+import { AuthenticatedUser } from '../service/auth.service'
+import { ForbiddenError } from '../errors'
+
+/**
+ * Checks whether the authenticated user has a permission.
+ *
+ * @param user - The authenticated user, see `req.user`.
+ * @param permission - The permission name, e.g. `users:read`.
+ * @returns `true` if the user's role grants the permission.
+ */
+export const hasPermission = (user: AuthenticatedUser | null, permission: string) => {
+    return !!user && user.permissions.includes(permission)
+}
+
+/**
+ * Creates a middleware function that only lets users whose role grants every given permission through.
+ *
+ * @param permissions - The required permission names.
+ * @returns The middleware, throwing a `ForbiddenError` if a permission is missing.
+ *
+ * @remarks
+ * Must be used after `authJwt`. Permissions are read from the access token, changing a role ends the user's sessions
+ * so the new permissions apply from the next login.
+ *
+ * @example
+ * ```typescript
+ * app.get('/users', { preHandler: [authJwt, requirePermission('users:read')] }, handler)
+ * ```
+ */
+const requirePermission = (...permissions: string[]) => {
+    return async (req: FastifyRequest) => {
+        const missing = permissions.filter((permission) => !hasPermission(req.user, permission))
+        if (missing.length) {
+            throw new ForbiddenError(`Access denied! Missing permission: ${missing.join(', ')}.`, 'MISSING_PERMISSION')
+        }
+    }
+}
+
+export default requirePermission
@@ -0,0 +1,42 @@
+import { FastifyRequest } from 'fastify'
+import { AuthenticatedUser } from '../service/auth.service'
+import { hasPermission } from './requirepermission'
+import { IdParams } from '../schemas'
+import { ForbiddenError } from '../errors'
+
+/**
+ * Checks whether the authenticated user may act on the account of another user.
+ *
+ * @param user - The authenticated user, see `req.user`.
+ * @param userId - The ID of the account being accessed.
+ * @param permission - The permission that grants access to other users' accounts.
+ * @returns `true` if the account is the user's own or the user has the permission.
+ */
+export const canAccessUser = (user: AuthenticatedUser | null, userId: number, permission: string) => {
+    return !!user && (user.id === userId || hasPermission(user, permission))
+}
+
+/**
+ * Creates a middleware function that only lets a user access routes of their own account, identified by the `:id` parameter.
+ * Users with the given permission may access any account.
+ *
+ * @param permission - The permission that grants access to other users' accounts.
+ * @returns The middleware, throwing a `ForbiddenError` if the account belongs to another user.
+ *
+ * @remarks
+ * Must be used after `authJwt` on a route whose schema validates the `:id` parameter.
+ *
+ * @example
+ * ```typescript
+ * app.get('/:id/inventory', { schema: getInventorySchema, preHandler: [authJwt, requireSelfOr('users:read')] }, handler)
+ * ```
+ */
+const requireSelfOr = (permission: string) => {
+    return async (req: FastifyRequest<{ Params: IdParams }>) => {
+        if (!canAccessUser(req.user, req.params.id, permission)) {
+            throw new ForbiddenError('Access denied! You can only access your own account.')
+        }
+    }
+}
+
+export default requireSelfOr
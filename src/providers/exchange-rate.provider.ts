@@ -0,0 +1,13 @@
+/**
+ * A source of currency exchange rates.
+ */
+export interface ExchangeRateProvider {
+    readonly name: string
+    /**
+     * @param base - The currency the rates convert from.
+     * @param quotes - The currencies the rates convert to.
+     * @returns A promise that resolves to the amount of each quote currency one unit of `base` buys.
+     *          Currencies the provider does not know are left out.
+     */
+    fetchRates(base: string, quotes: string[]): Promise<Record<string, number>>
+}
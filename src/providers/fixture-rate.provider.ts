@@ -0,0 +1,30 @@
+import { readFile } from 'fs/promises'
+import { ExchangeRateProvider } from './exchange-rate.provider'
+
+class FixtureRateProvider implements ExchangeRateProvider {
+    readonly name = 'fixture'
+
+    constructor(private filePath: string) {}
+
+    /**
+     * Reads the rates from a JSON file shaped as `{ "<base>": { "<quote>": rate } }`, so development and tests work offline.
+     *
+     * @param base - The currency the rates convert from.
+     * @param quotes - The currencies the rates convert to.
+     * @returns A promise that resolves to the rates of the requested quotes found in the file.
+     * @throws Will throw an error if the file cannot be read or parsed.
+     */
+    async fetchRates(base: string, quotes: string[]) {
+        const fixture = JSON.parse(await readFile(this.filePath, 'utf8')) as Record<string, Record<string, number>>
+        const rates: Record<string, number> = {}
+        quotes.forEach((quote) => {
+            const rate = fixture[base]?.[quote]
+            if (rate) {
+                rates[quote] = rate
+            }
+        })
+        return rates
+    }
+}
+
+export default FixtureRateProvider
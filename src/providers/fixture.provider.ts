@@ -0,0 +1,23 @@
+import { readFile } from 'fs/promises'
+import { MarketDataProvider, MarketItem, MarketQuery } from './market-data.provider'
+
+class FixtureProvider implements MarketDataProvider {
+    readonly name = 'fixture'
+
+    constructor(private filePath: string) {}
+
+    /**
+     * Reads the items for the requested app ID and currency from a JSON file shaped as
+     * `{ "<appId>": { "<currency>": MarketItem[] } }`, so development and tests work offline.
+     *
+     * @param query - The app ID and the currency.
+     * @returns A promise that resolves to the items, or to an empty array if the file has none for the query.
+     * @throws Will throw an error if the file cannot be read or parsed.
+     */
+    async fetchItems(query: MarketQuery) {
+        const fixture = JSON.parse(await readFile(this.filePath, 'utf8')) as Record<string, Record<string, MarketItem[]>>
+        return fixture[String(query.appId)]?.[query.currency] ?? []
+    }
+}
+
+export default FixtureProvider
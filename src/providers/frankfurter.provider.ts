@@ -0,0 +1,25 @@
+import axios from 'axios'
+import { ExchangeRateProvider } from './exchange-rate.provider'
+
+class FrankfurterProvider implements ExchangeRateProvider {
+    readonly name = 'frankfurter'
+
+    constructor(private url: string) {}
+
+    /**
+     * Fetches the latest reference rates published by the European Central Bank through the Frankfurter API.
+     *
+     * @param base - The currency the rates convert from.
+     * @param quotes - The currencies the rates convert to.
+     * @returns A promise that resolves to the rates keyed by quote currency.
+     * @throws Will throw an error if the request fails.
+     */
+    async fetchRates(base: string, quotes: string[]) {
+        const response = await axios.get<{ rates: Record<string, number> }>(this.url, {
+            params: { from: base, to: quotes.join(',') }
+        })
+        return response.data.rates
+    }
+}
+
+export default FrankfurterProvider
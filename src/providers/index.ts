@@ -0,0 +1,48 @@
+import config from '../config/config'
+import { MarketDataProvider } from './market-data.provider'
+import { ExchangeRateProvider } from './exchange-rate.provider'
+import SkinportProvider from './skinport.provider'
+import FixtureProvider from './fixture.provider'
+import FrankfurterProvider from './frankfurter.provider'
+import FixtureRateProvider from './fixture-rate.provider'
+
+/**
+ * Creates the market data provider with the given name.
+ *
+ * @param name - `skinport` or `fixture`, defaults to the `MARKET_PROVIDER` setting.
+ * @returns The provider.
+ * @throws Will throw an error if the name is unknown.
+ */
+const createMarketDataProvider = (name: string = config.market.provider): MarketDataProvider => {
+    switch (name) {
+        case 'skinport':
+            return new SkinportProvider(config.market.skinportUrl)
+        case 'fixture':
+            return new FixtureProvider(config.market.fixturePath)
+        default:
+            throw new Error(`Unknown market data provider: ${name}`)
+    }
+}
+
+/**
+ * Creates the exchange rate provider with the given name.
+ *
+ * @param name - `frankfurter` or `fixture`, defaults to the `EXCHANGE_RATE_PROVIDER` setting.
+ * @returns The provider.
+ * @throws Will throw an error if the name is unknown.
+ */
+const createExchangeRateProvider = (name: string = config.exchangeRates.provider): ExchangeRateProvider => {
+    switch (name) {
+        case 'frankfurter':
+            return new FrankfurterProvider(config.exchangeRates.frankfurterUrl)
+        case 'fixture':
+            return new FixtureRateProvider(config.exchangeRates.fixturePath)
+        default:
+            throw new Error(`Unknown exchange rate provider: ${name}`)
+    }
+}
+
+export { createMarketDataProvider, createExchangeRateProvider, SkinportProvider, FixtureProvider, FrankfurterProvider, FixtureRateProvider }
+export { MarketUpstreamError } from './market-data.provider'
+export type { MarketDataProvider, MarketItem, MarketQuery } from './market-data.provider'
+export type { ExchangeRateProvider } from './exchange-rate.provider'
@@ -0,0 +1,40 @@
+/**
+ * The minimum prices of one item on a market.
+ * A price is `null` when the item is not offered in that variant.
+ */
+export interface MarketItem {
+    market_hash_name: string
+    min_price_tradable: number | null
+    min_price_non_tradable: number | null
+}
+
+/**
+ * The catalog to fetch: the game (Steam app ID) and the currency of the prices.
+ */
+export interface MarketQuery {
+    appId: number
+    currency: string
+}
+
+/**
+ * A source of market prices. Implementations must return each `market_hash_name` at most once.
+ */
+export interface MarketDataProvider {
+    readonly name: string
+    fetchItems(query: MarketQuery): Promise<MarketItem[]>
+}
+
+/**
+ * A failed request to a market. `status` is the HTTP status, absent for network errors,
+ * and `retryAfter` the number of milliseconds the market asked to wait before the next request.
+ */
+export class MarketUpstreamError extends Error {
+    constructor(
+        message: string,
+        readonly status?: number,
+        readonly retryAfter?: number
+    ) {
+        super(message)
+        this.name = 'MarketUpstreamError'
+    }
+}
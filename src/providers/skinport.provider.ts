@@ -0,0 +1,92 @@
+import axios from 'axios'
+import { MarketDataProvider, MarketItem, MarketQuery, MarketUpstreamError } from './market-data.provider'
+
+/**
+ * Parses a `Retry-After` header, given either in seconds or as an HTTP date.
+ *
+ * @returns The number of milliseconds to wait, or `undefined` if the header is absent or malformed.
+ */
+const parseRetryAfter = (header?: string) => {
+    if (!header) {
+        return undefined
+    }
+    const seconds = Number(header)
+    if (Number.isFinite(seconds)) {
+        return Math.max(0, seconds * 1000)
+    }
+    const date = Date.parse(header)
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+interface SkinportItem {
+    market_hash_name: string
+    min_price: number | null
+}
+
+class SkinportProvider implements MarketDataProvider {
+    readonly name = 'skinport'
+
+    constructor(private url: string) {}
+
+    /**
+     * Fetches the tradable and the non-tradable Skinport catalogs and joins them by `market_hash_name`.
+     *
+     * @param query - The app ID and the currency.
+     * @returns A promise that resolves to the joined items. An item missing from one of the catalogs has a `null` price for that variant.
+     * @throws {MarketUpstreamError} If one of the requests fails, with the `Retry-After` of a 429 response,
+     * or if Skinport responds with something other than a list of items.
+     */
+    async fetchItems(query: MarketQuery) {
+        const [nonTradable, tradable] = await Promise.all([this.fetchCatalog(query, false), this.fetchCatalog(query, true)])
+        const items = new Map<string, MarketItem>()
+
+        nonTradable.forEach((item) => {
+            items.set(item.market_hash_name, { market_hash_name: item.market_hash_name, min_price_tradable: null, min_price_non_tradable: item.min_price ?? null })
+        })
+        tradable.forEach((item) => {
+            const existing = items.get(item.market_hash_name)
+            if (existing) {
+                existing.min_price_tradable = item.min_price ?? null
+            } else {
+                items.set(item.market_hash_name, { market_hash_name: item.market_hash_name, min_price_tradable: item.min_price ?? null, min_price_non_tradable: null })
+            }
+        })
+
+        return [...items.values()]
+    }
+
+    /**
+     * Fetches one Skinport catalog.
+     *
+     * @param query - The app ID and the currency.
+     * @param tradable - Whether to fetch the tradable or the non-tradable catalog.
+     * @returns A promise that resolves to the raw Skinport items.
+     * @throws {MarketUpstreamError} If the request fails or the body is not a list, e.g. an HTML error page served with 200.
+     */
+    private async fetchCatalog(query: MarketQuery, tradable: boolean) {
+        let response
+        try {
+            response = await axios.get<SkinportItem[]>(this.url, {
+                params: { app_id: query.appId, currency: query.currency, tradable: tradable ? 1 : 0 },
+                headers: { 'Accept-Encoding': 'gzip' }
+            })
+        } catch (err) {
+            if (axios.isAxiosError(err)) {
+                const status = err.response?.status
+                throw new MarketUpstreamError(
+                    status ? `Skinport responded with ${status}` : `Skinport request failed: ${err.message}`,
+                    status,
+                    parseRetryAfter(err.response?.headers['retry-after'])
+                )
+            }
+            throw err
+        }
+        // Thrown without a status, so the workers retry it and count it against the circuit breaker like a failed request
+        if (!Array.isArray(response.data)) {
+            throw new MarketUpstreamError('Skinport responded with an unexpected body')
+        }
+        return response.data
+    }
+}
+
+export default SkinportProvider
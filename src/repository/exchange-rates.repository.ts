@@ -0,0 +1,53 @@
+import { pool } from '../config/db.config'
+
+class ExchangeRatesRepository {
+    constructor(private repository: any = pool) {}
+
+    /**
+     * Returns a repository bound to the client of a running transaction.
+     *
+     * @param tx - The transaction client provided by `withTransaction`.
+     * @returns An ExchangeRatesRepository whose queries run inside the transaction.
+     */
+    forTransaction(tx: any) {
+        return new ExchangeRatesRepository(tx)
+    }
+
+    /**
+     * Appends a set of loaded rates. Rates are never updated, so every conversion can be traced to the rate it used.
+     *
+     * @param base - The currency the rates convert from.
+     * @param rates - The rates keyed by quote currency.
+     * @param source - The name of the provider the rates came from.
+     * @returns A promise that resolves to the inserted rows.
+     */
+    async addRates(base: string, rates: Record<string, number>, source: string) {
+        const quotes = Object.keys(rates)
+        if (!quotes.length) {
+            return []
+        }
+        const values = quotes.map((_, index) => `($1, $${index * 2 + 3}, $${index * 2 + 4}, $2)`).join(', ')
+        const params: Array<string | number> = [base, source]
+        quotes.forEach((quote) => params.push(quote, rates[quote]))
+
+        const response = await this.repository.query(`INSERT INTO exchange_rates (base, quote, rate, source) VALUES ${values} RETURNING *`, params)
+        return response.rows
+    }
+
+    /**
+     * Retrieves the most recently loaded rate of a currency pair.
+     *
+     * @param base - The currency to convert from.
+     * @param quote - The currency to convert to.
+     * @returns A promise that resolves to the rate row, or `undefined` if no rate was loaded for the pair.
+     */
+    async getLatestRate(base: string, quote: string) {
+        const response = await this.repository.query(
+            'SELECT id, base, quote, rate, source, fetched_at FROM exchange_rates WHERE base = $1 AND quote = $2 ORDER BY fetched_at DESC, id DESC LIMIT 1',
+            [base, quote]
+        )
+        return response.rows[0]
+    }
+}
+
+export default new ExchangeRatesRepository()
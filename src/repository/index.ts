@@ -1,4 +1,11 @@
 import UsersRepository from './users.repository'
 import SkinsRepository from './skins.repository'
+import OrdersRepository from './orders.repository'
+import InventoryRepository from './inventory.repository'
+import LedgerRepository from './ledger.repository'
+import ExchangeRatesRepository from './exchange-rates.repository'
+import RefreshTokensRepository from './refresh-tokens.repository'
+import RolesRepository from './roles.repository'
+import UserTokensRepository from './user-tokens.repository'
 
-export { UsersRepository, SkinsRepository }
+export { UsersRepository, SkinsRepository, OrdersRepository, InventoryRepository, LedgerRepository, ExchangeRatesRepository, RefreshTokensRepository, RolesRepository, UserTokensRepository }
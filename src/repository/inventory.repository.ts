@@ -0,0 +1,100 @@
+import { pool } from '../config/db.config'
+
+class InventoryRepository {
+    constructor(private repository: any = pool) {}
+
+    /**
+     * Returns a repository bound to the client of a running transaction.
+     *
+     * @param tx - The transaction client provided by `withTransaction`.
+     * @returns A InventoryRepository whose queries run inside the transaction.
+     */
+    forTransaction(tx: any) {
+        return new InventoryRepository(tx)
+    }
+
+    /**
+     * Adds an item to the user's inventory.
+     *
+     * @param payload - The owner, the acquired item, the order it came from, the price paid, its currency and the variant.
+     * @returns A promise that resolves to the created inventory row.
+     */
+    async addItem(payload: { userId: number; itemId: number; orderId: number; price: number; currency: string; tradable: boolean }) {
+        const { userId, itemId, orderId, price, currency, tradable } = payload
+        const response = await this.repository.query(
+            'INSERT INTO inventory (user_id, item_id, order_id, acquired_price, currency, tradable) VALUES ($1, $2, $3, $4, $5, $6) RETURNING *',
+            [userId, itemId, orderId, price, currency, tradable]
+        )
+        return response.rows[0]
+    }
+
+    /**
+     * Retrieves the inventory row created by an order, locking the selected row.
+     *
+     * @param orderId - The ID of the order.
+     * @returns A promise that resolves to the inventory row, or `undefined` if the item is no longer owned.
+     */
+    async getItemByOrderForUpdate(orderId: number) {
+        const response = await this.repository.query('SELECT * FROM inventory WHERE order_id = $1 FOR UPDATE', [orderId])
+        return response.rows[0]
+    }
+
+    /**
+     * Removes an item from the inventory.
+     *
+     * @param id - The ID of the inventory row.
+     * @returns A promise that resolves to the query result.
+     */
+    async removeItem(id: number) {
+        return await this.repository.query('DELETE FROM inventory WHERE id = $1', [id])
+    }
+
+    /**
+     * Retrieves a page of the user's inventory, newest acquisitions first.
+     * Each row includes the item name and its current price for the owned variant, price overrides included,
+     * converted from the base currency with `rate`.
+     *
+     * @param userId - The ID of the owner.
+     * @param limit - The maximum number of rows to retrieve.
+     * @param offset - The number of rows to skip.
+     * @param rate - The exchange rate from the base currency to the valuation currency, `null` leaves the current prices empty.
+     * @returns A promise that resolves to the query result.
+     */
+    async getUserInventory(userId: number, limit: number, offset: number, rate: number | null = 1) {
+        return await this.repository.query(
+            `SELECT inv.id, inv.item_id, i.name, inv.order_id, inv.acquired_price, inv.currency, inv.tradable, inv.acquired_at,
+            ROUND((CASE WHEN inv.tradable THEN COALESCE(i.price_override_tradable, i.min_price_tradable)
+            ELSE COALESCE(i.price_override_non_tradable, i.min_price_non_tradable) END * $4::numeric)::numeric, 2) AS current_price
+            FROM inventory inv
+            JOIN items i ON i.id = inv.item_id
+            WHERE inv.user_id = $1
+            ORDER BY inv.acquired_at DESC, inv.id DESC
+            LIMIT $2 OFFSET $3`,
+            [userId, limit, offset, rate]
+        )
+    }
+
+    /**
+     * Counts the items owned by the user and values them at the current `min_price_*` of the owned variant,
+     * or at its price override if one is set, converted from the base currency with `rate`.
+     * Items without a current price do not contribute to the valuation.
+     *
+     * @param userId - The ID of the owner.
+     * @param rate - The exchange rate from the base currency to the valuation currency, `null` leaves `total_value` empty.
+     * @returns A promise that resolves to an object with `total` and `total_value`.
+     */
+    async getUserInventorySummary(userId: number, rate: number | null = 1) {
+        const response = await this.repository.query(
+            `SELECT COUNT(*)::int AS total,
+            ROUND((COALESCE(SUM(CASE WHEN inv.tradable THEN COALESCE(i.price_override_tradable, i.min_price_tradable)
+            ELSE COALESCE(i.price_override_non_tradable, i.min_price_non_tradable) END), 0) * $2::numeric)::numeric, 2) AS total_value
+            FROM inventory inv
+            JOIN items i ON i.id = inv.item_id
+            WHERE inv.user_id = $1`,
+            [userId, rate]
+        )
+        return response.rows[0]
+    }
+}
+
+export default new InventoryRepository()
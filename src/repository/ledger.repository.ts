@@ -0,0 +1,113 @@
+import { pool } from '../config/db.config'
+
+class LedgerRepository {
+    constructor(private repository: any = pool) {}
+
+    /**
+     * Returns a repository bound to the client of a running transaction.
+     *
+     * @param tx - The transaction client provided by `withTransaction`.
+     * @returns A LedgerRepository whose queries run inside the transaction.
+     */
+    forTransaction(tx: any) {
+        return new LedgerRepository(tx)
+    }
+
+    /**
+     * Appends an entry to the balance ledger.
+     *
+     * @param payload - The entry data:
+     *  - `userId`: The user whose balance changed.
+     *  - `type`: `debit` for money leaving the balance, `credit` for money coming in.
+     *  - `amount`: The positive amount of the change.
+     *  - `reason`: A short machine-readable reason, e.g. `purchase`.
+     *  - `orderId`: The related order, if any.
+     *  - `note`: A free-text explanation, e.g. the reason given for an admin adjustment.
+     *  - `balanceAfter`: The user's balance after the change.
+     *  - `currency`: The currency of the user's balance.
+     * @returns A promise that resolves to the created ledger entry.
+     */
+    async addEntry(payload: {
+        userId: number
+        type: 'debit' | 'credit'
+        amount: number
+        reason: string
+        orderId?: number | null
+        note?: string | null
+        balanceAfter: number
+        currency: string
+    }) {
+        const { userId, type, amount, reason, orderId = null, note = null, balanceAfter, currency } = payload
+        const response = await this.repository.query(
+            'INSERT INTO balance_transactions (user_id, type, amount, reason, order_id, note, balance_after, currency) VALUES ($1, $2, $3, $4, $5, $6, $7, $8) RETURNING *',
+            [userId, type, amount, reason, orderId, note, balanceAfter, currency]
+        )
+        return response.rows[0]
+    }
+
+    /**
+     * Retrieves a page of the user's ledger entries, newest first, optionally limited to a date range.
+     *
+     * @param userId - The ID of the user.
+     * @param filters - Optional inclusive `from` and exclusive `to` bounds on the entry time, plus pagination.
+     * @returns A promise that resolves to an object with the entries and the total number of matching entries.
+     */
+    async getUserEntries(userId: number, filters: { from?: Date; to?: Date; limit: number; offset: number }) {
+        const conditions = ['user_id = $1']
+        const params: any[] = [userId]
+
+        if (filters.from) {
+            params.push(filters.from)
+            conditions.push(`created_at >= $${params.length}`)
+        }
+
+        if (filters.to) {
+            params.push(filters.to)
+            conditions.push(`created_at < $${params.length}`)
+        }
+
+        const where = conditions.join(' AND ')
+        const count = await this.repository.query(`SELECT COUNT(*)::int AS total FROM balance_transactions WHERE ${where}`, params)
+        const entries = await this.repository.query(
+            `SELECT * FROM balance_transactions WHERE ${where} ORDER BY created_at DESC, id DESC LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+            [...params, filters.limit, filters.offset]
+        )
+
+        return { entries: entries.rows, total: count.rows[0].total }
+    }
+
+    /**
+     * Compares the balance derived from the ledger with the balance stored in `users`.
+     *
+     * @param userId - The ID of the user.
+     * @returns A promise that resolves to the stored `balance` and the `ledger_balance` (credits minus debits),
+     *          or `undefined` if the user does not exist.
+     */
+    async getReconciliation(userId: number) {
+        const response = await this.repository.query(
+            `SELECT u.balance,
+            COALESCE((SELECT SUM(CASE WHEN bt.type = 'credit' THEN bt.amount ELSE -bt.amount END) FROM balance_transactions bt WHERE bt.user_id = u.id), 0) AS ledger_balance
+            FROM users u
+            WHERE u.id = $1`,
+            [userId]
+        )
+        return response.rows[0]
+    }
+
+    /**
+     * Records the current balance of every user that has no ledger entries yet as an opening credit,
+     * so balances that existed before the ledger reconcile with it.
+     *
+     * @returns A promise that resolves to the query result.
+     */
+    async insertOpeningBalances() {
+        return await this.repository.query(`
+            INSERT INTO balance_transactions (user_id, type, amount, reason, balance_after, currency)
+            SELECT u.id, 'credit', u.balance, 'opening_balance', u.balance, u.currency
+            FROM users u
+            WHERE u.balance > 0 AND NOT EXISTS (SELECT 1 FROM balance_transactions bt WHERE bt.user_id = u.id)
+        `)
+    }
+}
+
+export default new LedgerRepository()
@@ -0,0 +1,31 @@
+import { MemoryTables, nextId } from './tables'
+
+/**
+ * An in-memory `ExchangeRatesRepository`, see `createMemoryRepositories`.
+ */
+export class MemoryExchangeRatesRepository {
+    constructor(private tables: MemoryTables) {}
+
+    /**
+     * Transactions are not isolated in memory, the repository itself is returned.
+     */
+    forTransaction(tx: any) {
+        return this
+    }
+
+    async addRates(base: string, rates: Record<string, number>, source: string) {
+        const fetchedAt = new Date()
+        return Object.entries(rates).map(([quote, rate]) => {
+            const row = { id: nextId(this.tables.exchange_rates), base, quote, rate, source, fetched_at: fetchedAt }
+            this.tables.exchange_rates.push(row)
+            return { ...row }
+        })
+    }
+
+    async getLatestRate(base: string, quote: string) {
+        const rate = this.tables.exchange_rates
+            .filter((row) => row.base === base && row.quote === quote)
+            .reduce((latest, row) => (!latest || row.fetched_at > latest.fetched_at || (row.fetched_at.getTime() === latest.fetched_at.getTime() && row.id > latest.id) ? row : latest), undefined)
+        return rate && { ...rate }
+    }
+}
@@ -0,0 +1,49 @@
+import { MemoryTables, createTables } from './tables'
+import { MemoryUsersRepository } from './users.repository'
+import { MemorySkinsRepository } from './skins.repository'
+import { MemoryOrdersRepository } from './orders.repository'
+import { MemoryInventoryRepository } from './inventory.repository'
+import { MemoryLedgerRepository } from './ledger.repository'
+import { MemoryExchangeRatesRepository } from './exchange-rates.repository'
+import { MemoryRefreshTokensRepository } from './refresh-tokens.repository'
+import { MemoryRolesRepository } from './roles.repository'
+import { MemoryUserTokensRepository } from './user-tokens.repository'
+
+/**
+ * Creates in-memory implementations of every repository, sharing the same tables.
+ * Meant for tests: `App(options, { repositories, transaction: memoryTransaction })` runs without PostgreSQL.
+ *
+ * @param tables - The tables to use, empty ones by default.
+ * @returns The repositories, plus the tables to seed or inspect directly.
+ */
+export const createMemoryRepositories = (tables: MemoryTables = createTables()) => ({
+    tables,
+    users: new MemoryUsersRepository(tables),
+    skins: new MemorySkinsRepository(tables),
+    orders: new MemoryOrdersRepository(tables),
+    inventory: new MemoryInventoryRepository(tables),
+    ledger: new MemoryLedgerRepository(tables),
+    exchangeRates: new MemoryExchangeRatesRepository(tables),
+    refreshTokens: new MemoryRefreshTokensRepository(tables),
+    roles: new MemoryRolesRepository(tables),
+    userTokens: new MemoryUserTokensRepository(tables)
+})
+
+/**
+ * Runs a function "in a transaction" over the in-memory repositories. Nothing is isolated or rolled back:
+ * a service failing halfway keeps its earlier writes, which the services avoid by validating before writing.
+ */
+export const memoryTransaction = async <T>(fn: (tx: any) => Promise<T>): Promise<T> => await fn(null)
+
+export { MemoryTables, createTables }
+export {
+    MemoryUsersRepository,
+    MemorySkinsRepository,
+    MemoryOrdersRepository,
+    MemoryInventoryRepository,
+    MemoryLedgerRepository,
+    MemoryExchangeRatesRepository,
+    MemoryRefreshTokensRepository,
+    MemoryRolesRepository,
+    MemoryUserTokensRepository
+}
@@ -0,0 +1,84 @@
+import { roundMoney } from '../../utils/money'
+import { MemoryTables, nextId, toResult } from './tables'
+
+/**
+ * An in-memory `InventoryRepository`, see `createMemoryRepositories`.
+ */
+export class MemoryInventoryRepository {
+    constructor(private tables: MemoryTables) {}
+
+    /**
+     * Transactions are not isolated in memory, the repository itself is returned.
+     */
+    forTransaction(tx: any) {
+        return this
+    }
+
+    async addItem(payload: { userId: number; itemId: number; orderId: number; price: number; currency: string; tradable: boolean }) {
+        const item = {
+            id: nextId(this.tables.inventory),
+            user_id: payload.userId,
+            item_id: payload.itemId,
+            order_id: payload.orderId,
+            acquired_price: payload.price,
+            tradable: payload.tradable,
+            acquired_at: new Date(),
+            currency: payload.currency
+        }
+        this.tables.inventory.push(item)
+        return { ...item }
+    }
+
+    async getItemByOrderForUpdate(orderId: number) {
+        const item = this.tables.inventory.find((row) => row.order_id === Number(orderId))
+        return item && { ...item }
+    }
+
+    async removeItem(id: number) {
+        const index = this.tables.inventory.findIndex((row) => row.id === Number(id))
+        if (index === -1) {
+            return toResult([])
+        }
+        return toResult(this.tables.inventory.splice(index, 1))
+    }
+
+    /**
+     * Returns the current price of the owned variant in the base currency, price overrides included.
+     */
+    private currentPrice(item: any) {
+        const skin = this.tables.items.find((row) => row.id === item.item_id)
+        const price = item.tradable ? (skin?.price_override_tradable ?? skin?.min_price_tradable) : (skin?.price_override_non_tradable ?? skin?.min_price_non_tradable)
+        return price ?? null
+    }
+
+    private ownedBy(userId: number) {
+        return this.tables.inventory.filter((row) => row.user_id === Number(userId))
+    }
+
+    async getUserInventory(userId: number, limit: number, offset: number, rate: number | null = 1) {
+        const rows = this.ownedBy(userId)
+            .sort((a, b) => b.acquired_at.getTime() - a.acquired_at.getTime() || b.id - a.id)
+            .slice(offset, offset + limit)
+            .map((item) => {
+                const price = this.currentPrice(item)
+                return {
+                    id: item.id,
+                    item_id: item.item_id,
+                    name: this.tables.items.find((row) => row.id === item.item_id)?.name ?? null,
+                    order_id: item.order_id,
+                    acquired_price: item.acquired_price,
+                    currency: item.currency,
+                    tradable: item.tradable,
+                    acquired_at: item.acquired_at,
+                    current_price: price === null || rate === null ? null : roundMoney(price * rate)
+                }
+            })
+        return toResult(rows)
+    }
+
+    async getUserInventorySummary(userId: number, rate: number | null = 1) {
+        const owned = this.ownedBy(userId)
+        const value = owned.reduce((sum, item) => sum + (this.currentPrice(item) ?? 0), 0)
+        return { total: owned.length, total_value: rate === null ? null : roundMoney(value * rate) }
+    }
+}
@@ -0,0 +1,61 @@
+import { roundMoney } from '../../utils/money'
+import { MemoryTables, nextId } from './tables'
+
+/**
+ * An in-memory `LedgerRepository`, see `createMemoryRepositories`.
+ */
+export class MemoryLedgerRepository {
+    constructor(private tables: MemoryTables) {}
+
+    /**
+     * Transactions are not isolated in memory, the repository itself is returned.
+     */
+    forTransaction(tx: any) {
+        return this
+    }
+
+    async addEntry(payload: {
+        userId: number
+        type: 'debit' | 'credit'
+        amount: number
+        reason: string
+        orderId?: number | null
+        note?: string | null
+        balanceAfter: number
+        currency: string
+    }) {
+        const entry = {
+            id: nextId(this.tables.balance_transactions),
+            user_id: payload.userId,
+            type: payload.type,
+            amount: payload.amount,
+            reason: payload.reason,
+            order_id: payload.orderId ?? null,
+            note: payload.note ?? null,
+            balance_after: payload.balanceAfter,
+            created_at: new Date(),
+            currency: payload.currency
+        }
+        this.tables.balance_transactions.push(entry)
+        return { ...entry }
+    }
+
+    async getUserEntries(userId: number, filters: { from?: Date; to?: Date; limit: number; offset: number }) {
+        const matching = this.tables.balance_transactions
+            .filter((entry) => entry.user_id === Number(userId))
+            .filter((entry) => (!filters.from || entry.created_at >= filters.from) && (!filters.to || entry.created_at < filters.to))
+            .sort((a, b) => b.created_at.getTime() - a.created_at.getTime() || b.id - a.id)
+        return { entries: matching.slice(filters.offset, filters.offset + filters.limit).map((entry) => ({ ...entry })), total: matching.length }
+    }
+
+    async getReconciliation(userId: number) {
+        const user = this.tables.users.find((row) => row.id === Number(userId))
+        if (!user) {
+            return undefined
+        }
+        const ledgerBalance = this.tables.balance_transactions
+            .filter((entry) => entry.user_id === user.id)
+            .reduce((sum, entry) => sum + (entry.type === 'credit' ? entry.amount : -entry.amount), 0)
+        return { balance: user.balance, ledger_balance: roundMoney(ledgerBalance) }
+    }
+}
@@ -0,0 +1,58 @@
+import { MemoryTables, nextId } from './tables'
+
+/**
+ * An in-memory `OrdersRepository`, see `createMemoryRepositories`.
+ */
+export class MemoryOrdersRepository {
+    constructor(private tables: MemoryTables) {}
+
+    /**
+     * Transactions are not isolated in memory, the repository itself is returned.
+     */
+    forTransaction(tx: any) {
+        return this
+    }
+
+    async createOrder(payload: {
+        userId: number
+        itemId: number
+        price: number
+        tradable: boolean
+        currency: string
+        basePrice: number
+        exchangeRateId: number | null
+    }) {
+        const order = {
+            id: nextId(this.tables.orders),
+            user_id: payload.userId,
+            item_id: payload.itemId,
+            price: payload.price,
+            tradable: payload.tradable,
+            status: 'completed',
+            created_at: new Date(),
+            currency: payload.currency,
+            base_price: payload.basePrice,
+            exchange_rate_id: payload.exchangeRateId ?? null
+        }
+        this.tables.orders.push(order)
+        return { ...order }
+    }
+
+    async getOrderById(id: number) {
+        const order = this.tables.orders.find((row) => row.id === Number(id))
+        return order && { ...order }
+    }
+
+    async getOrderForUpdate(id: number) {
+        return this.getOrderById(id)
+    }
+
+    async updateOrderStatus(id: number, status: string) {
+        const order = this.tables.orders.find((row) => row.id === Number(id))
+        if (!order) {
+            return undefined
+        }
+        order.status = status
+        return { ...order }
+    }
+}
@@ -0,0 +1,67 @@
+import { MemoryTables, nextId } from './tables'
+
+/**
+ * An in-memory `RefreshTokensRepository`, see `createMemoryRepositories`.
+ */
+export class MemoryRefreshTokensRepository {
+    constructor(private tables: MemoryTables) {}
+
+    /**
+     * Transactions are not isolated in memory, the repository itself is returned.
+     */
+    forTransaction(tx: any) {
+        return this
+    }
+
+    async createToken(payload: { userId: number; familyId: string; tokenHash: string; expiresAt: Date }) {
+        const token = {
+            id: nextId(this.tables.refresh_tokens),
+            user_id: payload.userId,
+            family_id: payload.familyId,
+            token_hash: payload.tokenHash,
+            expires_at: payload.expiresAt,
+            created_at: new Date(),
+            used_at: null,
+            replaced_by: null,
+            revoked_at: null
+        }
+        this.tables.refresh_tokens.push(token)
+        return { ...token }
+    }
+
+    async getTokenByHashForUpdate(tokenHash: string) {
+        const token = this.tables.refresh_tokens.find((row) => row.token_hash === tokenHash)
+        return token && { ...token }
+    }
+
+    async markTokenUsed(id: number, replacedBy: number) {
+        const token = this.tables.refresh_tokens.find((row) => row.id === id)
+        if (token) {
+            Object.assign(token, { used_at: new Date(), replaced_by: replacedBy })
+        }
+    }
+
+    /**
+     * Revokes the active tokens matching a condition.
+     *
+     * @returns The number of revoked tokens.
+     */
+    private revokeWhere(matches: (token: any) => boolean) {
+        const revoked = this.tables.refresh_tokens.filter((token) => !token.revoked_at && matches(token))
+        revoked.forEach((token) => (token.revoked_at = new Date()))
+        return revoked.length
+    }
+
+    async revokeFamily(familyId: string) {
+        return this.revokeWhere((token) => token.family_id === familyId)
+    }
+
+    async revokeFamilyByTokenHash(tokenHash: string, userId: number) {
+        const token = this.tables.refresh_tokens.find((row) => row.token_hash === tokenHash && row.user_id === userId)
+        return token ? this.revokeWhere((row) => row.family_id === token.family_id) : 0
+    }
+
+    async revokeUserTokens(userId: number) {
+        return this.revokeWhere((token) => token.user_id === userId)
+    }
+}
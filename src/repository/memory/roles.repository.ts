@@ -0,0 +1,26 @@
+import { MemoryTables } from './tables'
+
+/**
+ * An in-memory `RolesRepository`, see `createMemoryRepositories`.
+ */
+export class MemoryRolesRepository {
+    constructor(private tables: MemoryTables) {}
+
+    /**
+     * Transactions are not isolated in memory, the repository itself is returned.
+     */
+    forTransaction(tx: any) {
+        return this
+    }
+
+    async getRoles() {
+        return this.tables.roles.map((role) => ({ ...role, permissions: [...(this.tables.role_permissions[role.name] ?? [])] }))
+    }
+
+    async getRolePermissions(name: string) {
+        if (!this.tables.roles.some((role) => role.name === name)) {
+            return undefined
+        }
+        return [...(this.tables.role_permissions[name] ?? [])]
+    }
+}
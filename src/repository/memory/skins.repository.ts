@@ -0,0 +1,269 @@
+import { roundMoney } from '../../utils/money'
+import { CatalogQuery, SkinFields } from '../skins.repository'
+import { MemoryTables, nextId, toResult, pick, uniqueViolation } from './tables'
+
+const EDITABLE_COLUMNS: Array<keyof SkinFields> = [
+    'name',
+    'market_hash_name',
+    'min_price_tradable',
+    'min_price_non_tradable',
+    'price_override_tradable',
+    'price_override_non_tradable',
+    'hidden'
+]
+
+const HOUR = 60 * 60 * 1000
+
+const orNull = (value: number | null | undefined) => (value === undefined ? null : value)
+
+/**
+ * An in-memory `SkinsRepository`, see `createMemoryRepositories`.
+ * The catalog sync is not supported: seed the catalog with `insertSkin` and the price history with `insertPriceSnapshot`.
+ */
+export class MemorySkinsRepository {
+    constructor(private tables: MemoryTables) {}
+
+    /**
+     * Transactions are not isolated in memory, the repository itself is returned.
+     */
+    forTransaction(tx: any) {
+        return this
+    }
+
+    /**
+     * Adds a skin directly, e.g. to seed a test.
+     *
+     * @param payload - The columns of the skin, the others default like in the `items` table.
+     * @returns The created row.
+     */
+    insertSkin(payload: Partial<SkinFields> & Record<string, any> & { name: string }) {
+        const skin = {
+            id: nextId(this.tables.items),
+            market_hash_name: null,
+            min_price_tradable: null,
+            min_price_non_tradable: null,
+            price_override_tradable: null,
+            price_override_non_tradable: null,
+            hidden: false,
+            last_synced_at: null,
+            delisted_at: null,
+            deleted_at: null,
+            ...payload
+        }
+        this.tables.items.push(skin)
+        return skin
+    }
+
+    /**
+     * Records a price snapshot directly, e.g. to seed a test.
+     */
+    insertPriceSnapshot(payload: { itemId: number; minPriceTradable: number | null; minPriceNonTradable: number | null; recordedAt: Date }) {
+        this.tables.price_history.push({
+            item_id: payload.itemId,
+            min_price_tradable: payload.minPriceTradable,
+            min_price_non_tradable: payload.minPriceNonTradable,
+            recorded_at: payload.recordedAt
+        })
+    }
+
+    private find(id: number) {
+        return this.tables.items.find((skin) => skin.id === Number(id))
+    }
+
+    /**
+     * Computes the prices of a skin like the price expressions of `SkinsRepository`: overrides take precedence,
+     * in a non-base currency a synced price comes before the converted base price.
+     */
+    private pricesOf(skin: any, conversion?: CatalogQuery['conversion']) {
+        const tradable = skin.price_override_tradable ?? skin.min_price_tradable
+        const nonTradable = skin.price_override_non_tradable ?? skin.min_price_non_tradable
+        if (!conversion) {
+            return { tradable: orNull(tradable), nonTradable: orNull(nonTradable) }
+        }
+        const synced = this.tables.item_prices.find((row) => row.item_id === skin.id && row.currency === conversion.currency)
+        const convert = (override: number | null, price: number | null, syncedPrice?: number | null) => {
+            if (override !== null && override !== undefined) {
+                return roundMoney(override * conversion.rate)
+            }
+            if (syncedPrice !== null && syncedPrice !== undefined) {
+                return syncedPrice
+            }
+            return price === null || price === undefined ? null : roundMoney(price * conversion.rate)
+        }
+        return {
+            tradable: convert(skin.price_override_tradable, skin.min_price_tradable, synced?.min_price_tradable),
+            nonTradable: convert(skin.price_override_non_tradable, skin.min_price_non_tradable, synced?.min_price_non_tradable)
+        }
+    }
+
+    /**
+     * Applies the filters of a catalog query, see `SkinsRepository.buildCatalogFilters`.
+     */
+    private filterCatalog(query: CatalogQuery) {
+        return this.tables.items
+            .filter((skin) => !skin.delisted_at && !skin.hidden && !skin.deleted_at)
+            .map((skin) => ({ skin, prices: this.pricesOf(skin, query.conversion) }))
+            .filter(({ skin, prices }) => {
+                const name = (skin.name ?? '').toLowerCase()
+                const inRange = (price: number | null, min?: number, max?: number) =>
+                    (min === undefined || (price !== null && price >= min)) && (max === undefined || (price !== null && price <= max))
+                return (
+                    (!query.search || name.includes(query.search.toLowerCase())) &&
+                    (!query.prefix || name.startsWith(query.prefix.toLowerCase())) &&
+                    inRange(prices.tradable, query.minPriceTradable, query.maxPriceTradable) &&
+                    inRange(prices.nonTradable, query.minPriceNonTradable, query.maxPriceNonTradable) &&
+                    (!query.tradableOnly || prices.tradable !== null)
+                )
+            })
+    }
+
+    async getSkins(query: CatalogQuery) {
+        const missing = query.order === 'asc' ? Infinity : -Infinity
+        const sortValue = ({ skin, prices }: { skin: any; prices: { tradable: number | null; nonTradable: number | null } }): string | number => {
+            switch (query.sort) {
+                case 'price_tradable':
+                    return prices.tradable ?? missing
+                case 'price_non_tradable':
+                    return prices.nonTradable ?? missing
+                default:
+                    return skin.name ?? ''
+            }
+        }
+        const direction = query.order === 'asc' ? 1 : -1
+        const compare = (a: [string | number, number], b: [string | number, number]) =>
+            (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : a[1] - b[1]) * direction
+
+        let rows = this.filterCatalog(query)
+            .map((entry) => ({
+                id: entry.skin.id,
+                name: entry.skin.name,
+                min_price_non_tradable: entry.prices.nonTradable,
+                min_price_tradable: entry.prices.tradable,
+                sort_value: sortValue(entry)
+            }))
+            .sort((a, b) => compare([a.sort_value, a.id], [b.sort_value, b.id]))
+
+        const after = query.after
+        if (after) {
+            const value = query.sort === 'name' ? after.value : Number(after.value)
+            rows = rows.filter((row) => compare([row.sort_value, row.id], [value, after.id]) > 0)
+        }
+
+        return toResult(rows.slice(0, query.limit))
+    }
+
+    async countSkins(query: CatalogQuery) {
+        return this.filterCatalog(query).length
+    }
+
+    async getSkinById(id: number) {
+        const skin = this.find(id)
+        return toResult(skin ? [{ ...skin }] : [])
+    }
+
+    async getVisibleSkinById(id: number) {
+        const skin = this.find(id)
+        if (!skin || skin.hidden || skin.deleted_at) {
+            return undefined
+        }
+        const prices = this.pricesOf(skin)
+        return { ...pick(skin, ['id', 'name', 'market_hash_name']), min_price_non_tradable: prices.nonTradable, min_price_tradable: prices.tradable, delisted_at: skin.delisted_at }
+    }
+
+    async getSkinForUpdate(id: number) {
+        const skin = this.find(id)
+        if (!skin) {
+            return undefined
+        }
+        const prices = this.pricesOf(skin)
+        return {
+            ...pick(skin, ['id', 'name']),
+            min_price_non_tradable: prices.nonTradable,
+            min_price_tradable: prices.tradable,
+            ...pick(skin, ['delisted_at', 'hidden', 'deleted_at'])
+        }
+    }
+
+    async getPricesInCurrency(id: number, conversion: NonNullable<CatalogQuery['conversion']>) {
+        const skin = this.find(id)
+        if (!skin) {
+            return undefined
+        }
+        const prices = this.pricesOf(skin, conversion)
+        return { min_price_non_tradable: prices.nonTradable, min_price_tradable: prices.tradable }
+    }
+
+    private assertUniqueName(marketHashName: string | null | undefined, id?: number) {
+        if (marketHashName && this.tables.items.some((skin) => skin.market_hash_name === marketHashName && skin.id !== id)) {
+            throw uniqueViolation('items_market_hash_name_key')
+        }
+    }
+
+    async createSkin(payload: Partial<SkinFields> & { name: string }) {
+        this.assertUniqueName(payload.market_hash_name)
+        const columns = EDITABLE_COLUMNS.filter((column) => payload[column] !== undefined)
+        return { ...this.insertSkin({ ...Object.fromEntries(columns.map((column) => [column, payload[column]])), name: payload.name }) }
+    }
+
+    async updateSkinFields(id: number, payload: Partial<SkinFields>) {
+        const skin = this.find(id)
+        if (!skin || skin.deleted_at) {
+            return undefined
+        }
+        this.assertUniqueName(payload.market_hash_name, skin.id)
+        EDITABLE_COLUMNS.filter((column) => payload[column] !== undefined).forEach((column) => (skin[column] = payload[column]))
+        return { ...skin }
+    }
+
+    async deleteSkin(id: number) {
+        const skin = this.find(id)
+        if (!skin || skin.deleted_at) {
+            return undefined
+        }
+        skin.deleted_at = new Date()
+        return { ...skin }
+    }
+
+    async getPriceHistory(id: number, interval: 'hour' | 'day', from: Date, to: Date) {
+        const size = interval === 'hour' ? HOUR : 24 * HOUR
+        const buckets = new Map<number, any[]>()
+        this.tables.price_history
+            .filter((row) => row.item_id === Number(id) && row.recorded_at >= from && row.recorded_at < to)
+            .forEach((row) => {
+                const bucket = Math.floor(row.recorded_at.getTime() / size) * size
+                buckets.set(bucket, [...(buckets.get(bucket) ?? []), row])
+            })
+
+        const aggregate = (rows: any[], column: string) => {
+            const prices = rows.map((row) => row[column]).filter((price) => price !== null)
+            if (!prices.length) {
+                return { min: null, avg: null, max: null }
+            }
+            return { min: Math.min(...prices), avg: roundMoney(prices.reduce((sum, price) => sum + price, 0) / prices.length), max: Math.max(...prices) }
+        }
+
+        return [...buckets.entries()]
+            .sort(([a], [b]) => a - b)
+            .map(([bucket, rows]) => {
+                const tradable = aggregate(rows, 'min_price_tradable')
+                const nonTradable = aggregate(rows, 'min_price_non_tradable')
+                return {
+                    bucket: new Date(bucket),
+                    min_tradable: tradable.min,
+                    avg_tradable: tradable.avg,
+                    max_tradable: tradable.max,
+                    min_non_tradable: nonTradable.min,
+                    avg_non_tradable: nonTradable.avg,
+                    max_non_tradable: nonTradable.max,
+                    samples: rows.length
+                }
+            })
+    }
+
+    async getPriceSnapshotAt(id: number, at: Date) {
+        const snapshot = this.tables.price_history
+            .filter((row) => row.item_id === Number(id) && row.recorded_at <= at)
+            .reduce((latest, row) => (!latest || row.recorded_at > latest.recorded_at ? row : latest), undefined)
+        return snapshot && pick(snapshot, ['min_price_tradable', 'min_price_non_tradable', 'recorded_at'])
+    }
+}
@@ -0,0 +1,65 @@
+/**
+ * The rows of the in-memory repositories, named after the PostgreSQL tables. Every repository created by
+ * `createMemoryRepositories` shares the same tables, so e.g. a purchase is visible in the inventory and the ledger.
+ */
+export interface MemoryTables {
+    users: any[]
+    items: any[]
+    item_prices: any[]
+    price_history: any[]
+    orders: any[]
+    inventory: any[]
+    balance_transactions: any[]
+    exchange_rates: any[]
+    refresh_tokens: any[]
+    user_tokens: any[]
+    roles: Array<{ name: string; description: string }>
+    // The permissions granted by each role
+    role_permissions: Record<string, string[]>
+}
+
+/**
+ * Creates empty tables with the roles and permissions seeded by the migrations.
+ */
+export const createTables = (): MemoryTables => ({
+    users: [],
+    items: [],
+    item_prices: [],
+    price_history: [],
+    orders: [],
+    inventory: [],
+    balance_transactions: [],
+    exchange_rates: [],
+    refresh_tokens: [],
+    user_tokens: [],
+    roles: [
+        { name: 'admin', description: 'Administrator' },
+        { name: 'support', description: 'Support staff managing customer accounts' },
+        { name: 'user', description: 'Customer' }
+    ],
+    role_permissions: {
+        admin: ['balance:adjust', 'balance:deposit', 'catalog:write', 'users:assign-role', 'users:manage', 'users:read'],
+        support: ['users:manage', 'users:read'],
+        user: []
+    }
+})
+
+/**
+ * Returns the next ID of a table, like a `SERIAL` column.
+ */
+export const nextId = (rows: Array<{ id: number }>) => rows.reduce((max, row) => Math.max(max, row.id), 0) + 1
+
+/**
+ * Wraps rows like the result of `pool.query`, for the methods whose PostgreSQL counterpart returns the query result.
+ */
+export const toResult = (rows: any[]) => ({ rows, rowCount: rows.length })
+
+/**
+ * Picks columns of a row, like a `SELECT` list.
+ */
+export const pick = (row: any, columns: string[]) => Object.fromEntries(columns.map((column) => [column, row[column] ?? null]))
+
+/**
+ * Builds the error PostgreSQL raises on a unique violation, so services translate it the same way.
+ */
+export const uniqueViolation = (constraint: string) => Object.assign(new Error(`duplicate key value violates unique constraint "${constraint}"`), { code: '23505', constraint })
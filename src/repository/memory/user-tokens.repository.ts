@@ -0,0 +1,41 @@
+import { UserTokenPurpose } from '../user-tokens.repository'
+import { MemoryTables, nextId, toResult } from './tables'
+
+/**
+ * An in-memory `UserTokensRepository`, see `createMemoryRepositories`.
+ */
+export class MemoryUserTokensRepository {
+    constructor(private tables: MemoryTables) {}
+
+    /**
+     * Transactions are not isolated in memory, the repository itself is returned.
+     */
+    forTransaction(tx: any) {
+        return this
+    }
+
+    async createToken(payload: { userId: number; purpose: UserTokenPurpose; tokenHash: string; expiresAt: Date }) {
+        const token = {
+            id: nextId(this.tables.user_tokens),
+            user_id: payload.userId,
+            purpose: payload.purpose,
+            token_hash: payload.tokenHash,
+            expires_at: payload.expiresAt,
+            created_at: new Date(),
+            used_at: null
+        }
+        this.tables.user_tokens.push(token)
+        return { ...token }
+    }
+
+    async getTokenByHashForUpdate(tokenHash: string, purpose: UserTokenPurpose) {
+        const token = this.tables.user_tokens.find((row) => row.token_hash === tokenHash && row.purpose === purpose)
+        return token && { ...token }
+    }
+
+    async useUserTokens(userId: number, purpose: UserTokenPurpose) {
+        const used = this.tables.user_tokens.filter((row) => row.user_id === userId && row.purpose === purpose && !row.used_at)
+        used.forEach((row) => (row.used_at = new Date()))
+        return toResult(used)
+    }
+}
@@ -0,0 +1,192 @@
+import bcrypt from 'bcryptjs'
+import config from '../../config/config'
+import { MemoryTables, nextId, toResult, pick, uniqueViolation } from './tables'
+
+const salt = Number(process.env.SALT) || 10
+
+const MANAGED_USER_COLUMNS = ['id', 'email', 'balance', 'currency', 'role', 'disabled_at', 'disabled_reason', 'password_reset_required']
+
+/**
+ * An in-memory `UsersRepository`, see `createMemoryRepositories`.
+ */
+export class MemoryUsersRepository {
+    constructor(private tables: MemoryTables) {}
+
+    /**
+     * Transactions are not isolated in memory, the repository itself is returned.
+     */
+    forTransaction(tx: any) {
+        return this
+    }
+
+    /**
+     * Adds a user directly, e.g. to seed a test. The password is hashed here.
+     *
+     * @param payload - The email and the plain password, the other columns default like in the `users` table
+     *                  except `email_verified_at`, which defaults to now.
+     *                  A positive balance is recorded as an opening credit in the ledger, like `LedgerRepository.insertOpeningBalances`.
+     * @returns The created row.
+     */
+    insertUser(payload: { email: string; password: string } & Record<string, any>) {
+        const { password, ...columns } = payload
+        const user = {
+            id: nextId(this.tables.users),
+            balance: 0,
+            currency: config.market.currency,
+            role: 'user',
+            disabled_at: null,
+            disabled_reason: null,
+            password_reset_required: false,
+            session_version: 0,
+            email_verified_at: new Date(),
+            ...columns,
+            password: bcrypt.hashSync(password, salt)
+        }
+        this.tables.users.push(user)
+        if (user.balance > 0) {
+            this.tables.balance_transactions.push({
+                id: nextId(this.tables.balance_transactions),
+                user_id: user.id,
+                type: 'credit',
+                amount: user.balance,
+                reason: 'opening_balance',
+                order_id: null,
+                note: null,
+                balance_after: user.balance,
+                created_at: new Date(),
+                currency: user.currency
+            })
+        }
+        return user
+    }
+
+    private find(id: number) {
+        return this.tables.users.find((user) => user.id === Number(id))
+    }
+
+    async getUsers() {
+        return toResult(this.tables.users.map((user) => pick(user, ['id', 'balance', 'currency', 'email'])))
+    }
+
+    async getUserById(id: number) {
+        const user = this.find(id)
+        return toResult(user ? [pick(user, ['id', 'balance', 'currency', 'email'])] : [])
+    }
+
+    async getUserAccess(id: number) {
+        const user = this.find(id)
+        if (!user) {
+            return undefined
+        }
+        return {
+            ...pick(user, ['id', 'role', 'disabled_at', 'password_reset_required', 'session_version']),
+            permissions: [...(this.tables.role_permissions[user.role] ?? [])]
+        }
+    }
+
+    async searchUsers(filters: { search?: string; role?: string; disabled?: boolean; limit: number; offset: number }) {
+        const matching = this.tables.users
+            .filter((user) => !filters.search || user.email.toLowerCase().includes(filters.search.toLowerCase()))
+            .filter((user) => !filters.role || user.role === filters.role)
+            .filter((user) => filters.disabled === undefined || (user.disabled_at !== null) === filters.disabled)
+            .sort((a, b) => a.id - b.id)
+        return {
+            users: matching.slice(filters.offset, filters.offset + filters.limit).map((user) => pick(user, MANAGED_USER_COLUMNS)),
+            total: matching.length
+        }
+    }
+
+    async getManagedUser(id: number) {
+        const user = this.find(id)
+        return user && pick(user, MANAGED_USER_COLUMNS)
+    }
+
+    async setUserDisabled(id: number, reason: string | null) {
+        return this.update(id, (user) => ({ disabled_at: reason === null ? null : (user.disabled_at ?? new Date()), disabled_reason: reason }))
+    }
+
+    async requirePasswordReset(id: number) {
+        return this.update(id, () => ({ password_reset_required: true }))
+    }
+
+    async setUserRole(id: number, role: string) {
+        return this.update(id, () => ({ role }))
+    }
+
+    private update(id: number, change: (user: any) => Record<string, any>) {
+        const user = this.find(id)
+        if (!user) {
+            return undefined
+        }
+        Object.assign(user, change(user))
+        return pick(user, MANAGED_USER_COLUMNS)
+    }
+
+    async getUserForUpdate(id: number) {
+        const user = this.find(id)
+        return user && { ...user }
+    }
+
+    async updateUserBalance(userId: number, newBalance: number) {
+        const user = this.find(userId)
+        if (!user) {
+            return toResult([])
+        }
+        user.balance = newBalance
+        return toResult([pick(user, ['id', 'balance', 'email'])])
+    }
+
+    async incrementSessionVersion(userId: number) {
+        const user = this.find(userId)
+        if (!user) {
+            return undefined
+        }
+        user.session_version += 1
+        return user.session_version
+    }
+
+    async updateUserCurrency(userId: number, currency: string) {
+        const user = this.find(userId)
+        if (!user) {
+            return toResult([])
+        }
+        user.currency = currency
+        return toResult([pick(user, ['id', 'balance', 'currency'])])
+    }
+
+    async getUserByEmail(email: string) {
+        const user = this.tables.users.find((row) => row.email === email)
+        return toResult(user ? [pick(user, ['id', 'balance', 'email', 'password', 'disabled_at', 'email_verified_at'])] : [])
+    }
+
+    async createUser(payload: { email: string; password: string; currency: string }) {
+        if (this.tables.users.some((user) => user.email === payload.email)) {
+            throw uniqueViolation('users_email_key')
+        }
+        const user = this.insertUser({ ...payload, email_verified_at: null })
+        return pick(user, ['id', 'email', 'balance', 'currency', 'role', 'email_verified_at'])
+    }
+
+    async markEmailVerified(id: number) {
+        const user = this.find(id)
+        if (user) {
+            user.email_verified_at = user.email_verified_at ?? new Date()
+        }
+        return toResult([])
+    }
+
+    async getUserCredentialsById(id: number) {
+        const user = this.find(id)
+        return toResult(user ? [pick(user, ['id', 'email', 'password'])] : [])
+    }
+
+    async changePassword(userId: number, newPassword: string) {
+        const user = this.find(userId)
+        if (!user) {
+            return toResult([])
+        }
+        user.password = bcrypt.hashSync(newPassword, salt)
+        user.password_reset_required = false
+        return toResult([pick(user, ['id', 'balance', 'email'])])
+    }
+}
@@ -0,0 +1,75 @@
+import { pool } from '../config/db.config'
+
+class OrdersRepository {
+    constructor(private repository: any = pool) {}
+
+    /**
+     * Returns a repository bound to the client of a running transaction.
+     *
+     * @param tx - The transaction client provided by `withTransaction`.
+     * @returns A OrdersRepository whose queries run inside the transaction.
+     */
+    forTransaction(tx: any) {
+        return new OrdersRepository(tx)
+    }
+
+    /**
+     * Records a completed purchase of an item by a user.
+     *
+     * @param payload - The order data: buyer, purchased item, the bought variant, the charged price and its currency,
+     *                  the price in the base currency and the exchange rate the price was converted with, `null` for the base currency.
+     * @returns A promise that resolves to the created order row.
+     */
+    async createOrder(payload: {
+        userId: number
+        itemId: number
+        price: number
+        tradable: boolean
+        currency: string
+        basePrice: number
+        exchangeRateId: number | null
+    }) {
+        const { userId, itemId, price, tradable, currency, basePrice, exchangeRateId } = payload
+        const response = await this.repository.query(
+            'INSERT INTO orders (user_id, item_id, price, tradable, currency, base_price, exchange_rate_id) VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING *',
+            [userId, itemId, price, tradable, currency, basePrice, exchangeRateId]
+        )
+        return response.rows[0]
+    }
+
+    /**
+     * Retrieves an order by its ID.
+     *
+     * @param id - The ID of the order.
+     * @returns A promise that resolves to the order row, or `undefined` if it does not exist.
+     */
+    async getOrderById(id: number) {
+        const response = await this.repository.query('SELECT * FROM orders WHERE id = $1', [id])
+        return response.rows[0]
+    }
+
+    /**
+     * Retrieves an order by its ID, locking the selected row.
+     *
+     * @param id - The ID of the order.
+     * @returns A promise that resolves to the order row, or `undefined` if it does not exist.
+     */
+    async getOrderForUpdate(id: number) {
+        const response = await this.repository.query('SELECT * FROM orders WHERE id = $1 FOR UPDATE', [id])
+        return response.rows[0]
+    }
+
+    /**
+     * Changes the status of an order.
+     *
+     * @param id - The ID of the order.
+     * @param status - The new status, e.g. `refunded`.
+     * @returns A promise that resolves to the updated order row.
+     */
+    async updateOrderStatus(id: number, status: string) {
+        const response = await this.repository.query('UPDATE orders SET status = $1 WHERE id = $2 RETURNING *', [status, id])
+        return response.rows[0]
+    }
+}
+
+export default new OrdersRepository()
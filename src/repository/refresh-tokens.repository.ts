@@ -0,0 +1,92 @@
+import { pool } from '../config/db.config'
+
+class RefreshTokensRepository {
+    constructor(private repository: any = pool) {}
+
+    /**
+     * Returns a repository bound to the client of a running transaction.
+     *
+     * @param tx - The transaction client provided by `withTransaction`.
+     * @returns A RefreshTokensRepository whose queries run inside the transaction.
+     */
+    forTransaction(tx: any) {
+        return new RefreshTokensRepository(tx)
+    }
+
+    /**
+     * Stores a new refresh token.
+     *
+     * @param payload - The owner, the token family, the SHA-256 hash of the token and its expiry.
+     * @returns A promise that resolves to the created row.
+     */
+    async createToken(payload: { userId: number; familyId: string; tokenHash: string; expiresAt: Date }) {
+        const { userId, familyId, tokenHash, expiresAt } = payload
+        const response = await this.repository.query(
+            'INSERT INTO refresh_tokens (user_id, family_id, token_hash, expires_at) VALUES ($1, $2, $3, $4) RETURNING *',
+            [userId, familyId, tokenHash, expiresAt]
+        )
+        return response.rows[0]
+    }
+
+    /**
+     * Retrieves a refresh token by its hash, locking the selected row.
+     *
+     * @param tokenHash - The SHA-256 hash of the token.
+     * @returns A promise that resolves to the token row, or `undefined` if it is unknown.
+     */
+    async getTokenByHashForUpdate(tokenHash: string) {
+        const response = await this.repository.query('SELECT * FROM refresh_tokens WHERE token_hash = $1 FOR UPDATE', [tokenHash])
+        return response.rows[0]
+    }
+
+    /**
+     * Marks a refresh token as rotated.
+     *
+     * @param id - The ID of the rotated token.
+     * @param replacedBy - The ID of the token issued in its place.
+     * @returns A promise that resolves to the query result.
+     */
+    async markTokenUsed(id: number, replacedBy: number) {
+        return await this.repository.query('UPDATE refresh_tokens SET used_at = NOW(), replaced_by = $2 WHERE id = $1', [id, replacedBy])
+    }
+
+    /**
+     * Revokes every token of a family that is not revoked yet.
+     *
+     * @param familyId - The token family.
+     * @returns A promise that resolves to the number of revoked tokens.
+     */
+    async revokeFamily(familyId: string) {
+        const response = await this.repository.query('UPDATE refresh_tokens SET revoked_at = NOW() WHERE family_id = $1 AND revoked_at IS NULL', [familyId])
+        return response.rowCount
+    }
+
+    /**
+     * Revokes the family of a token if the token belongs to the user.
+     *
+     * @param tokenHash - The SHA-256 hash of any token of the family.
+     * @param userId - The ID of the user the token must belong to.
+     * @returns A promise that resolves to the number of revoked tokens.
+     */
+    async revokeFamilyByTokenHash(tokenHash: string, userId: number) {
+        const response = await this.repository.query(
+            `UPDATE refresh_tokens SET revoked_at = NOW()
+            WHERE family_id = (SELECT family_id FROM refresh_tokens WHERE token_hash = $1 AND user_id = $2) AND revoked_at IS NULL`,
+            [tokenHash, userId]
+        )
+        return response.rowCount
+    }
+
+    /**
+     * Revokes every token of a user that is not revoked yet.
+     *
+     * @param userId - The ID of the user.
+     * @returns A promise that resolves to the number of revoked tokens.
+     */
+    async revokeUserTokens(userId: number) {
+        const response = await this.repository.query('UPDATE refresh_tokens SET revoked_at = NOW() WHERE user_id = $1 AND revoked_at IS NULL', [userId])
+        return response.rowCount
+    }
+}
+
+export default new RefreshTokensRepository()
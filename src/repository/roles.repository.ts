@@ -0,0 +1,52 @@
+import { pool } from '../config/db.config'
+
+class RolesRepository {
+    constructor(private repository: any = pool) {}
+
+    /**
+     * Returns a repository bound to the client of a running transaction.
+     *
+     * @param tx - The transaction client provided by `withTransaction`.
+     * @returns A RolesRepository whose queries run inside the transaction.
+     */
+    forTransaction(tx: any) {
+        return new RolesRepository(tx)
+    }
+
+    /**
+     * Retrieves every role together with the permissions it grants.
+     *
+     * @returns A promise that resolves to the roles, each with its name, description and permission names.
+     */
+    async getRoles() {
+        const response = await this.repository.query(
+            `SELECT roles.name, roles.description,
+            COALESCE(array_agg(role_permissions.permission ORDER BY role_permissions.permission) FILTER (WHERE role_permissions.permission IS NOT NULL), '{}') AS permissions
+            FROM roles
+            LEFT JOIN role_permissions ON role_permissions.role = roles.name
+            GROUP BY roles.name
+            ORDER BY roles.name`
+        )
+        return response.rows
+    }
+
+    /**
+     * Retrieves the permissions granted by a role.
+     *
+     * @param name - The name of the role.
+     * @returns A promise that resolves to the permission names, or `undefined` if the role does not exist.
+     */
+    async getRolePermissions(name: string): Promise<string[] | undefined> {
+        const response = await this.repository.query(
+            `SELECT COALESCE(array_agg(role_permissions.permission ORDER BY role_permissions.permission) FILTER (WHERE role_permissions.permission IS NOT NULL), '{}') AS permissions
+            FROM roles
+            LEFT JOIN role_permissions ON role_permissions.role = roles.name
+            WHERE roles.name = $1
+            GROUP BY roles.name`,
+            [name]
+        )
+        return response.rows[0]?.permissions
+    }
+}
+
+export default new RolesRepository()
@@ -1,82 +1,208 @@
-import { client } from '../config/db.config'
+import { pool } from '../config/db.config'
+
+// Arbitrary application-wide key, every process syncing the catalog takes the same lock
+const CATALOG_SYNC_LOCK_KEY = 72540174
+
+// Manual price overrides take precedence over the synced prices
+const PRICE_TRADABLE = 'COALESCE(items.price_override_tradable, items.min_price_tradable)'
+const PRICE_NON_TRADABLE = 'COALESCE(items.price_override_non_tradable, items.min_price_non_tradable)'
+
+// Columns an admin may set when creating or updating a skin
+const EDITABLE_COLUMNS = ['name', 'market_hash_name', 'min_price_tradable', 'min_price_non_tradable', 'price_override_tradable', 'price_override_non_tradable', 'hidden']
+
+type CatalogSort = 'name' | 'price_tradable' | 'price_non_tradable'
+
+/**
+ * Builds the effective price of a skin in a non-base currency. Overrides are set in the base currency and are converted,
+ * then comes the price synced in the currency (`ip` is the joined `item_prices` row), then the converted base price.
+ *
+ * @param kind - `tradable` or `non_tradable`.
+ * @param rate - The SQL parameter holding the exchange rate from the base currency.
+ */
+const convertedPrice = (kind: 'tradable' | 'non_tradable', rate: string) =>
+    `COALESCE(ROUND((items.price_override_${kind} * ${rate}::numeric)::numeric, 2)::float8, ip.min_price_${kind}, ROUND((items.min_price_${kind} * ${rate}::numeric)::numeric, 2)::float8)`
+
+/**
+ * Returns the SQL expression a catalog sort orders by. Missing prices sort last in both directions.
+ */
+const sortExpression = (sort: CatalogSort, order: 'asc' | 'desc', prices: { tradable: string; nonTradable: string }) => {
+    const missing = order === 'asc' ? "'Infinity'" : "'-Infinity'"
+    switch (sort) {
+        case 'price_tradable':
+            return { expression: `COALESCE(${prices.tradable}, ${missing})`, type: 'float8' }
+        case 'price_non_tradable':
+            return { expression: `COALESCE(${prices.nonTradable}, ${missing})`, type: 'float8' }
+        default:
+            return { expression: "COALESCE(name, '')", type: 'text' }
+    }
+}
+
+export interface SkinFields {
+    name: string
+    market_hash_name: string | null
+    min_price_tradable: number | null
+    min_price_non_tradable: number | null
+    price_override_tradable: number | null
+    price_override_non_tradable: number | null
+    hidden: boolean
+}
+
+export interface CatalogQuery {
+    limit: number
+    after?: { value: string; id: number }
+    search?: string
+    prefix?: string
+    minPriceTradable?: number
+    maxPriceTradable?: number
+    minPriceNonTradable?: number
+    maxPriceNonTradable?: number
+    tradableOnly?: boolean
+    sort: CatalogSort
+    order: 'asc' | 'desc'
+    // Set to list prices in a non-base currency, `rate` converts from the base currency
+    conversion?: { currency: string; rate: number }
+}
 
 class SkinsRepository {
-    constructor(private repository: any = client) {}
+    constructor(private repository: any = pool) {}
 
     /**
-     * Retrieves a list of skins from the database with optional pagination.
+     * Returns a repository bound to the client of a running transaction.
      *
-     * @param {number} [limit] - The maximum number of skins to retrieve.
-     * @param {number} [offset] - The number of skins to skip before starting to retrieve.
-     * @returns {Promise<any[]>} A promise that resolves to an array of skins.
+     * @param tx - The transaction client provided by `withTransaction`.
+     * @returns A SkinsRepository whose queries run inside the transaction.
      */
-    async getSkins(limit?: number, offset?: number) {
-        let query = 'SELECT name, min_price_non_tradable, min_price_tradable FROM items'
-        const params: any[] = []
+    forTransaction(tx: any) {
+        return new SkinsRepository(tx)
+    }
 
-        if (limit) {
-            params.push(limit)
-            query += ` LIMIT $${params.length}`
-        }
+    /**
+     * Retrieves a page of listed skins matching the catalog query, using keyset pagination.
+     * The returned prices include price overrides and are in the currency of `query.conversion`, or in the base currency.
+     *
+     * @param query - The filters, the sort and the page size. `after` is the sort value and ID of the last skin of the previous page.
+     * @returns {Promise<any[]>} A promise that resolves to an array of skins, each with the `sort_value` used for the next cursor.
+     */
+    async getSkins(query: CatalogQuery) {
+        const { from, prices, conditions, params } = this.buildCatalogFilters(query)
+        const { expression, type } = sortExpression(query.sort, query.order, prices)
 
-        if (offset) {
-            params.push(offset)
-            query += ` OFFSET $${params.length}`
+        if (query.after) {
+            params.push(query.after.value, query.after.id)
+            conditions.push(`(${expression}, items.id) ${query.order === 'asc' ? '>' : '<'} ($${params.length - 1}::${type}, $${params.length}::int)`)
         }
 
-        return await this.repository.query(query, params)
+        params.push(query.limit)
+        return await this.repository.query(
+            `SELECT items.id, name, ${prices.nonTradable} AS min_price_non_tradable, ${prices.tradable} AS min_price_tradable, ${expression} AS sort_value FROM ${from}
+            WHERE ${conditions.join(' AND ')}
+            ORDER BY ${expression} ${query.order}, items.id ${query.order}
+            LIMIT $${params.length}`,
+            params
+        )
     }
 
     /**
-     * Retrieves a skin by its ID from the database.
+     * Counts the listed skins matching the filters of a catalog query, regardless of pagination.
      *
-     * @param id - The unique identifier of the skin.
-     * @returns A promise that resolves to the skin data.
+     * @param query - The catalog query.
+     * @returns {Promise<number>} A promise that resolves to the number of matching skins.
      */
-    async getSkinById(id: number) {
-        return await this.repository.query('SELECT * FROM items WHERE id = $1', [id])
+    async countSkins(query: CatalogQuery) {
+        const { from, conditions, params } = this.buildCatalogFilters(query)
+        const response = await this.repository.query(`SELECT COUNT(*)::int AS total FROM ${from} WHERE ${conditions.join(' AND ')}`, params)
+        return response.rows[0].total
     }
 
     /**
-     * Initiates a database transaction by executing the 'BEGIN' SQL command.
-     * 
-     * @returns {Promise<any>} A promise that resolves when the transaction begins successfully.
+     * Translates the currency and the filters of a catalog query into SQL.
+     * Delisted, hidden and deleted skins are always excluded, price filters apply to the prices including overrides
+     * in the requested currency.
+     *
+     * @param query - The catalog query.
+     * @returns The `FROM` clause, the price expressions, the conditions to join with `AND` and their parameters.
      */
-    async begin() {
-        return await this.repository.query('BEGIN')
+    private buildCatalogFilters(query: CatalogQuery) {
+        const conditions = ['delisted_at IS NULL', 'NOT hidden', 'deleted_at IS NULL']
+        const params: any[] = []
+        const escapeLike = (value: string) => value.replace(/[\\%_]/g, '\\$&')
+        let from = 'items'
+        let prices = { tradable: PRICE_TRADABLE, nonTradable: PRICE_NON_TRADABLE }
+
+        if (query.conversion) {
+            params.push(query.conversion.currency, query.conversion.rate)
+            from = 'items LEFT JOIN item_prices ip ON ip.item_id = items.id AND ip.currency = $1'
+            prices = { tradable: convertedPrice('tradable', '$2'), nonTradable: convertedPrice('non_tradable', '$2') }
+        }
+
+        if (query.search) {
+            params.push(`%${escapeLike(query.search)}%`)
+            conditions.push(`name ILIKE $${params.length}`)
+        }
+
+        if (query.prefix) {
+            params.push(`${escapeLike(query.prefix)}%`)
+            conditions.push(`name ILIKE $${params.length}`)
+        }
+
+        const ranges: Array<[number | undefined, string]> = [
+            [query.minPriceTradable, `${prices.tradable} >=`],
+            [query.maxPriceTradable, `${prices.tradable} <=`],
+            [query.minPriceNonTradable, `${prices.nonTradable} >=`],
+            [query.maxPriceNonTradable, `${prices.nonTradable} <=`]
+        ]
+        ranges.forEach(([value, condition]) => {
+            if (value !== undefined) {
+                params.push(value)
+                conditions.push(`${condition} $${params.length}`)
+            }
+        })
+
+        if (query.tradableOnly) {
+            conditions.push(`${prices.tradable} IS NOT NULL`)
+        }
+
+        return { from, prices, conditions, params }
     }
 
     /**
-     * Rolls back the current transaction.
-     *
-     * This method executes a 'ROLLBACK' SQL query to undo any changes made during the current transaction.
+     * Retrieves a skin by its ID from the database.
      *
-     * @returns {Promise<any>} A promise that resolves when the rollback is complete.
+     * @param id - The unique identifier of the skin.
+     * @returns A promise that resolves to the skin data.
      */
-    async rollBack() {
-        return await this.repository.query('ROLLBACK')
+    async getSkinById(id: number) {
+        return await this.repository.query('SELECT * FROM items WHERE id = $1', [id])
     }
 
     /**
-     * Commits the current transaction.
+     * Retrieves a skin by its ID as customers see it: hidden and deleted skins are not returned
+     * and the prices include price overrides.
      *
-     * @returns {Promise<any>} A promise that resolves when the commit is successful.
+     * @param id - The unique identifier of the skin.
+     * @returns A promise that resolves to the skin, or `undefined` if it does not exist or is not visible.
      */
-    async commit() {
-        return await this.repository.query('COMMIT')
+    async getVisibleSkinById(id: number) {
+        const response = await this.repository.query(
+            `SELECT id, name, market_hash_name, ${PRICE_NON_TRADABLE} AS min_price_non_tradable, ${PRICE_TRADABLE} AS min_price_tradable, delisted_at
+            FROM items WHERE id = $1 AND NOT hidden AND deleted_at IS NULL`,
+            [id]
+        )
+        return response.rows[0]
     }
 
     /**
      * Retrieves a skin for update by its ID.
-     * Executes a SQL query to select the name, minimum non-tradable price, and minimum tradable price
-     * of the item with the specified ID, locking the row for update.
+     * Executes a SQL query to select the id, name, minimum non-tradable and tradable prices (price overrides included),
+     * the delisting time and the curation flags of the item with the specified ID, locking the row for update.
      *
      * @param {number} id - The ID of the skin to retrieve.
      * @returns {Promise<any>} A promise that resolves to the skin data. If more than one row is returned,
      *                         it returns an array of rows; otherwise, it returns a single row.
      */
     async getSkinForUpdate(id: number) {
-        const response = await this.repository.query('SELECT name, min_price_non_tradable, min_price_tradable FROM items WHERE id = $1 FOR UPDATE', [id])
+        const response = await this.repository.query(`SELECT id, name, ${PRICE_NON_TRADABLE} AS min_price_non_tradable, ${PRICE_TRADABLE} AS min_price_tradable, delisted_at, hidden, deleted_at
+            FROM items WHERE id = $1 FOR UPDATE`, [id])
         if (response.rows.length > 1) {
             return response.rows
         }
@@ -84,82 +210,294 @@ class SkinsRepository {
     }
 
     /**
-     * Updates the fields of a skin in the database.
+     * Retrieves the prices of a skin in a non-base currency, computed like the catalog shows them:
+     * a converted price override first, then the price synced in the currency, then the converted base price.
      *
-     * @param id - The unique identifier of the skin to be updated.
-     * @param payload - An object containing the fields to be updated. 
-     *                  It can include `name`, `min_price_non_tradable`, and `min_price_tradable`.
-     * @returns A promise that resolves to the updated skin object.
+     * @param id - The ID of the skin.
+     * @param conversion - The currency and the exchange rate from the base currency.
+     * @returns A promise that resolves to the minimum non-tradable and tradable prices, or `undefined` if the skin does not exist.
      */
-    async updateSkinFields(id: number, payload: Partial<{ name: string; min_price_non_tradable: number; min_price_tradable: number }>) {
-        const { name, min_price_non_tradable, min_price_tradable } = payload
+    async getPricesInCurrency(id: number, conversion: { currency: string; rate: number }) {
         const response = await this.repository.query(
-            '\
-            UPDATE skins SET name = $1,\
-            min_price_non_tradable = $2,\
-            min_price_tradable = $3\
-            WHERE id = $4\
-            RETURNING *',
-            [name, min_price_non_tradable, min_price_tradable, id]
+            `SELECT ${convertedPrice('non_tradable', '$3')} AS min_price_non_tradable, ${convertedPrice('tradable', '$3')} AS min_price_tradable
+            FROM items LEFT JOIN item_prices ip ON ip.item_id = items.id AND ip.currency = $2
+            WHERE items.id = $1`,
+            [id, conversion.currency, conversion.rate]
         )
         return response.rows[0]
     }
 
     /**
-     * Creates the `items` table in the database if it does not already exist.
-     * The table includes the following columns:
-     * - `id`: A serial primary key.
-     * - `name`: A variable character field with a maximum length of 255.
-     * - `min_price_non_tradable`: A float representing the minimum price for non-tradable items.
-     * - `min_price_tradable`: A float representing the minimum price for tradable items.
+     * Creates a skin manually.
      *
-     * @returns {Promise<void>} A promise that resolves when the table is created.
+     * @param payload - The fields of the new skin, `name` is required.
+     * @returns A promise that resolves to the created skin object.
      */
-    async createTable() {
-        await this.repository.query(
-            'CREATE TABLE IF NOT EXISTS items (id SERIAL PRIMARY KEY, name VARCHAR(255), min_price_non_tradable FLOAT, min_price_tradable FLOAT)'
+    async createSkin(payload: Partial<SkinFields> & { name: string }) {
+        const columns = EDITABLE_COLUMNS.filter((column) => payload[column as keyof SkinFields] !== undefined)
+        const response = await this.repository.query(
+            `INSERT INTO items (${columns.join(', ')}) VALUES (${columns.map((_, index) => `$${index + 1}`).join(', ')}) RETURNING *`,
+            columns.map((column) => payload[column as keyof SkinFields])
         )
+        return response.rows[0]
+    }
+
+    /**
+     * Updates the fields of a skin in the database. Only the provided fields change,
+     * `null` clears a nullable field such as a price override.
+     *
+     * @param id - The unique identifier of the skin to be updated.
+     * @param payload - An object containing the fields to be updated.
+     * @returns A promise that resolves to the updated skin object, or `undefined` if the skin does not exist or is deleted.
+     */
+    async updateSkinFields(id: number, payload: Partial<SkinFields>) {
+        const columns = EDITABLE_COLUMNS.filter((column) => payload[column as keyof SkinFields] !== undefined)
+        if (!columns.length) {
+            const response = await this.repository.query('SELECT * FROM items WHERE id = $1 AND deleted_at IS NULL', [id])
+            return response.rows[0]
+        }
+        const response = await this.repository.query(
+            `UPDATE items SET ${columns.map((column, index) => `${column} = $${index + 1}`).join(', ')}
+            WHERE id = $${columns.length + 1} AND deleted_at IS NULL
+            RETURNING *`,
+            [...columns.map((column) => payload[column as keyof SkinFields]), id]
+        )
+        return response.rows[0]
+    }
+
+    /**
+     * Soft-deletes a skin. The row is kept so orders and inventory keep referencing it.
+     *
+     * @param id - The unique identifier of the skin.
+     * @returns A promise that resolves to the deleted skin object, or `undefined` if the skin does not exist or is already deleted.
+     */
+    async deleteSkin(id: number) {
+        const response = await this.repository.query('UPDATE items SET deleted_at = NOW() WHERE id = $1 AND deleted_at IS NULL RETURNING *', [id])
+        return response.rows[0]
     }
 
     /**
-     * Inserts an array of skins into the database in bulk, using batch processing.
+     * Inserts or updates an array of skins in bulk, using batch processing.
+     * Skins are matched by `market_hash_name`; matched rows get the new prices and are listed again if they were delisted.
      * 
-     * @param skins - An array of skin objects to be inserted. Each object should have the following properties:
+     * @param skins - An array of skin objects to be upserted, unique by `market_hash_name`. Each object should have the following properties:
+     *  - `market_hash_name`: The upstream identifier of the skin.
      *  - `name`: The name of the skin.
      *  - `min_price_non_tradable`: The minimum price of the skin when it is non-tradable.
      *  - `min_price_tradable`: The minimum price of the skin when it is tradable.
-     * @param batchSize - The number of skins to insert per batch. Defaults to 500.
+     * @param syncedAt - The time of the sync, stored as `last_synced_at`.
+     * @param batchSize - The number of skins to upsert per batch. Defaults to 500.
+     * @returns The number of upserted rows.
      * 
-     * @throws Will throw an error if the batch insert fails.
+     * @throws Will throw an error if the batch upsert fails.
      */
-    async bulkInsertSkins(skins: { name: string; min_price_non_tradable: number; min_price_tradable: number }[], batchSize: number = 500) {
-        if (skins.length === 0) {
-            return
-        }
-
+    async upsertSkins(
+        skins: { market_hash_name: string; name: string; min_price_non_tradable: number | null; min_price_tradable: number | null }[],
+        syncedAt: Date,
+        batchSize: number = 500
+    ) {
+        let upserted = 0
         const chunkedSkins = this.chunkArray(skins, batchSize)
 
         for (const chunk of chunkedSkins) {
-            const valueStrings = chunk.map((_, index) => `($${index * 3 + 1}, $${index * 3 + 2}, $${index * 3 + 3})`).join(', ')
+            const valueStrings = chunk
+                .map((_, index) => `($${index * 4 + 2}, $${index * 4 + 3}, $${index * 4 + 4}, $${index * 4 + 5}, $1::timestamptz)`)
+                .join(', ')
 
-            const values: Array<string | number> = []
-            chunk.forEach(({ name, min_price_non_tradable, min_price_tradable }) => {
-                values.push(name, min_price_non_tradable, min_price_tradable)
+            const values: Array<string | number | null | Date> = [syncedAt]
+            chunk.forEach(({ market_hash_name, name, min_price_non_tradable, min_price_tradable }) => {
+                values.push(market_hash_name, name, min_price_non_tradable, min_price_tradable)
             })
 
             const query = `
-                INSERT INTO items (name, min_price_non_tradable, min_price_tradable)
+                INSERT INTO items (market_hash_name, name, min_price_non_tradable, min_price_tradable, last_synced_at)
                 VALUES ${valueStrings}
-                RETURNING *
+                ON CONFLICT (market_hash_name) DO UPDATE SET
+                name = EXCLUDED.name,
+                min_price_non_tradable = EXCLUDED.min_price_non_tradable,
+                min_price_tradable = EXCLUDED.min_price_tradable,
+                last_synced_at = EXCLUDED.last_synced_at,
+                delisted_at = NULL
             `
 
             try {
-                await this.repository.query(query, values)
+                const response = await this.repository.query(query, values)
+                upserted += response.rowCount
             } catch (error) {
-                console.error('Batch insert failed', error)
+                console.error('Batch upsert failed', error)
                 throw error
             }
         }
+
+        return upserted
+    }
+
+    /**
+     * Stores the prices of synced skins in a non-base currency. Skins are matched by `market_hash_name`,
+     * so the base currency must have been upserted first; prices of unknown skins are ignored.
+     *
+     * @param currency - The currency of the prices.
+     * @param prices - The prices, unique by `market_hash_name`.
+     * @param syncedAt - The time of the sync, stored as `updated_at`.
+     * @param batchSize - The number of prices to upsert per batch. Defaults to 500.
+     * @returns The number of upserted rows.
+     */
+    async upsertItemPrices(
+        currency: string,
+        prices: { market_hash_name: string; min_price_non_tradable: number | null; min_price_tradable: number | null }[],
+        syncedAt: Date,
+        batchSize: number = 500
+    ) {
+        let upserted = 0
+
+        for (const chunk of this.chunkArray(prices, batchSize)) {
+            const valueStrings = chunk.map((_, index) => `($${index * 3 + 3}::text, $${index * 3 + 4}::float8, $${index * 3 + 5}::float8)`).join(', ')
+            const values: Array<string | number | null | Date> = [currency, syncedAt]
+            chunk.forEach(({ market_hash_name, min_price_non_tradable, min_price_tradable }) => {
+                values.push(market_hash_name, min_price_non_tradable, min_price_tradable)
+            })
+
+            const response = await this.repository.query(
+                `INSERT INTO item_prices (item_id, currency, min_price_non_tradable, min_price_tradable, updated_at)
+                SELECT items.id, $1, prices.min_price_non_tradable, prices.min_price_tradable, $2
+                FROM (VALUES ${valueStrings}) AS prices (market_hash_name, min_price_non_tradable, min_price_tradable)
+                JOIN items ON items.market_hash_name = prices.market_hash_name
+                ON CONFLICT (item_id, currency) DO UPDATE SET
+                min_price_non_tradable = EXCLUDED.min_price_non_tradable,
+                min_price_tradable = EXCLUDED.min_price_tradable,
+                updated_at = EXCLUDED.updated_at`,
+                values
+            )
+            upserted += response.rowCount
+        }
+
+        return upserted
+    }
+
+    /**
+     * Removes the prices in a currency that the sync at `syncedAt` did not return,
+     * the catalog then falls back to converting the base price.
+     *
+     * @param currency - The currency of the prices.
+     * @param syncedAt - The time of the sync that just upserted the prices.
+     * @returns The number of removed prices.
+     */
+    async deleteStaleItemPrices(currency: string, syncedAt: Date) {
+        const response = await this.repository.query('DELETE FROM item_prices WHERE currency = $1 AND updated_at < $2', [currency, syncedAt])
+        return response.rowCount
+    }
+
+    /**
+     * Marks synced skins that were not returned by the sync at `syncedAt` as delisted.
+     *
+     * @param syncedAt - The time of the sync that just upserted the current catalog.
+     * @returns The number of skins that were delisted.
+     */
+    async markDelistedSkins(syncedAt: Date) {
+        const response = await this.repository.query(
+            `UPDATE items SET delisted_at = $1
+            WHERE market_hash_name IS NOT NULL AND delisted_at IS NULL AND (last_synced_at IS NULL OR last_synced_at < $1)`,
+            [syncedAt]
+        )
+        return response.rowCount
+    }
+
+    /**
+     * Appends the current prices of every skin returned by the sync at `syncedAt` to the price history.
+     *
+     * @param syncedAt - The time of the sync, used as the snapshot time.
+     * @returns The number of recorded snapshots.
+     */
+    async recordPriceSnapshots(syncedAt: Date) {
+        const response = await this.repository.query(
+            `INSERT INTO price_history (item_id, min_price_tradable, min_price_non_tradable, recorded_at)
+            SELECT id, min_price_tradable, min_price_non_tradable, $1 FROM items WHERE last_synced_at = $1`,
+            [syncedAt]
+        )
+        return response.rowCount
+    }
+
+    /**
+     * Aggregates the price history of a skin into time buckets.
+     *
+     * @param id - The ID of the skin.
+     * @param interval - The bucket size, `hour` or `day`.
+     * @param from - The inclusive start of the range.
+     * @param to - The exclusive end of the range.
+     * @returns A promise that resolves to one row per bucket with the min, avg and max of both prices and the number of snapshots.
+     */
+    async getPriceHistory(id: number, interval: 'hour' | 'day', from: Date, to: Date) {
+        const response = await this.repository.query(
+            `SELECT date_trunc($2::text, recorded_at) AS bucket,
+            MIN(min_price_tradable) AS min_tradable,
+            ROUND(AVG(min_price_tradable)::numeric, 2) AS avg_tradable,
+            MAX(min_price_tradable) AS max_tradable,
+            MIN(min_price_non_tradable) AS min_non_tradable,
+            ROUND(AVG(min_price_non_tradable)::numeric, 2) AS avg_non_tradable,
+            MAX(min_price_non_tradable) AS max_non_tradable,
+            COUNT(*)::int AS samples
+            FROM price_history
+            WHERE item_id = $1 AND recorded_at >= $3 AND recorded_at < $4
+            GROUP BY 1
+            ORDER BY 1`,
+            [id, interval, from, to]
+        )
+        return response.rows
+    }
+
+    /**
+     * Retrieves the latest price snapshot of a skin recorded at or before the given time.
+     *
+     * @param id - The ID of the skin.
+     * @param at - The point in time.
+     * @returns A promise that resolves to the snapshot, or `undefined` if there is none.
+     */
+    async getPriceSnapshotAt(id: number, at: Date) {
+        const response = await this.repository.query(
+            `SELECT min_price_tradable, min_price_non_tradable, recorded_at FROM price_history
+            WHERE item_id = $1 AND recorded_at <= $2
+            ORDER BY recorded_at DESC LIMIT 1`,
+            [id, at]
+        )
+        return response.rows[0]
+    }
+
+    /**
+     * Tries to take the transaction-scoped advisory lock that guards the catalog sync,
+     * so only one process syncs the catalog at a time. Must be called inside a transaction.
+     *
+     * @returns {Promise<boolean>} A promise that resolves to `true` if the lock was taken.
+     */
+    async tryLockCatalogSync() {
+        const response = await this.repository.query('SELECT pg_try_advisory_xact_lock($1) AS locked', [CATALOG_SYNC_LOCK_KEY])
+        return response.rows[0].locked
+    }
+
+    /**
+     * Records the start of a catalog sync run.
+     *
+     * @returns A promise that resolves to the created `catalog_sync_runs` row.
+     */
+    async startSyncRun() {
+        const response = await this.repository.query('INSERT INTO catalog_sync_runs DEFAULT VALUES RETURNING *')
+        return response.rows[0]
+    }
+
+    /**
+     * Records the outcome of a catalog sync run.
+     *
+     * @param id - The ID of the sync run.
+     * @param result - The final status (`succeeded`, `partial`, `skipped` or `failed`), the counts and the error message, if any.
+     * @returns A promise that resolves to the updated `catalog_sync_runs` row.
+     */
+    async finishSyncRun(id: number, result: { status: string; fetched?: number; upserted?: number; delisted?: number; error?: string }) {
+        const { status, fetched = null, upserted = null, delisted = null, error = null } = result
+        const response = await this.repository.query(
+            `UPDATE catalog_sync_runs SET finished_at = NOW(), status = $1, fetched_count = $2, upserted_count = $3, delisted_count = $4, error = $5
+            WHERE id = $6 RETURNING *`,
+            [status, fetched, upserted, delisted, error, id]
+        )
+        return response.rows[0]
     }
 
     /**
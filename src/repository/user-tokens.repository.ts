@@ -0,0 +1,57 @@
+import { pool } from '../config/db.config'
+
+export type UserTokenPurpose = 'email_verification' | 'password_reset'
+
+class UserTokensRepository {
+    constructor(private repository: any = pool) {}
+
+    /**
+     * Returns a repository bound to the client of a running transaction.
+     *
+     * @param tx - The transaction client provided by `withTransaction`.
+     * @returns A UserTokensRepository whose queries run inside the transaction.
+     */
+    forTransaction(tx: any) {
+        return new UserTokensRepository(tx)
+    }
+
+    /**
+     * Stores a new single-use token.
+     *
+     * @param payload - The owner, the purpose, the SHA-256 hash of the token and its expiry.
+     * @returns A promise that resolves to the created row.
+     */
+    async createToken(payload: { userId: number; purpose: UserTokenPurpose; tokenHash: string; expiresAt: Date }) {
+        const { userId, purpose, tokenHash, expiresAt } = payload
+        const response = await this.repository.query(
+            'INSERT INTO user_tokens (user_id, purpose, token_hash, expires_at) VALUES ($1, $2, $3, $4) RETURNING *',
+            [userId, purpose, tokenHash, expiresAt]
+        )
+        return response.rows[0]
+    }
+
+    /**
+     * Retrieves a token by its hash and purpose, locking the selected row.
+     *
+     * @param tokenHash - The SHA-256 hash of the token.
+     * @param purpose - The purpose the token must have been issued for.
+     * @returns A promise that resolves to the token row, or `undefined` if it is unknown.
+     */
+    async getTokenByHashForUpdate(tokenHash: string, purpose: UserTokenPurpose) {
+        const response = await this.repository.query('SELECT * FROM user_tokens WHERE token_hash = $1 AND purpose = $2 FOR UPDATE', [tokenHash, purpose])
+        return response.rows[0]
+    }
+
+    /**
+     * Marks every unused token of a user for a purpose as used, e.g. once one of them was redeemed or a new one was sent.
+     *
+     * @param userId - The ID of the user.
+     * @param purpose - The purpose of the tokens.
+     * @returns A promise that resolves to the query result.
+     */
+    async useUserTokens(userId: number, purpose: UserTokenPurpose) {
+        return await this.repository.query('UPDATE user_tokens SET used_at = NOW() WHERE user_id = $1 AND purpose = $2 AND used_at IS NULL', [userId, purpose])
+    }
+}
+
+export default new UserTokensRepository()
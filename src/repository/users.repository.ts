@@ -1,58 +1,146 @@
-import { client } from '../config/db.config'
+import { pool } from '../config/db.config'
 import bcrypt from 'bcryptjs'
 
 const salt = Number(process.env.SALT)
 
+// The columns shown to support staff, never includes the password hash
+const MANAGED_USER_COLUMNS = 'id, email, balance, currency, role, disabled_at, disabled_reason, password_reset_required'
+
 class UsersRepository {
-    constructor(private repository: any = client) {}
+    constructor(private repository: any = pool) {}
+
+    /**
+     * Returns a repository bound to the client of a running transaction.
+     *
+     * @param tx - The transaction client provided by `withTransaction`.
+     * @returns A UsersRepository whose queries run inside the transaction.
+     */
+    forTransaction(tx: any) {
+        return new UsersRepository(tx)
+    }
 
     /**
      * Retrieves a list of users from the database.
      *
      * @returns {Promise<any[]>} A promise that resolves to an array of user objects, 
-     * each containing the user's id, balance, and email.
+     * each containing the user's id, balance, balance currency and email.
      */
     async getUsers() {
-        return await this.repository.query('SELECT id, balance, email FROM users')
+        return await this.repository.query('SELECT id, balance, currency, email FROM users')
     }
 
     /**
      * Retrieves a user by their ID.
      *
      * @param {number} id - The ID of the user to retrieve.
-     * @returns {Promise<any>} A promise that resolves to the user data, including id, balance, and email.
+     * @returns {Promise<any>} A promise that resolves to the user data, including id, balance, balance currency and email.
      */
     async getUserById(id: number) {
-        return await this.repository.query('SELECT id, balance, email FROM users WHERE id = $1', [id])
+        return await this.repository.query('SELECT id, balance, currency, email FROM users WHERE id = $1', [id])
     }
 
     /**
-     * Initiates a database transaction by executing the 'BEGIN' SQL command.
+     * Retrieves what a user is allowed to do: the role, the permissions granted by it and the account state.
      *
-     * @returns {Promise<any>} A promise that resolves when the transaction begins.
+     * @param {number} id - The ID of the user.
+     * @returns {Promise<any>} A promise that resolves to the user's id, role, permissions, `disabled_at`, `password_reset_required`
+     *          and `session_version`, or `undefined` if the user does not exist.
      */
-    async begin() {
-        return await this.repository.query('BEGIN')
+    async getUserAccess(id: number) {
+        const response = await this.repository.query(
+            `SELECT users.id, users.role, users.disabled_at, users.password_reset_required, users.session_version,
+            COALESCE(array_agg(role_permissions.permission ORDER BY role_permissions.permission) FILTER (WHERE role_permissions.permission IS NOT NULL), '{}') AS permissions
+            FROM users
+            LEFT JOIN role_permissions ON role_permissions.role = users.role
+            WHERE users.id = $1
+            GROUP BY users.id`,
+            [id]
+        )
+        return response.rows[0]
     }
 
     /**
-     * Rolls back the current transaction.
+     * Retrieves a page of users for account management, ordered by ID.
      *
-     * This method executes a 'ROLLBACK' SQL query to undo any changes made during the current transaction.
+     * @param filters - An optional case-insensitive substring of the email, the role, the account state and pagination.
+     * @returns A promise that resolves to an object with the users and the total number of matching users.
+     */
+    async searchUsers(filters: { search?: string; role?: string; disabled?: boolean; limit: number; offset: number }) {
+        const conditions = ['TRUE']
+        const params: any[] = []
+
+        if (filters.search) {
+            params.push(`%${filters.search.replace(/[\\%_]/g, '\\$&')}%`)
+            conditions.push(`email ILIKE $${params.length}`)
+        }
+
+        if (filters.role) {
+            params.push(filters.role)
+            conditions.push(`role = $${params.length}`)
+        }
+
+        if (filters.disabled !== undefined) {
+            conditions.push(filters.disabled ? 'disabled_at IS NOT NULL' : 'disabled_at IS NULL')
+        }
+
+        const where = conditions.join(' AND ')
+        const count = await this.repository.query(`SELECT COUNT(*)::int AS total FROM users WHERE ${where}`, params)
+        const users = await this.repository.query(
+            `SELECT ${MANAGED_USER_COLUMNS} FROM users WHERE ${where} ORDER BY id LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+            [...params, filters.limit, filters.offset]
+        )
+
+        return { users: users.rows, total: count.rows[0].total }
+    }
+
+    /**
+     * Retrieves a user with the account management fields.
+     *
+     * @param {number} id - The ID of the user.
+     * @returns {Promise<any>} A promise that resolves to the user, or `undefined` if the user does not exist.
+     */
+    async getManagedUser(id: number) {
+        const response = await this.repository.query(`SELECT ${MANAGED_USER_COLUMNS} FROM users WHERE id = $1`, [id])
+        return response.rows[0]
+    }
+
+    /**
+     * Disables or re-enables an account.
+     *
+     * @param id - The ID of the user.
+     * @param reason - The reason shown to support staff, or `null` to enable the account.
+     * @returns A promise that resolves to the updated user, or `undefined` if the user does not exist.
+     */
+    async setUserDisabled(id: number, reason: string | null) {
+        const response = await this.repository.query(
+            `UPDATE users SET disabled_at = CASE WHEN $2::text IS NULL THEN NULL ELSE COALESCE(disabled_at, NOW()) END, disabled_reason = $2
+            WHERE id = $1 RETURNING ${MANAGED_USER_COLUMNS}`,
+            [id, reason]
+        )
+        return response.rows[0]
+    }
+
+    /**
+     * Requires the user to change the password before using the account again.
      *
-     * @returns {Promise<void>} A promise that resolves when the rollback is complete.
+     * @param id - The ID of the user.
+     * @returns A promise that resolves to the updated user, or `undefined` if the user does not exist.
      */
-    async rollBack() {
-        return await this.repository.query('ROLLBACK')
+    async requirePasswordReset(id: number) {
+        const response = await this.repository.query(`UPDATE users SET password_reset_required = TRUE WHERE id = $1 RETURNING ${MANAGED_USER_COLUMNS}`, [id])
+        return response.rows[0]
     }
 
     /**
-     * Commits the current transaction by executing a 'COMMIT' SQL query.
+     * Changes the role of a user.
      *
-     * @returns {Promise<any>} A promise that resolves when the commit is successful.
+     * @param id - The ID of the user.
+     * @param role - The name of an existing role.
+     * @returns A promise that resolves to the updated user, or `undefined` if the user does not exist.
      */
-    async commit() {
-        return await this.repository.query('COMMIT')
+    async setUserRole(id: number, role: string) {
+        const response = await this.repository.query(`UPDATE users SET role = $2 WHERE id = $1 RETURNING ${MANAGED_USER_COLUMNS}`, [id, role])
+        return response.rows[0]
     }
 
     /**
@@ -72,6 +160,7 @@ class UsersRepository {
 
     /**
      * Updates the balance of a user in the database.
+     * Callers outside `UserService.applyBalanceChange` would bypass the balance ledger.
      *
      * @param userId - The unique identifier of the user whose balance is to be updated.
      * @param newBalance - The new balance to be set for the user.
@@ -82,36 +171,40 @@ class UsersRepository {
     }
 
     /**
-     * Creates the `users` table in the database if it does not already exist.
-     * The table includes the following columns:
-     * - `id`: A serial primary key.
-     * - `balance`: An integer representing the user's balance, which cannot be null.
-     * - `email`: A varchar field for the user's email, which cannot be null.
-     * - `password`: A varchar field for the user's password, which cannot be null.
-     * 
-     * @returns {Promise<void>} A promise that resolves when the table is created.
+     * Invalidates the access tokens issued so far, see `AuthService.revokeAllSessions`.
+     *
+     * @param userId - The ID of the user.
+     * @returns A promise that resolves to the new session version, or `undefined` if the user does not exist.
      */
-    async createTable() {
-        return await this.repository.query(`
-            CREATE TABLE IF NOT EXISTS users (
-            id SERIAL PRIMARY KEY,
-            balance INT NOT NULL,
-            email VARCHAR(255) NOT NULL,
-            password VARCHAR(255) NOT NULL
-        )`)
+    async incrementSessionVersion(userId: number) {
+        const response = await this.repository.query('UPDATE users SET session_version = session_version + 1 WHERE id = $1 RETURNING session_version', [userId])
+        return response.rows[0]?.session_version
     }
 
     /**
-     * Inserts default rows into the users table with predefined balance, email, and hashed password.
+     * Changes the balance currency of a user. The caller converts the balance through the balance ledger first.
+     *
+     * @param userId - The ID of the user.
+     * @param currency - The new balance currency.
+     * @returns A promise that resolves to the result of the update query, which includes the user's id, balance and currency.
+     */
+    async updateUserCurrency(userId: number, currency: string) {
+        return await this.repository.query('UPDATE users SET currency = $1 WHERE id = $2 RETURNING id, balance, currency', [currency, userId])
+    }
+
+    /**
+     * Inserts default rows into the users table with predefined balance, email, and hashed password. Their emails are verified.
+     * The first user is an admin, the last one is a support agent.
      * 
      * @returns {Promise<any>} A promise that resolves when the rows are successfully inserted.
      */
     async insertDefaultRows() {
         return await this.repository.query(`
-            INSERT INTO users (balance, email, password) VALUES
-            (1000, 'test@example.com', '${bcrypt.hashSync('password', salt)}'),
-            (1000, 'test2@example.com', '${bcrypt.hashSync('password', salt)}'),
-            (1000, 'test3@example.com', '${bcrypt.hashSync('password', salt)}')
+            INSERT INTO users (balance, email, password, role, email_verified_at) VALUES
+            (1000, 'test@example.com', '${bcrypt.hashSync('password', salt)}', 'admin', NOW()),
+            (1000, 'test2@example.com', '${bcrypt.hashSync('password', salt)}', 'user', NOW()),
+            (1000, 'test3@example.com', '${bcrypt.hashSync('password', salt)}', 'user', NOW()),
+            (0, 'support@example.com', '${bcrypt.hashSync('password', salt)}', 'support', NOW())
         `)
     }
 
@@ -119,14 +212,50 @@ class UsersRepository {
      * Retrieves a user by their email address.
      *
      * @param email - The email address of the user to retrieve.
-     * @returns A promise that resolves to the user object containing id, balance, email, and password.
+     * @returns A promise that resolves to the user object containing id, balance, email, password, `disabled_at` and `email_verified_at`.
      */
     async getUserByEmail(email: string) {
-        return await this.repository.query('SELECT id, balance, email, password FROM users WHERE email = $1', [email])
+        return await this.repository.query('SELECT id, balance, email, password, disabled_at, email_verified_at FROM users WHERE email = $1', [email])
+    }
+
+    /**
+     * Creates a user with an empty balance and an unverified email.
+     *
+     * @param payload - The lower-cased email, the plain password, hashed here, and the balance currency.
+     * @returns A promise that resolves to the created user without the password.
+     * @throws Will throw a unique violation (code `23505`) if the email is already registered.
+     */
+    async createUser(payload: { email: string; password: string; currency: string }) {
+        const response = await this.repository.query(
+            `INSERT INTO users (balance, email, password, currency) VALUES (0, $1, $2, $3)
+            RETURNING id, email, balance, currency, role, email_verified_at`,
+            [payload.email, bcrypt.hashSync(payload.password, salt), payload.currency]
+        )
+        return response.rows[0]
+    }
+
+    /**
+     * Marks the email of a user as verified.
+     *
+     * @param id - The ID of the user.
+     * @returns A promise that resolves to the query result.
+     */
+    async markEmailVerified(id: number) {
+        return await this.repository.query('UPDATE users SET email_verified_at = COALESCE(email_verified_at, NOW()) WHERE id = $1', [id])
+    }
+
+    /**
+     * Retrieves a user together with the password hash by their ID.
+     *
+     * @param id - The ID of the user to retrieve.
+     * @returns A promise that resolves to the user object containing id, email, and password.
+     */
+    async getUserCredentialsById(id: number) {
+        return await this.repository.query('SELECT id, email, password FROM users WHERE id = $1', [id])
     }
 
     /**
-     * Changes the password for a user with the given userId.
+     * Changes the password for a user with the given userId and clears a forced password reset.
      *
      * @param userId - The ID of the user whose password is to be changed.
      * @param newPassword - The new password to set for the user.
@@ -134,7 +263,7 @@ class UsersRepository {
      *          which includes the user's id, balance, and email.
      */
     async changePassword(userId: number, newPassword: string) {
-        return await this.repository.query('UPDATE users SET password = $1 WHERE id = $2 RETURNING id, balance, email', [bcrypt.hashSync(newPassword, salt), userId])
+        return await this.repository.query('UPDATE users SET password = $1, password_reset_required = FALSE WHERE id = $2 RETURNING id, balance, email', [bcrypt.hashSync(newPassword, salt), userId])
     }
 }
 
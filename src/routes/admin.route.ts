@@ -0,0 +1,31 @@
+import authJwt from '../middlewares/authjwt'
+import requirePermission from '../middlewares/requirepermission'
+import { AdminController } from '../controller'
+import {
+    IdParams,
+    AccountsQuery,
+    DisableBody,
+    RoleBody,
+    getAccountsSchema,
+    getAccountSchema,
+    getRolesSchema,
+    disableAccountSchema,
+    enableAccountSchema,
+    forcePasswordResetSchema,
+    setRoleSchema
+} from '../schemas'
+import { FastifyInstance } from 'fastify'
+
+const adminRoute = async (app: FastifyInstance) => {
+    app.addHook('preHandler', authJwt)
+
+    app.get<{ Querystring: AccountsQuery }>('/users', { schema: getAccountsSchema, preHandler: requirePermission('users:read') }, AdminController.getUsers)
+    app.get<{ Params: IdParams }>('/users/:id', { schema: getAccountSchema, preHandler: requirePermission('users:read') }, AdminController.getUser)
+    app.get('/roles', { schema: getRolesSchema, preHandler: requirePermission('users:read') }, AdminController.getRoles)
+    app.post<{ Params: IdParams; Body: DisableBody }>('/users/:id/disable', { schema: disableAccountSchema, preHandler: requirePermission('users:manage') }, AdminController.disableUser)
+    app.post<{ Params: IdParams }>('/users/:id/enable', { schema: enableAccountSchema, preHandler: requirePermission('users:manage') }, AdminController.enableUser)
+    app.post<{ Params: IdParams }>('/users/:id/force-password-reset', { schema: forcePasswordResetSchema, preHandler: requirePermission('users:manage') }, AdminController.forcePasswordReset)
+    app.put<{ Params: IdParams; Body: RoleBody }>('/users/:id/role', { schema: setRoleSchema, preHandler: requirePermission('users:assign-role') }, AdminController.setUserRole)
+}
+
+export default adminRoute
@@ -0,0 +1,11 @@
+import { HealthController } from '../controller'
+import { livenessSchema, readinessSchema } from '../schemas'
+import { FastifyInstance } from 'fastify'
+
+const healthRoute = async (app: FastifyInstance) => {
+    // Probes run every few seconds, only failures are logged
+    app.get('/live', { schema: livenessSchema, logLevel: 'warn' }, HealthController.live)
+    app.get('/ready', { schema: readinessSchema, logLevel: 'warn' }, HealthController.ready)
+}
+
+export default healthRoute
@@ -1,4 +1,6 @@
 import userRoute from './user.route'
 import skinRoute from './skin.route'
+import adminRoute from './admin.route'
+import healthRoute from './health.route'
 
-export { userRoute, skinRoute }
+export { userRoute, skinRoute, adminRoute, healthRoute }
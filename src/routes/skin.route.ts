@@ -1,8 +1,33 @@
+import authJwt from '../middlewares/authjwt'
+import requirePermission from '../middlewares/requirepermission'
+import rateLimit from '../middlewares/ratelimit'
+import config from '../config/config'
 import { SkinController } from '../controller'
+import {
+    IdParams,
+    CatalogQuery,
+    LiveSkinsQuery,
+    HistoryQuery,
+    CreateSkinBody,
+    UpdateSkinBody,
+    getCatalogSchema,
+    getLiveSkinsSchema,
+    getSkinSchema,
+    createSkinSchema,
+    updateSkinSchema,
+    deleteSkinSchema,
+    getSkinHistorySchema
+} from '../schemas'
 import { FastifyInstance } from 'fastify'
 
 const skinport = async (app: FastifyInstance) => {
-    app.get('/', SkinController.getSkins)
+    app.get<{ Querystring: CatalogQuery }>('/', { schema: getCatalogSchema, preHandler: rateLimit({ name: 'catalog', ...config.rateLimit.catalog }) }, SkinController.getCatalog)
+    app.get<{ Querystring: LiveSkinsQuery }>('/live', { schema: getLiveSkinsSchema, preHandler: rateLimit({ name: 'live', ...config.rateLimit.live }) }, SkinController.getSkins)
+    app.post<{ Body: CreateSkinBody }>('/', { schema: createSkinSchema, preHandler: [authJwt, requirePermission('catalog:write')] }, SkinController.createSkin)
+    app.get<{ Params: IdParams }>('/:id', { schema: getSkinSchema }, SkinController.getSkinById)
+    app.patch<{ Params: IdParams; Body: UpdateSkinBody }>('/:id', { schema: updateSkinSchema, preHandler: [authJwt, requirePermission('catalog:write')] }, SkinController.updateSkin)
+    app.delete<{ Params: IdParams }>('/:id', { schema: deleteSkinSchema, preHandler: [authJwt, requirePermission('catalog:write')] }, SkinController.deleteSkin)
+    app.get<{ Params: IdParams; Querystring: HistoryQuery }>('/:id/history', { schema: getSkinHistorySchema }, SkinController.getSkinHistory)
 }
 
 export default skinport
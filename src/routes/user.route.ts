@@ -1,13 +1,72 @@
 import authJwt from '../middlewares/authjwt';
+import requirePermission from '../middlewares/requirepermission';
+import requireSelfOr from '../middlewares/requireself';
+import { idempotency, storeIdempotentResponse } from '../middlewares/idempotency';
+import rateLimit from '../middlewares/ratelimit';
+import config from '../config/config';
 import { UserController } from '../controller';
+import {
+    IdParams,
+    PageQuery,
+    TransactionsQuery,
+    BuyBody,
+    DepositBody,
+    OrderParams,
+    AdjustBody,
+    CurrencyBody,
+    CredentialsBody,
+    TokenBody,
+    EmailBody,
+    ResetPasswordBody,
+    RefreshBody,
+    LogoutBody,
+    ChangePasswordBody,
+    getUsersSchema,
+    getUserSchema,
+    getInventorySchema,
+    getTransactionsSchema,
+    buySchema,
+    depositSchema,
+    refundSchema,
+    adjustSchema,
+    changeCurrencySchema,
+    loginSchema,
+    registerSchema,
+    verifyEmailSchema,
+    resendVerificationSchema,
+    forgotPasswordSchema,
+    resetPasswordSchema,
+    refreshSchema,
+    logoutSchema,
+    changePasswordSchema,
+} from '../schemas';
 import { FastifyInstance } from 'fastify';
 
+const loginLimit = rateLimit({ name: 'login', ...config.rateLimit.login });
+const accountLimit = rateLimit({ name: 'account', ...config.rateLimit.account });
+const refreshLimit = rateLimit({ name: 'refresh', ...config.rateLimit.login });
+
 const userRoute = async (app: FastifyInstance) => {
-    app.get('/', { preHandler: authJwt }, UserController.getUsers);
-    app.post('/login', UserController.login);
-    app.get('/:id', { preHandler: authJwt }, UserController.getUserById);
-    app.post('/buy', { preHandler: authJwt }, UserController.simpleBuyItem);
-    app.patch('/change-password', { preHandler: authJwt }, UserController.changePassword);
+    app.addHook('onSend', storeIdempotentResponse);
+
+    app.get('/', { schema: getUsersSchema, preHandler: [authJwt, requirePermission('users:read')] }, UserController.getUsers);
+    app.post<{ Body: CredentialsBody }>('/register', { schema: registerSchema, preHandler: accountLimit }, UserController.register);
+    app.post<{ Body: TokenBody }>('/verify-email', { schema: verifyEmailSchema, preHandler: accountLimit }, UserController.verifyEmail);
+    app.post<{ Body: EmailBody }>('/resend-verification', { schema: resendVerificationSchema, preHandler: accountLimit }, UserController.resendVerification);
+    app.post<{ Body: EmailBody }>('/forgot-password', { schema: forgotPasswordSchema, preHandler: accountLimit }, UserController.forgotPassword);
+    app.post<{ Body: ResetPasswordBody }>('/reset-password', { schema: resetPasswordSchema, preHandler: accountLimit }, UserController.resetPassword);
+    app.post<{ Body: CredentialsBody }>('/login', { schema: loginSchema, preHandler: loginLimit }, UserController.login);
+    app.post<{ Body: RefreshBody }>('/refresh', { schema: refreshSchema, preHandler: refreshLimit }, UserController.refresh);
+    app.post<{ Body: LogoutBody }>('/logout', { schema: logoutSchema, preHandler: authJwt, config: { allowPasswordResetRequired: true } }, UserController.logout);
+    app.get<{ Params: IdParams }>('/:id', { schema: getUserSchema, preHandler: [authJwt, requireSelfOr('users:read')] }, UserController.getUserById);
+    app.get<{ Params: IdParams; Querystring: PageQuery }>('/:id/inventory', { schema: getInventorySchema, preHandler: [authJwt, requireSelfOr('users:read')] }, UserController.getUserInventory);
+    app.get<{ Params: IdParams; Querystring: TransactionsQuery }>('/:id/transactions', { schema: getTransactionsSchema, preHandler: [authJwt, requireSelfOr('users:read')] }, UserController.getUserTransactions);
+    app.post<{ Body: BuyBody }>('/buy', { schema: buySchema, preHandler: [authJwt, idempotency] }, UserController.buyItem);
+    app.post<{ Body: DepositBody }>('/deposit', { schema: depositSchema, preHandler: [authJwt, requirePermission('balance:deposit'), idempotency] }, UserController.deposit);
+    app.post<{ Params: OrderParams }>('/orders/:orderId/refund', { schema: refundSchema, preHandler: [authJwt, idempotency] }, UserController.refundOrder);
+    app.post<{ Params: IdParams; Body: AdjustBody }>('/:id/adjust', { schema: adjustSchema, preHandler: [authJwt, requirePermission('balance:adjust'), idempotency] }, UserController.adjustBalance);
+    app.patch<{ Body: CurrencyBody }>('/currency', { schema: changeCurrencySchema, preHandler: [authJwt, idempotency] }, UserController.changeCurrency);
+    app.patch<{ Body: ChangePasswordBody }>('/change-password', { schema: changePasswordSchema, preHandler: authJwt, config: { allowPasswordResetRequired: true } }, UserController.changePassword);
 };
 
 export default userRoute;
\ No newline at end of file
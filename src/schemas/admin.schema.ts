@@ -0,0 +1,145 @@
+import { idParams, pageProperties, okResponse, errorResponses, nullable, bearerAuth, PageQuery } from './common.schema'
+
+export interface AccountsQuery extends PageQuery {
+    search?: string
+    role?: string
+    disabled?: boolean
+}
+
+export interface DisableBody {
+    reason: string
+}
+
+export interface RoleBody {
+    role: string
+}
+
+const permissions = { type: 'array', items: { type: 'string' } }
+
+const account = {
+    type: 'object',
+    properties: {
+        id: { type: 'integer' },
+        email: { type: 'string' },
+        balance: { type: 'number' },
+        currency: { type: 'string' },
+        role: { type: 'string' },
+        disabled_at: nullable('string', { format: 'date-time' }),
+        disabled_reason: nullable('string'),
+        password_reset_required: { type: 'boolean' }
+    }
+}
+
+const accountResponse = {
+    200: okResponse({ user: account }),
+    ...errorResponses
+}
+
+export const getAccountsSchema = {
+    tags: ['admin'],
+    summary: 'Search accounts',
+    description: '`search` matches a substring of the email.',
+    security: bearerAuth,
+    querystring: {
+        type: 'object',
+        properties: {
+            search: { type: 'string' },
+            role: { type: 'string' },
+            disabled: { type: 'boolean' },
+            ...pageProperties(50, 200)
+        }
+    },
+    response: {
+        200: okResponse({
+            users: { type: 'array', items: account },
+            total: { type: 'integer' },
+            limit: { type: 'integer' },
+            offset: { type: 'integer' }
+        }),
+        ...errorResponses
+    }
+}
+
+export const getAccountSchema = {
+    tags: ['admin'],
+    summary: 'Get an account with its role, permissions and state',
+    security: bearerAuth,
+    params: idParams,
+    response: {
+        200: okResponse({
+            user: {
+                ...account,
+                properties: { ...account.properties, permissions }
+            }
+        }),
+        ...errorResponses
+    }
+}
+
+export const getRolesSchema = {
+    tags: ['admin'],
+    summary: 'List the roles and the permissions they grant',
+    security: bearerAuth,
+    response: {
+        200: okResponse({
+            roles: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    properties: {
+                        name: { type: 'string' },
+                        description: nullable('string'),
+                        permissions
+                    }
+                }
+            }
+        }),
+        ...errorResponses
+    }
+}
+
+export const disableAccountSchema = {
+    tags: ['admin'],
+    summary: 'Disable an account and end its sessions',
+    security: bearerAuth,
+    params: idParams,
+    body: {
+        type: 'object',
+        required: ['reason'],
+        properties: {
+            reason: { type: 'string', pattern: '\\S' }
+        }
+    },
+    response: accountResponse
+}
+
+export const enableAccountSchema = {
+    tags: ['admin'],
+    summary: 'Enable a disabled account',
+    security: bearerAuth,
+    params: idParams,
+    response: accountResponse
+}
+
+export const forcePasswordResetSchema = {
+    tags: ['admin'],
+    summary: 'Require a password change and end the sessions of an account',
+    security: bearerAuth,
+    params: idParams,
+    response: accountResponse
+}
+
+export const setRoleSchema = {
+    tags: ['admin'],
+    summary: 'Change the role of an account and end its sessions',
+    security: bearerAuth,
+    params: idParams,
+    body: {
+        type: 'object',
+        required: ['role'],
+        properties: {
+            role: { type: 'string', minLength: 1 }
+        }
+    },
+    response: accountResponse
+}
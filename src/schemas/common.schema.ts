@@ -0,0 +1,97 @@
+import { MAX_MONEY } from '../utils/money'
+
+export interface IdParams {
+    id: number
+}
+
+export interface PageQuery {
+    limit: number
+    offset: number
+}
+
+/**
+ * A monetary amount with at most two decimal places that fits the NUMERIC(12, 2) columns.
+ */
+export const moneyAmount = { type: 'number', multipleOf: 0.01, minimum: -MAX_MONEY, maximum: MAX_MONEY } as const
+
+export const idParams = {
+    type: 'object',
+    required: ['id'],
+    properties: {
+        id: { type: 'integer', minimum: 1 }
+    }
+} as const
+
+/**
+ * Builds the `limit` and `offset` query parameters.
+ *
+ * @param defaultLimit - The page size used when `limit` is absent.
+ * @param maxLimit - The largest accepted page size.
+ */
+export const pageProperties = (defaultLimit: number, maxLimit: number) => ({
+    limit: { type: 'integer', minimum: 1, maximum: maxLimit, default: defaultLimit },
+    offset: { type: 'integer', minimum: 0, default: 0 }
+})
+
+/**
+ * The body of every failed response, see `errorHandler`. `retryAfter` is only set by rate limited, locked out
+ * and temporarily unavailable requests, `details` lists the invalid fields of a request that failed validation.
+ */
+export const errorResponse = {
+    type: 'object',
+    required: ['statusCode', 'code', 'msg', 'requestId'],
+    properties: {
+        statusCode: { type: 'integer' },
+        code: { type: 'string', description: 'A stable machine-readable error code, e.g. `NOT_FOUND` or `INSUFFICIENT_FUNDS`.' },
+        msg: { type: 'string' },
+        requestId: { type: 'string', description: 'The ID of the request, also sent in the `X-Request-Id` header.' },
+        retryAfter: { type: 'integer' },
+        details: {}
+    }
+} as const
+
+/**
+ * Builds a successful response: the `statusCode` and `msg` envelope with the given fields.
+ *
+ * @param properties - The schemas of the fields sent next to the envelope.
+ * @param required - The fields always present in the response.
+ */
+export const okResponse = (properties: Record<string, unknown> = {}, required: string[] = []) => ({
+    type: 'object',
+    required: ['statusCode', 'msg', ...required],
+    properties: {
+        statusCode: { type: 'integer' },
+        msg: { type: 'string' },
+        ...properties
+    }
+})
+
+/**
+ * The failed responses of a route. Every 4xx and 5xx response shares the error envelope.
+ */
+export const errorResponses = {
+    '4xx': errorResponse,
+    '5xx': errorResponse
+}
+
+/**
+ * Makes a schema also accept `null`.
+ */
+export const nullable = (type: string, extra: Record<string, unknown> = {}) => ({ type: [type, 'null'], ...extra })
+
+export const dateTime = { type: 'string', format: 'date-time' } as const
+
+/**
+ * An ISO 8601 date in a query, with or without the time and the offset.
+ */
+export const isoDate = { type: 'string', anyOf: [{ format: 'date' }, { format: 'iso-date-time' }] } as const
+
+/**
+ * A three-letter currency code in a query. The code is case-insensitive.
+ */
+export const currencyCode = { type: 'string', pattern: '^[A-Za-z]{3}$' } as const
+
+/**
+ * The security requirement of the routes that need an access token.
+ */
+export const bearerAuth = [{ bearerAuth: [] }]
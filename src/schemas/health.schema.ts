@@ -0,0 +1,31 @@
+import { okResponse } from './common.schema'
+
+const check = {
+    type: 'object',
+    properties: {
+        status: { type: 'string', enum: ['up', 'down'] },
+        durationMs: { type: 'integer' },
+        error: { type: 'string' }
+    }
+}
+
+const readiness = okResponse({ checks: { type: 'object', additionalProperties: check } }, ['checks'])
+
+export const livenessSchema = {
+    tags: ['health'],
+    summary: 'Liveness probe',
+    description: 'Responds while the process is running, dependencies are not checked.',
+    response: {
+        200: okResponse()
+    }
+}
+
+export const readinessSchema = {
+    tags: ['health'],
+    summary: 'Readiness probe',
+    description: 'Checks PostgreSQL, Redis and the skin worker pool, each with the `HEALTH_CHECK_TIMEOUT_MS` timeout. Responds with 503 if any check fails or the server is shutting down.',
+    response: {
+        200: readiness,
+        503: readiness
+    }
+}
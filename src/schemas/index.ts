@@ -0,0 +1,5 @@
+export * from './common.schema'
+export * from './user.schema'
+export * from './skin.schema'
+export * from './admin.schema'
+export * from './health.schema'
@@ -0,0 +1,34 @@
+import { SwaggerOptions } from '@fastify/swagger'
+
+/**
+ * The OpenAPI document generated from the route schemas, served at `/docs/json`.
+ */
+const openapi: SwaggerOptions = {
+    openapi: {
+        openapi: '3.1.0',
+        info: {
+            title: 'Skin market API',
+            description: 'Accounts, the skin catalog and orders. Failed requests respond with `statusCode`, a machine-readable `code`, `msg` and the `requestId` of the request.',
+            version: '1.0.0'
+        },
+        tags: [
+            { name: 'auth', description: 'Registration, login and sessions' },
+            { name: 'users', description: 'Accounts, inventories and balance ledgers' },
+            { name: 'orders', description: 'Purchases, deposits, refunds and balance corrections' },
+            { name: 'skins', description: 'The skin catalog and its price history' },
+            { name: 'admin', description: 'Account management' },
+            { name: 'health', description: 'Liveness and readiness probes' }
+        ],
+        components: {
+            securitySchemes: {
+                bearerAuth: {
+                    type: 'http',
+                    scheme: 'bearer',
+                    bearerFormat: 'JWT'
+                }
+            }
+        }
+    }
+}
+
+export default openapi
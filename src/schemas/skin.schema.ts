@@ -0,0 +1,247 @@
+import config from '../config/config'
+import { SkinFields } from '../repository/skins.repository'
+import { idParams, okResponse, errorResponses, nullable, dateTime, isoDate, currencyCode, bearerAuth } from './common.schema'
+
+export interface CatalogQuery {
+    limit: number
+    cursor?: string
+    search?: string
+    prefix?: string
+    min_price_tradable?: number
+    max_price_tradable?: number
+    min_price_non_tradable?: number
+    max_price_non_tradable?: number
+    tradable_only?: boolean
+    sort: 'name' | 'price_tradable' | 'price_non_tradable'
+    order: 'asc' | 'desc'
+    currency?: string
+}
+
+export interface LiveSkinsQuery {
+    app_id?: number
+    currency?: string
+}
+
+export interface HistoryQuery {
+    interval: 'hour' | 'day'
+    from?: string
+    to?: string
+}
+
+export type CreateSkinBody = Partial<SkinFields> & { name: string }
+
+export type UpdateSkinBody = Partial<SkinFields>
+
+const price = nullable('number', { minimum: 0 })
+
+const skinFields = {
+    name: { type: 'string', pattern: '\\S' },
+    market_hash_name: nullable('string', { pattern: '\\S' }),
+    min_price_tradable: price,
+    min_price_non_tradable: price,
+    price_override_tradable: price,
+    price_override_non_tradable: price,
+    hidden: { type: 'boolean' }
+}
+
+const catalogSkin = {
+    type: 'object',
+    additionalProperties: true,
+    properties: {
+        id: { type: 'integer' },
+        name: { type: 'string' },
+        min_price_tradable: nullable('number'),
+        min_price_non_tradable: nullable('number')
+    }
+}
+
+const skin = {
+    type: 'object',
+    additionalProperties: true,
+    properties: {
+        id: { type: 'integer' },
+        name: { type: 'string' },
+        market_hash_name: nullable('string'),
+        min_price_tradable: nullable('number'),
+        min_price_non_tradable: nullable('number'),
+        price_override_tradable: nullable('number'),
+        price_override_non_tradable: nullable('number'),
+        hidden: { type: 'boolean' },
+        last_synced_at: nullable('string', { format: 'date-time' }),
+        delisted_at: nullable('string', { format: 'date-time' }),
+        deleted_at: nullable('string', { format: 'date-time' })
+    }
+}
+
+const priceChange = {
+    type: 'object',
+    properties: {
+        tradable: nullable('number'),
+        non_tradable: nullable('number')
+    }
+}
+
+const pricePoint = {
+    type: 'object',
+    properties: {
+        bucket: dateTime,
+        min_tradable: nullable('number'),
+        avg_tradable: nullable('number'),
+        max_tradable: nullable('number'),
+        min_non_tradable: nullable('number'),
+        avg_non_tradable: nullable('number'),
+        max_non_tradable: nullable('number'),
+        samples: { type: 'integer' }
+    }
+}
+
+const catalogPrice = { type: 'number', minimum: 0 }
+
+export const getCatalogSchema = {
+    tags: ['skins'],
+    summary: 'Browse the synced catalog',
+    description: 'Skins without the sorted price come last. Price filters use the requested currency.',
+    querystring: {
+        type: 'object',
+        properties: {
+            limit: { type: 'integer', minimum: 1, maximum: 100, default: 50 },
+            cursor: { type: 'string', description: 'The `nextCursor` of the previous page.' },
+            search: { type: 'string', description: 'A case-insensitive substring of the name.' },
+            prefix: { type: 'string', description: 'A case-insensitive beginning of the name.' },
+            min_price_tradable: catalogPrice,
+            max_price_tradable: catalogPrice,
+            min_price_non_tradable: catalogPrice,
+            max_price_non_tradable: catalogPrice,
+            tradable_only: { type: 'boolean' },
+            sort: { type: 'string', enum: ['name', 'price_tradable', 'price_non_tradable'], default: 'name' },
+            order: { type: 'string', enum: ['asc', 'desc'], default: 'asc' },
+            currency: { ...currencyCode, description: 'One of `MARKET_CURRENCIES`, defaults to the base currency.' }
+        }
+    },
+    response: {
+        200: okResponse({
+            currency: { type: 'string' },
+            items: { type: 'array', items: catalogSkin },
+            total: { type: 'integer' },
+            nextCursor: nullable('string')
+        }),
+        ...errorResponses
+    }
+}
+
+export const getLiveSkinsSchema = {
+    tags: ['skins'],
+    summary: 'Stream the live skins from the upstream market',
+    description: 'Clients accepting `application/x-ndjson` receive one skin per line, other clients a JSON array.',
+    querystring: {
+        type: 'object',
+        properties: {
+            app_id: { type: 'integer', enum: config.market.appIds, description: 'One of `MARKET_APP_IDS`, defaults to `MARKET_APP_ID`.' },
+            currency: { ...currencyCode, description: 'One of `MARKET_CURRENCIES`, defaults to the base currency.' }
+        }
+    },
+    response: {
+        200: {
+            description: 'The skins with their tradable and non-tradable prices.',
+            type: 'array',
+            items: { type: 'object', additionalProperties: true }
+        },
+        ...errorResponses
+    }
+}
+
+export const getSkinSchema = {
+    tags: ['skins'],
+    summary: 'Get a skin',
+    params: idParams,
+    response: {
+        200: okResponse({ skin }),
+        ...errorResponses
+    }
+}
+
+export const createSkinSchema = {
+    tags: ['skins'],
+    summary: 'Add a skin to the catalog',
+    description: 'A skin with a `market_hash_name` is also updated by the catalog sync.',
+    security: bearerAuth,
+    body: {
+        type: 'object',
+        required: ['name'],
+        additionalProperties: false,
+        properties: skinFields
+    },
+    response: {
+        201: okResponse({ skin }),
+        ...errorResponses
+    }
+}
+
+export const updateSkinSchema = {
+    tags: ['skins'],
+    summary: 'Update a skin',
+    description: 'Only the provided fields change, `null` removes a price override. `hidden: true` removes the skin from the catalog and blocks purchases.',
+    security: bearerAuth,
+    params: idParams,
+    body: {
+        type: 'object',
+        minProperties: 1,
+        additionalProperties: false,
+        properties: skinFields
+    },
+    response: {
+        200: okResponse({ skin }),
+        ...errorResponses
+    }
+}
+
+export const deleteSkinSchema = {
+    tags: ['skins'],
+    summary: 'Delete a skin',
+    security: bearerAuth,
+    params: idParams,
+    response: {
+        200: okResponse({ skin }),
+        ...errorResponses
+    }
+}
+
+export const getSkinHistorySchema = {
+    tags: ['skins'],
+    summary: 'Get the price history of a skin',
+    description: '`from` and `to` default to the last 30 days.',
+    params: idParams,
+    querystring: {
+        type: 'object',
+        properties: {
+            interval: { type: 'string', enum: ['hour', 'day'], default: 'hour' },
+            from: isoDate,
+            to: isoDate
+        }
+    },
+    response: {
+        200: okResponse({
+            skin: {
+                type: 'object',
+                additionalProperties: true,
+                properties: {
+                    id: { type: 'integer' },
+                    name: { type: 'string' }
+                }
+            },
+            interval: { type: 'string' },
+            from: dateTime,
+            to: dateTime,
+            series: { type: 'array', items: pricePoint },
+            change: {
+                type: 'object',
+                properties: {
+                    '24h': priceChange,
+                    '7d': priceChange,
+                    '30d': priceChange
+                }
+            }
+        }),
+        ...errorResponses
+    }
+}
@@ -0,0 +1,465 @@
+import { PageQuery, idParams, moneyAmount, currencyCode, pageProperties, okResponse, errorResponses, nullable, dateTime, isoDate, bearerAuth } from './common.schema'
+
+export interface TransactionsQuery extends PageQuery {
+    from?: string
+    to?: string
+}
+
+export interface BuyBody {
+    skinId: number
+    userId?: number
+    tradable?: boolean
+}
+
+export interface DepositBody {
+    amount: number
+    userId?: number
+}
+
+export interface OrderParams {
+    orderId: number
+}
+
+export interface AdjustBody {
+    amount: number
+    reason: string
+}
+
+export interface CurrencyBody {
+    currency: string
+}
+
+export interface CredentialsBody {
+    email: string
+    password: string
+}
+
+export interface TokenBody {
+    token: string
+}
+
+export interface EmailBody {
+    email: string
+}
+
+export interface ResetPasswordBody {
+    token: string
+    password: string
+}
+
+export interface RefreshBody {
+    refreshToken: string
+}
+
+export interface LogoutBody {
+    refreshToken?: string
+}
+
+export interface ChangePasswordBody {
+    oldPassword: string
+    newPassword: string
+}
+
+const nonEmptyString = { type: 'string', minLength: 1 } as const
+
+const user = {
+    type: 'object',
+    additionalProperties: true,
+    properties: {
+        id: { type: 'integer' },
+        email: { type: 'string' },
+        balance: { type: 'number' },
+        currency: { type: 'string' }
+    }
+}
+
+const balance = {
+    type: 'object',
+    properties: {
+        id: { type: 'integer' },
+        balance: { type: 'number' },
+        currency: { type: 'string' }
+    }
+}
+
+const order = {
+    type: 'object',
+    additionalProperties: true,
+    properties: {
+        id: { type: 'integer' },
+        user_id: { type: 'integer' },
+        item_id: { type: 'integer' },
+        price: { type: 'number' },
+        currency: { type: 'string' },
+        tradable: { type: 'boolean' },
+        status: { type: 'string' },
+        created_at: dateTime
+    }
+}
+
+const inventoryItem = {
+    type: 'object',
+    additionalProperties: true,
+    properties: {
+        id: { type: 'integer' },
+        item_id: { type: 'integer' },
+        name: nullable('string'),
+        order_id: nullable('integer'),
+        acquired_price: { type: 'number' },
+        currency: { type: 'string' },
+        tradable: { type: 'boolean' },
+        acquired_at: dateTime,
+        current_price: nullable('number')
+    }
+}
+
+const transaction = {
+    type: 'object',
+    additionalProperties: true,
+    properties: {
+        id: { type: 'integer' },
+        user_id: { type: 'integer' },
+        type: { type: 'string', enum: ['debit', 'credit'] },
+        amount: { type: 'number' },
+        currency: { type: 'string' },
+        reason: { type: 'string' },
+        order_id: nullable('integer'),
+        note: nullable('string'),
+        balance_after: { type: 'number' },
+        created_at: dateTime
+    }
+}
+
+const tokens = {
+    token: { type: 'string' },
+    refreshToken: { type: 'string' },
+    expiresIn: { type: 'integer', description: 'The lifetime of the access token in seconds.' }
+}
+
+const credentialsBody = {
+    type: 'object',
+    required: ['email', 'password'],
+    properties: {
+        email: nonEmptyString,
+        password: nonEmptyString
+    }
+}
+
+const emailBody = {
+    type: 'object',
+    required: ['email'],
+    properties: {
+        email: nonEmptyString
+    }
+}
+
+export const getUsersSchema = {
+    tags: ['users'],
+    summary: 'List all users',
+    security: bearerAuth,
+    response: {
+        200: okResponse({ users: { type: 'array', items: user } }),
+        ...errorResponses
+    }
+}
+
+export const getUserSchema = {
+    tags: ['users'],
+    summary: 'Get a user',
+    security: bearerAuth,
+    params: idParams,
+    response: {
+        200: okResponse({ user }),
+        ...errorResponses
+    }
+}
+
+export const getInventorySchema = {
+    tags: ['users'],
+    summary: 'Get the inventory of a user with its current value',
+    security: bearerAuth,
+    params: idParams,
+    querystring: {
+        type: 'object',
+        properties: pageProperties(20, 100)
+    },
+    response: {
+        200: okResponse({
+            currency: { type: 'string' },
+            items: { type: 'array', items: inventoryItem },
+            total: { type: 'integer' },
+            totalValue: { type: 'number' },
+            limit: { type: 'integer' },
+            offset: { type: 'integer' }
+        }),
+        ...errorResponses
+    }
+}
+
+export const getTransactionsSchema = {
+    tags: ['users'],
+    summary: 'Get the balance ledger of a user',
+    description: '`from` is inclusive and `to` is exclusive.',
+    security: bearerAuth,
+    params: idParams,
+    querystring: {
+        type: 'object',
+        properties: {
+            from: isoDate,
+            to: isoDate,
+            ...pageProperties(50, 200)
+        }
+    },
+    response: {
+        200: okResponse({
+            transactions: { type: 'array', items: transaction },
+            total: { type: 'integer' },
+            reconciliation: {
+                type: 'object',
+                properties: {
+                    balance: { type: 'number' },
+                    ledgerBalance: { type: 'number' },
+                    consistent: { type: 'boolean' }
+                }
+            },
+            limit: { type: 'integer' },
+            offset: { type: 'integer' }
+        }),
+        ...errorResponses
+    }
+}
+
+export const buySchema = {
+    tags: ['orders'],
+    summary: 'Buy a skin',
+    description: 'The price is read from the catalog. `userId` defaults to the authenticated user, another user needs the `balance:adjust` permission.',
+    security: bearerAuth,
+    body: {
+        type: 'object',
+        required: ['skinId'],
+        additionalProperties: false,
+        properties: {
+            skinId: { type: 'integer', minimum: 1 },
+            userId: { type: 'integer', minimum: 1 },
+            tradable: { type: 'boolean', default: true }
+        }
+    },
+    response: {
+        200: okResponse({ order, user: balance }),
+        ...errorResponses
+    }
+}
+
+export const depositSchema = {
+    tags: ['orders'],
+    summary: 'Deposit funds',
+    description: 'Requires the `balance:deposit` permission. `userId` defaults to the authenticated user.',
+    security: bearerAuth,
+    body: {
+        type: 'object',
+        required: ['amount'],
+        additionalProperties: false,
+        properties: {
+            amount: { ...moneyAmount, minimum: 0.01 },
+            userId: { type: 'integer', minimum: 1 }
+        }
+    },
+    response: {
+        200: okResponse({ user: balance }),
+        ...errorResponses
+    }
+}
+
+export const refundSchema = {
+    tags: ['orders'],
+    summary: 'Refund an order',
+    security: bearerAuth,
+    params: {
+        type: 'object',
+        required: ['orderId'],
+        properties: {
+            orderId: { type: 'integer', minimum: 1 }
+        }
+    },
+    response: {
+        200: okResponse({ order, user: balance }),
+        ...errorResponses
+    }
+}
+
+export const adjustSchema = {
+    tags: ['orders'],
+    summary: 'Correct the balance of a user',
+    description: 'A positive amount credits the balance, a negative amount debits it.',
+    security: bearerAuth,
+    params: idParams,
+    body: {
+        type: 'object',
+        required: ['amount', 'reason'],
+        additionalProperties: false,
+        properties: {
+            amount: { ...moneyAmount, not: { exclusiveMinimum: -0.01, exclusiveMaximum: 0.01 }, description: 'At least 0.01 in either direction.' },
+            reason: { type: 'string', pattern: '\\S' }
+        }
+    },
+    response: {
+        200: okResponse({ user: balance }),
+        ...errorResponses
+    }
+}
+
+export const changeCurrencySchema = {
+    tags: ['users'],
+    summary: 'Change the balance currency',
+    description: 'The balance is converted with the latest stored exchange rates, refunds of earlier orders are converted as well.',
+    security: bearerAuth,
+    body: {
+        type: 'object',
+        required: ['currency'],
+        additionalProperties: false,
+        properties: {
+            currency: { ...currencyCode, description: 'One of `MARKET_CURRENCIES`.' }
+        }
+    },
+    response: {
+        200: okResponse({ user: balance }),
+        ...errorResponses
+    }
+}
+
+export const loginSchema = {
+    tags: ['auth'],
+    summary: 'Log in',
+    body: credentialsBody,
+    response: {
+        200: okResponse(tokens),
+        ...errorResponses
+    }
+}
+
+export const registerSchema = {
+    tags: ['auth'],
+    summary: 'Register an account',
+    body: credentialsBody,
+    response: {
+        201: okResponse({
+            user: {
+                type: 'object',
+                properties: {
+                    id: { type: 'integer' },
+                    email: { type: 'string' },
+                    balance: { type: 'number' },
+                    currency: { type: 'string' },
+                    role: { type: 'string' },
+                    email_verified_at: nullable('string', { format: 'date-time' })
+                }
+            }
+        }),
+        ...errorResponses
+    }
+}
+
+export const verifyEmailSchema = {
+    tags: ['auth'],
+    summary: 'Verify an email',
+    body: {
+        type: 'object',
+        required: ['token'],
+        properties: {
+            token: nonEmptyString
+        }
+    },
+    response: {
+        200: okResponse(),
+        ...errorResponses
+    }
+}
+
+export const resendVerificationSchema = {
+    tags: ['auth'],
+    summary: 'Send a new verification link',
+    body: emailBody,
+    response: {
+        202: okResponse(),
+        ...errorResponses
+    }
+}
+
+export const forgotPasswordSchema = {
+    tags: ['auth'],
+    summary: 'Send a password reset link',
+    body: emailBody,
+    response: {
+        202: okResponse(),
+        ...errorResponses
+    }
+}
+
+export const resetPasswordSchema = {
+    tags: ['auth'],
+    summary: 'Set a new password with a password reset token',
+    body: {
+        type: 'object',
+        required: ['token', 'password'],
+        properties: {
+            token: nonEmptyString,
+            password: { type: 'string' }
+        }
+    },
+    response: {
+        200: okResponse(),
+        ...errorResponses
+    }
+}
+
+export const refreshSchema = {
+    tags: ['auth'],
+    summary: 'Exchange a refresh token for a new pair of tokens',
+    body: {
+        type: 'object',
+        required: ['refreshToken'],
+        properties: {
+            refreshToken: nonEmptyString
+        }
+    },
+    response: {
+        200: okResponse(tokens),
+        ...errorResponses
+    }
+}
+
+export const logoutSchema = {
+    tags: ['auth'],
+    summary: 'End the current session',
+    description: 'Pass the refresh token of the session to revoke it too.',
+    security: bearerAuth,
+    body: {
+        type: 'object',
+        properties: {
+            refreshToken: { type: 'string' }
+        }
+    },
+    response: {
+        200: okResponse(),
+        ...errorResponses
+    }
+}
+
+export const changePasswordSchema = {
+    tags: ['auth'],
+    summary: 'Change the password',
+    description: 'Ends every session of the user.',
+    security: bearerAuth,
+    body: {
+        type: 'object',
+        required: ['oldPassword', 'newPassword'],
+        properties: {
+            oldPassword: nonEmptyString,
+            newPassword: nonEmptyString
+        }
+    },
+    response: {
+        200: okResponse(),
+        ...errorResponses
+    }
+}
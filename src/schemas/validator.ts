@@ -0,0 +1,47 @@
+import Ajv from 'ajv'
+import addFormats from 'ajv-formats'
+import { FastifySchemaCompiler } from 'fastify'
+
+/**
+ * Creates an Ajv instance with the options Fastify uses by default, except for the type coercion.
+ *
+ * @param coerceTypes - Whether strings are converted to the types declared by the schema.
+ */
+const createAjv = (coerceTypes: boolean | 'array') => {
+    const ajv = new Ajv({
+        coerceTypes,
+        useDefaults: true,
+        removeAdditional: true,
+        allErrors: false,
+        allowUnionTypes: true,
+        // 0.07 / 0.01 is not an integer in floating point, `multipleOf` tolerates the rounding error
+        multipleOfPrecision: 9
+    })
+    addFormats(ajv)
+    return ajv
+}
+
+const bodyAjv = createAjv(false)
+const queryAjv = createAjv('array')
+
+/**
+ * Compiles the route schemas. Query strings, route parameters and headers only carry strings,
+ * so their values are converted to the declared types. JSON bodies are validated as sent: `"1"` is not a number.
+ * A request without a body gets an empty object, so a body whose fields are all optional may be omitted.
+ */
+const validatorCompiler: FastifySchemaCompiler<any> = ({ schema, httpPart }) => {
+    if (httpPart !== 'body') {
+        return queryAjv.compile(schema)
+    }
+    const validate = bodyAjv.compile(schema)
+    const validateBody = (data: unknown) => {
+        const body = data ?? {}
+        const valid = validate(body)
+        validateBody.errors = validate.errors
+        return valid ? { value: body } : false
+    }
+    validateBody.errors = validate.errors
+    return validateBody
+}
+
+export default validatorCompiler
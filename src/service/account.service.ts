@@ -0,0 +1,151 @@
+import { UsersRepository, RolesRepository } from '../repository'
+import { withTransaction } from '../config/db.config'
+import AuthService from './auth.service'
+import { NotFoundError, ConflictError, ValidationError, ForbiddenError } from '../errors'
+
+/**
+ * The authenticated user performing a change, see `request.user`.
+ */
+interface Actor {
+    id: number
+    permissions: string[]
+}
+
+/**
+ * Account management for support staff and admins.
+ * Every change to the role or the state of an account ends the user's sessions, since access tokens embed both.
+ * Staff can only manage accounts whose permissions they have themselves, e.g. support cannot disable an admin.
+ */
+export class AccountService {
+    constructor(
+        private usersRepository: any = UsersRepository,
+        private rolesRepository: any = RolesRepository,
+        private authService: any = AuthService,
+        private transaction: typeof withTransaction = withTransaction
+    ) {}
+
+    /**
+     * Retrieves a page of accounts.
+     *
+     * @param filters - An optional substring of the email, the role, the account state and pagination.
+     * @returns An object with the users and the total number of matching users.
+     */
+    async searchUsers(filters: { search?: string; role?: string; disabled?: boolean; limit: number; offset: number }) {
+        return await this.usersRepository.searchUsers(filters)
+    }
+
+    /**
+     * Retrieves an account with its role, permissions and state.
+     *
+     * @param userId - The ID of the user.
+     * @returns The user, or `undefined` if the user does not exist.
+     */
+    async getUser(userId: number) {
+        const [user, access] = await Promise.all([this.usersRepository.getManagedUser(userId), this.usersRepository.getUserAccess(userId)])
+        return user && { ...user, permissions: access.permissions }
+    }
+
+    /**
+     * Retrieves every role together with the permissions it grants.
+     */
+    async getRoles() {
+        return await this.rolesRepository.getRoles()
+    }
+
+    /**
+     * Disables an account and ends its sessions. Disabled users cannot log in or refresh tokens.
+     *
+     * @param actor - The user performing the change, who cannot disable their own account.
+     * @param userId - The ID of the user to disable.
+     * @param reason - The reason shown to support staff.
+     * @returns The updated user.
+     * @throws ConflictError if the actor is the user.
+     * @throws NotFoundError if the user does not exist.
+     * @throws ForbiddenError if the user has permissions the actor lacks.
+     */
+    async disableUser(actor: Actor, userId: number, reason: string) {
+        if (actor.id === userId) {
+            throw new ConflictError('You cannot disable your own account', 'SELF_MODIFICATION')
+        }
+        return await this.updateAccount(actor, userId, (usersRepository) => usersRepository.setUserDisabled(userId, reason))
+    }
+
+    /**
+     * Enables a disabled account. The user has to log in again.
+     *
+     * @param actor - The user performing the change.
+     * @param userId - The ID of the user to enable.
+     * @returns The updated user.
+     * @throws NotFoundError if the user does not exist.
+     * @throws ForbiddenError if the user has permissions the actor lacks.
+     */
+    async enableUser(actor: Actor, userId: number) {
+        return await this.updateAccount(actor, userId, (usersRepository) => usersRepository.setUserDisabled(userId, null))
+    }
+
+    /**
+     * Requires the user to change the password and ends the user's sessions.
+     * After logging in again the user can only change the password or log out.
+     *
+     * @param actor - The user performing the change.
+     * @param userId - The ID of the user.
+     * @returns The updated user.
+     * @throws NotFoundError if the user does not exist.
+     * @throws ForbiddenError if the user has permissions the actor lacks.
+     */
+    async forcePasswordReset(actor: Actor, userId: number) {
+        return await this.updateAccount(actor, userId, (usersRepository) => usersRepository.requirePasswordReset(userId))
+    }
+
+    /**
+     * Changes the role of an account and ends its sessions, so the new permissions apply from the next login.
+     *
+     * @param actor - The user performing the change, who cannot change their own role.
+     * @param userId - The ID of the user.
+     * @param role - The name of the new role.
+     * @returns The updated user.
+     * @throws ConflictError if the actor is the user.
+     * @throws ValidationError if the role does not exist.
+     * @throws NotFoundError if the user does not exist.
+     * @throws ForbiddenError if the user has or the role grants permissions the actor lacks.
+     */
+    async setUserRole(actor: Actor, userId: number, role: string) {
+        if (actor.id === userId) {
+            throw new ConflictError('You cannot change your own role', 'SELF_MODIFICATION')
+        }
+        const permissions = await this.rolesRepository.getRolePermissions(role)
+        if (!permissions) {
+            throw new ValidationError(`Unknown role ${role}`, 'UNKNOWN_ROLE')
+        }
+        if (permissions.some((permission: string) => !actor.permissions.includes(permission))) {
+            throw new ForbiddenError('Access denied! The role grants permissions you do not have.', 'INSUFFICIENT_PERMISSIONS')
+        }
+        return await this.updateAccount(actor, userId, (usersRepository) => usersRepository.setUserRole(userId, role))
+    }
+
+    /**
+     * Applies a change to an account and ends the user's sessions in the same transaction.
+     * The account must not have permissions the actor lacks.
+     */
+    private async updateAccount(actor: Actor, userId: number, update: (usersRepository: any) => Promise<any>) {
+        const result = await this.transaction(async (tx) => {
+            const usersRepository = this.usersRepository.forTransaction(tx)
+            const access = await usersRepository.getUserAccess(userId)
+            if (!access) {
+                throw new NotFoundError('User not found')
+            }
+            if (access.permissions.some((permission: string) => !actor.permissions.includes(permission))) {
+                throw new ForbiddenError('Access denied! The user has permissions you do not have.', 'INSUFFICIENT_PERMISSIONS')
+            }
+            const user = await update(usersRepository)
+            if (!user) {
+                throw new NotFoundError('User not found')
+            }
+            return { user, version: await this.authService.revokeAllSessions(userId, tx) }
+        })
+        await this.authService.publishSessionVersion(userId, result.version)
+        return result.user
+    }
+}
+
+export default new AccountService()
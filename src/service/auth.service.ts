@@ -0,0 +1,278 @@
+import { randomUUID } from 'crypto'
+import { sign } from 'jsonwebtoken'
+import bcrypt from 'bcryptjs'
+import { RefreshTokensRepository, UsersRepository } from '../repository'
+import { withTransaction } from '../config/db.config'
+import { sharedStore, CacheStore } from '../cache'
+import config from '../config/config'
+import { generateToken, hashToken } from '../utils/token'
+import { normalizeEmail } from '../utils/email'
+import { UnauthorizedError, ForbiddenError, TooManyRequestsError } from '../errors'
+
+export interface AccessTokenPayload {
+    user: {
+        id: number
+        role: string
+        permissions: string[]
+        passwordResetRequired: boolean
+        sessionVersion: number
+    }
+    jti: string
+    iat: number
+    exp: number
+}
+
+export interface AuthenticatedUser {
+    id: number
+    role: string
+    permissions: string[]
+    passwordResetRequired: boolean
+    token: AccessTokenPayload
+}
+
+// Keys of revoked access tokens and of the session version below which a user's access tokens are no longer accepted
+const DENYLIST_PREFIX = 'auth:denylist:'
+const SESSION_VERSION_PREFIX = 'auth:session_version:'
+// Keys of the recent failed logins of an email and of its lockout
+const LOGIN_FAILURES_PREFIX = 'auth:login_failures:'
+const LOGIN_LOCK_PREFIX = 'auth:login_lock:'
+
+export class AuthService {
+    constructor(
+        private refreshTokensRepository: any = RefreshTokensRepository,
+        private usersRepository: any = UsersRepository,
+        private store: CacheStore = sharedStore,
+        private transaction: typeof withTransaction = withTransaction
+    ) {}
+
+    // Compared against when the email is unknown, so the response time does not reveal whether an account exists
+    private dummyPasswordHash?: string
+
+    /**
+     * Checks the credentials and starts a session.
+     *
+     * @param email - The email address of the account.
+     * @param password - The password.
+     * @returns The tokens, see `issueTokens`.
+     * @throws TooManyRequestsError while the email is locked out, with the seconds until the lockout ends.
+     * @throws UnauthorizedError if the email is unknown or the password is wrong.
+     * @throws ForbiddenError if the account is disabled or the email is not verified.
+     *
+     * @remarks
+     * Unknown emails and wrong passwords get the same response. After `config.loginLockout.threshold` failures within
+     * `config.loginLockout.window` seconds the email is locked out, every further failure doubles the lockout up to
+     * `config.loginLockout.maxDuration`. A successful login clears the failures.
+     * Disabled accounts and unverified emails are only reported once the password matched.
+     */
+    async login(email: string, password: string) {
+        const normalized = normalizeEmail(email)
+        const lockedFor = await this.store.getTtl(`${LOGIN_LOCK_PREFIX}${normalized}`)
+        if (lockedFor > 0) {
+            throw new TooManyRequestsError('Too many failed login attempts, please retry later', lockedFor, 'LOGIN_LOCKED')
+        }
+
+        const user = (await this.usersRepository.getUserByEmail(normalized)).rows[0]
+        const isMatch = await bcrypt.compare(password, user?.password ?? this.getDummyPasswordHash())
+        if (!user || !isMatch) {
+            await this.recordLoginFailure(normalized)
+            throw new UnauthorizedError('Invalid email or password', 'INVALID_CREDENTIALS')
+        }
+        await this.store.del(`${LOGIN_FAILURES_PREFIX}${normalized}`)
+
+        if (user.disabled_at) {
+            throw new ForbiddenError('Account is disabled', 'ACCOUNT_DISABLED')
+        }
+        if (!user.email_verified_at) {
+            throw new ForbiddenError('Email is not verified', 'EMAIL_NOT_VERIFIED')
+        }
+
+        return await this.issueTokens(user.id)
+    }
+
+    /**
+     * Starts a session: issues an access token and the first refresh token of a new token family.
+     * The access token carries the user's role and permissions, see `revokeAllSessions` for changing them.
+     *
+     * @param userId - The ID of the authenticated user.
+     * @returns A promise that resolves to the access token, the refresh token and the access token lifetime in seconds.
+     */
+    async issueTokens(userId: number) {
+        const access = await this.usersRepository.getUserAccess(userId)
+        const refreshToken = await this.createRefreshToken(this.refreshTokensRepository, userId, randomUUID())
+        return {
+            accessToken: this.signAccessToken(access),
+            refreshToken: refreshToken.token,
+            expiresIn: config.auth.accessTokenTtl
+        }
+    }
+
+    /**
+     * Exchanges a refresh token for a new access token and a new refresh token of the same family.
+     *
+     * @param refreshToken - The refresh token presented by the client.
+     * @returns The new tokens and the access token lifetime in seconds.
+     * @throws UnauthorizedError if the refresh token is unknown, revoked, expired or already used, or the account is disabled.
+     *
+     * @remarks
+     * A refresh token can be used once. Presenting a rotated token again means it was stolen,
+     * so the whole family is revoked and the legitimate client has to log in again as well.
+     * The new access token carries the current role and permissions of the user, disabled users cannot refresh.
+     */
+    async refresh(refreshToken: string) {
+        // Revoking a family must be committed, so those failures are returned from the transaction and thrown afterwards
+        const result = await this.transaction(async (tx) => {
+            const refreshTokensRepository = this.refreshTokensRepository.forTransaction(tx)
+            const stored = await refreshTokensRepository.getTokenByHashForUpdate(hashToken(refreshToken))
+            if (!stored || stored.revoked_at) {
+                throw new UnauthorizedError('Invalid refresh token', 'INVALID_REFRESH_TOKEN')
+            }
+            if (stored.used_at) {
+                await refreshTokensRepository.revokeFamily(stored.family_id)
+                return new UnauthorizedError('Refresh token has already been used, all sessions of this login were revoked', 'REFRESH_TOKEN_REUSED')
+            }
+            if (new Date(stored.expires_at).getTime() <= Date.now()) {
+                throw new UnauthorizedError('Refresh token has expired', 'REFRESH_TOKEN_EXPIRED')
+            }
+
+            const access = await this.usersRepository.forTransaction(tx).getUserAccess(stored.user_id)
+            if (!access || access.disabled_at) {
+                await refreshTokensRepository.revokeFamily(stored.family_id)
+                return new UnauthorizedError('Account is disabled', 'ACCOUNT_DISABLED')
+            }
+
+            const rotated = await this.createRefreshToken(refreshTokensRepository, stored.user_id, stored.family_id)
+            await refreshTokensRepository.markTokenUsed(stored.id, rotated.row.id)
+            return {
+                accessToken: this.signAccessToken(access),
+                refreshToken: rotated.token,
+                expiresIn: config.auth.accessTokenTtl
+            }
+        })
+        if (result instanceof UnauthorizedError) {
+            throw result
+        }
+        return result
+    }
+
+    /**
+     * Ends a session: the access token is denylisted until it expires and the family of the refresh token is revoked.
+     *
+     * @param payload - The verified payload of the access token used for the request, see `request.user.token`.
+     * @param refreshToken - The refresh token of the session, if the client sent it. Tokens of other users are ignored.
+     */
+    async logout(payload: AccessTokenPayload, refreshToken?: string) {
+        const remaining = payload.exp - Math.floor(Date.now() / 1000)
+        if (remaining > 0) {
+            await this.store.set(`${DENYLIST_PREFIX}${payload.jti}`, '1', remaining)
+        }
+        if (refreshToken) {
+            await this.refreshTokensRepository.revokeFamilyByTokenHash(hashToken(refreshToken), payload.user.id)
+        }
+    }
+
+    /**
+     * Ends every session of a user: all refresh tokens are revoked and the user's session version is incremented.
+     * Called after a password change and whenever the role or the account state changes, since access tokens embed them.
+     * The access tokens issued so far are only rejected once the returned version is passed to `publishSessionVersion`.
+     *
+     * @param userId - The ID of the user.
+     * @param tx - The client of a running transaction, so the revocation commits together with the change that caused it.
+     * @returns A promise that resolves to the new session version, to publish after the transaction committed.
+     *
+     * @remarks
+     * Tokens carry the session version they were issued with, so a token issued right before the revocation
+     * is rejected even within the same second, while a token issued right after it is accepted.
+     */
+    async revokeAllSessions(userId: number, tx?: any): Promise<number> {
+        const refreshTokensRepository = tx ? this.refreshTokensRepository.forTransaction(tx) : this.refreshTokensRepository
+        const usersRepository = tx ? this.usersRepository.forTransaction(tx) : this.usersRepository
+        await refreshTokensRepository.revokeUserTokens(userId)
+        return await usersRepository.incrementSessionVersion(userId)
+    }
+
+    /**
+     * Shares a session version returned by `revokeAllSessions` for the lifetime of an access token,
+     * from then on access tokens with a lower version are rejected.
+     *
+     * @param userId - The ID of the user.
+     * @param version - The committed session version. Publishing it before the commit would reject
+     *                  every new token of the user if the transaction rolled back.
+     */
+    async publishSessionVersion(userId: number, version: number) {
+        await this.store.set(`${SESSION_VERSION_PREFIX}${userId}`, String(version), config.auth.accessTokenTtl)
+    }
+
+    /**
+     * Checks a verified access token against the denylist and the user's current session version.
+     *
+     * @param payload - The verified payload of the access token.
+     * @returns A promise that resolves to `true` if the token must be rejected.
+     * @throws Will throw an error if the shared store is unavailable, callers must not accept the token then.
+     */
+    async isAccessTokenRevoked(payload: AccessTokenPayload) {
+        const [denylisted, version] = await Promise.all([
+            this.store.get(`${DENYLIST_PREFIX}${payload.jti}`),
+            this.store.get(`${SESSION_VERSION_PREFIX}${payload.user.id}`)
+        ])
+        // Tokens issued before session versions were embedded count as version 0
+        return denylisted !== null || (version !== null && (payload.user.sessionVersion ?? 0) < Number(version))
+    }
+
+    /**
+     * Counts a failed login and locks the email out once the failures reach the threshold.
+     *
+     * @param email - The lower-cased email the login was attempted for.
+     */
+    private async recordLoginFailure(email: string) {
+        const { threshold, window, baseDuration, maxDuration } = config.loginLockout
+        const key = `${LOGIN_FAILURES_PREFIX}${email}`
+        const failures = await this.store.increment(key, window)
+        if (failures >= threshold) {
+            const duration = Math.min(baseDuration * 2 ** (failures - threshold), maxDuration)
+            // The failures are kept past the lockout, so the next failure after it locks the email out for longer
+            await this.store.set(`${LOGIN_LOCK_PREFIX}${email}`, '1', duration)
+            await this.store.expire(key, duration + window)
+        }
+    }
+
+    private getDummyPasswordHash() {
+        if (!this.dummyPasswordHash) {
+            this.dummyPasswordHash = bcrypt.hashSync(generateToken(), Number(process.env.SALT) || 10)
+        }
+        return this.dummyPasswordHash
+    }
+
+    /**
+     * Signs an access token embedding what the user is allowed to do.
+     *
+     * @param access - The user's access as returned by `UsersRepository.getUserAccess`.
+     */
+    private signAccessToken(access: { id: number; role: string; permissions: string[]; password_reset_required: boolean; session_version: number }) {
+        const user = {
+            id: access.id,
+            role: access.role,
+            permissions: access.permissions,
+            passwordResetRequired: access.password_reset_required,
+            sessionVersion: access.session_version
+        }
+        return sign({ user }, config.auth.jwtSecret, { expiresIn: config.auth.accessTokenTtl, jwtid: randomUUID() })
+    }
+
+    /**
+     * Generates a refresh token and stores its hash.
+     *
+     * @returns The token, known only to the client from now on, and the stored row.
+     */
+    private async createRefreshToken(refreshTokensRepository: any, userId: number, familyId: string) {
+        const token = generateToken()
+        const row = await refreshTokensRepository.createToken({
+            userId,
+            familyId,
+            tokenHash: hashToken(token),
+            expiresAt: new Date(Date.now() + config.auth.refreshTokenTtl * 1000)
+        })
+        return { token, row }
+    }
+}
+
+export default new AuthService()
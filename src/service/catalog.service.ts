@@ -0,0 +1,149 @@
+import { SkinsRepository } from '../repository'
+import { withTransaction } from '../config/db.config'
+import config from '../config/config'
+import { runSkinWorker, SkinWorkerItem } from '../workers'
+
+class CatalogService {
+    private timer: NodeJS.Timeout | null = null
+    private running: Promise<any> | null = null
+
+    constructor(
+        private skinsRepository: any = SkinsRepository,
+        private transaction: typeof withTransaction = withTransaction
+    ) {}
+
+    /**
+     * Syncs the catalog now and then every `intervalSeconds`.
+     *
+     * @param intervalSeconds - The number of seconds between two syncs.
+     */
+    startScheduledSync(intervalSeconds: number) {
+        this.stopScheduledSync()
+        this.sync()
+        this.timer = setInterval(() => this.sync(), intervalSeconds * 1000)
+        this.timer.unref()
+    }
+
+    /**
+     * Stops the scheduled sync. A sync that is already running is not interrupted.
+     */
+    stopScheduledSync() {
+        if (this.timer) {
+            clearInterval(this.timer)
+            this.timer = null
+        }
+    }
+
+    /**
+     * Waits for a running sync to finish, e.g. before the database pool is closed on shutdown.
+     *
+     * @returns A promise that resolves once no sync is running, it never rejects.
+     */
+    async waitForSync() {
+        await this.running
+    }
+
+    /**
+     * Fetches the upstream catalog with the skin worker and stores it in the `items` table.
+     *
+     * @returns A promise that resolves to the finished `catalog_sync_runs` row, or to `undefined` if recording the run failed.
+     *
+     * @remarks
+     * - The base currency drives the catalog: items are upserted by `market_hash_name`, their prices are appended
+     *   to `price_history` and items missing from the upstream are marked as delisted.
+     * - Every other currency of `MARKET_CURRENCIES` is fetched as well and stored in `item_prices`.
+     * - Everything is written in one transaction, so readers never see a half-synced catalog.
+     * - Calling it while a sync is running returns the running sync instead of starting another one.
+     * - Another process syncing at the same time makes the run `skipped`.
+     * - An empty upstream response in the base currency fails the run instead of delisting the whole catalog.
+     *   A failing non-base currency keeps its previous prices and makes the run `partial`.
+     * - Errors are recorded on the run and logged, the returned promise never rejects.
+     */
+    sync() {
+        if (!this.running) {
+            this.running = this.runSync().finally(() => {
+                this.running = null
+            })
+        }
+        return this.running
+    }
+
+    /**
+     * Performs a single sync run, see `sync`.
+     */
+    private async runSync() {
+        let run
+        try {
+            run = await this.skinsRepository.startSyncRun()
+            const items = await runSkinWorker({ appId: config.market.appId, currency: config.market.currency })
+            if (!items.length) {
+                throw new Error('Upstream returned an empty catalog')
+            }
+
+            const skins = new Map<string, { market_hash_name: string; name: string; min_price_non_tradable: number | null; min_price_tradable: number | null }>()
+            items.forEach((item) => {
+                skins.set(item.name, {
+                    market_hash_name: item.name,
+                    name: item.name,
+                    min_price_non_tradable: item.min_price_non_tradable ?? null,
+                    min_price_tradable: item.min_price_tradable ?? null
+                })
+            })
+
+            const prices = new Map<string, SkinWorkerItem[]>()
+            const errors: string[] = []
+            for (const currency of config.market.currencies.filter((code) => code !== config.market.currency)) {
+                try {
+                    const catalog = await runSkinWorker({ appId: config.market.appId, currency })
+                    if (!catalog.length) {
+                        throw new Error('Upstream returned an empty catalog')
+                    }
+                    prices.set(currency, catalog)
+                } catch (err: any) {
+                    console.error(`Catalog sync in ${currency} failed:`, err)
+                    errors.push(`${currency}: ${err?.message || String(err)}`)
+                }
+            }
+
+            const syncedAt = new Date()
+            const result = await this.transaction(async (tx) => {
+                const skinsRepository = this.skinsRepository.forTransaction(tx)
+                if (!(await skinsRepository.tryLockCatalogSync())) {
+                    return null
+                }
+                const upserted = await skinsRepository.upsertSkins([...skins.values()], syncedAt)
+                await skinsRepository.recordPriceSnapshots(syncedAt)
+                const delisted = await skinsRepository.markDelistedSkins(syncedAt)
+                for (const [currency, catalog] of prices) {
+                    const unique = new Map(catalog.map((item) => [item.name, item]))
+                    await skinsRepository.upsertItemPrices(
+                        currency,
+                        [...unique.values()].map((item) => ({
+                            market_hash_name: item.name,
+                            min_price_non_tradable: item.min_price_non_tradable ?? null,
+                            min_price_tradable: item.min_price_tradable ?? null
+                        })),
+                        syncedAt
+                    )
+                    await skinsRepository.deleteStaleItemPrices(currency, syncedAt)
+                }
+                return { upserted, delisted }
+            })
+
+            if (!result) {
+                return await this.skinsRepository.finishSyncRun(run.id, { status: 'skipped', fetched: items.length })
+            }
+            if (errors.length) {
+                return await this.skinsRepository.finishSyncRun(run.id, { status: 'partial', fetched: items.length, ...result, error: errors.join('; ') })
+            }
+            return await this.skinsRepository.finishSyncRun(run.id, { status: 'succeeded', fetched: items.length, ...result })
+        } catch (err: any) {
+            console.error('Catalog sync failed:', err)
+            if (run) {
+                return await this.skinsRepository.finishSyncRun(run.id, { status: 'failed', error: err?.message || String(err) }).catch(() => undefined)
+            }
+        }
+    }
+}
+
+export default new CatalogService()
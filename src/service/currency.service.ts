@@ -0,0 +1,77 @@
+import { ExchangeRatesRepository } from '../repository'
+import config from '../config/config'
+import { createExchangeRateProvider, ExchangeRateProvider } from '../providers'
+
+export class CurrencyService {
+    private timer: NodeJS.Timeout | null = null
+    private provider: ExchangeRateProvider | null = null
+
+    constructor(private exchangeRatesRepository: any = ExchangeRatesRepository) {}
+
+    /**
+     * Loads the exchange rates now and then every `intervalSeconds`.
+     *
+     * @param intervalSeconds - The number of seconds between two loads.
+     */
+    startScheduledLoad(intervalSeconds: number) {
+        this.stopScheduledLoad()
+        this.loadRates()
+        this.timer = setInterval(() => this.loadRates(), intervalSeconds * 1000)
+        this.timer.unref()
+    }
+
+    /**
+     * Stops the scheduled load. A load that is already running is not interrupted.
+     */
+    stopScheduledLoad() {
+        if (this.timer) {
+            clearInterval(this.timer)
+            this.timer = null
+        }
+    }
+
+    /**
+     * Fetches the rates from the base currency to every other currency of `MARKET_CURRENCIES`
+     * and appends them to `exchange_rates`.
+     *
+     * @returns A promise that resolves to the stored rate rows, or to an empty array if loading failed.
+     *
+     * @remarks
+     * - Conversions always use the latest stored rate, requests never fetch rates themselves.
+     * - Errors are logged and the previous rates stay in use, the returned promise never rejects.
+     */
+    async loadRates() {
+        const quotes = config.market.currencies.filter((currency) => currency !== config.market.currency)
+        if (!quotes.length) {
+            return []
+        }
+        try {
+            this.provider ??= createExchangeRateProvider()
+            const rates = await this.provider.fetchRates(config.market.currency, quotes)
+            const missing = quotes.filter((quote) => !rates[quote])
+            if (missing.length) {
+                console.error(`Exchange rate provider returned no rate for ${missing.join(', ')}`)
+            }
+            return await this.exchangeRatesRepository.addRates(config.market.currency, rates, this.provider.name)
+        } catch (err) {
+            console.error('Loading exchange rates failed:', err)
+            return []
+        }
+    }
+
+    /**
+     * Retrieves the latest stored rate to convert an amount from the base currency.
+     *
+     * @param quote - The currency to convert to.
+     * @returns A promise that resolves to the rate row, a rate of 1 without an ID for the base currency itself,
+     *          or `undefined` if no rate to `quote` has been loaded.
+     */
+    async getRateFromBase(quote: string) {
+        if (quote === config.market.currency) {
+            return { id: null, rate: 1 }
+        }
+        return await this.exchangeRatesRepository.getLatestRate(config.market.currency, quote)
+    }
+}
+
+export default new CurrencyService()
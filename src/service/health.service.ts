@@ -0,0 +1,75 @@
+import { pool } from '../config/db.config'
+import { redis } from '../config/redis.config'
+import config from '../config/config'
+import { skinWorkerPool } from '../workers'
+
+/**
+ * Resolves if a dependency can be used, rejects with the reason otherwise.
+ */
+export type HealthCheck = () => Promise<unknown>
+
+export interface HealthCheckResult {
+    status: 'up' | 'down'
+    durationMs: number
+    error?: string
+}
+
+/**
+ * The dependencies every request may need: the database, Redis and the skin worker pool.
+ * The pool only fails its check once it was closed, busy workers are not a failure since tasks wait for them.
+ */
+export const defaultHealthChecks: Record<string, HealthCheck> = {
+    postgres: () => pool.query('SELECT 1'),
+    redis: () => redis.ping(),
+    workers: async () => {
+        if (skinWorkerPool.stats().closed) {
+            throw new Error('Worker pool is closed')
+        }
+    }
+}
+
+export class HealthService {
+    constructor(
+        private checks: Record<string, HealthCheck> = defaultHealthChecks,
+        private timeout: number = config.health.timeout
+    ) {}
+
+    /**
+     * Runs every check in parallel, each with the `HEALTH_CHECK_TIMEOUT_MS` timeout.
+     *
+     * @returns Whether every check passed and the result of each check by name.
+     *          The error of a failed check is only included with `NODE_ENV` set to `development` or `test`.
+     */
+    async checkReadiness() {
+        const results = await Promise.all(Object.entries(this.checks).map(async ([name, check]) => [name, await this.run(check)] as const))
+        return {
+            ready: results.every(([, result]) => result.status === 'up'),
+            checks: Object.fromEntries(results) as Record<string, HealthCheckResult>
+        }
+    }
+
+    /**
+     * Runs one check, a check still pending after the timeout is reported as down.
+     */
+    private async run(check: HealthCheck): Promise<HealthCheckResult> {
+        const startedAt = Date.now()
+        let timer: NodeJS.Timeout | undefined
+        const timeout = new Promise<never>((_, reject) => {
+            timer = setTimeout(() => reject(new Error(`Timed out after ${this.timeout} ms`)), this.timeout)
+        })
+        try {
+            await Promise.race([check(), timeout])
+            return { status: 'up', durationMs: Date.now() - startedAt }
+        } catch (err: any) {
+            return {
+                status: 'down',
+                durationMs: Date.now() - startedAt,
+                error: config.exposeErrorDetails ? err?.message || String(err) : undefined
+            }
+        } finally {
+            clearTimeout(timer)
+        }
+    }
+}
+
+export default new HealthService()
@@ -1,4 +1,10 @@
 import UserService from './user.service'
 import SkinService from './skin.service'
+import CatalogService from './catalog.service'
+import CurrencyService from './currency.service'
+import AuthService from './auth.service'
+import AccountService from './account.service'
+import RegistrationService from './registration.service'
+import HealthService from './health.service'
 
-export { UserService, SkinService }
+export { UserService, SkinService, CatalogService, CurrencyService, AuthService, AccountService, RegistrationService, HealthService }
@@ -0,0 +1,201 @@
+import { UsersRepository, UserTokensRepository } from '../repository'
+import { UserTokenPurpose } from '../repository/user-tokens.repository'
+import { withTransaction } from '../config/db.config'
+import { mailer, MailMessage } from '../mailer'
+import config from '../config/config'
+import { generateToken, hashToken } from '../utils/token'
+import { validatePassword } from '../utils/password'
+import { normalizeEmail, isValidEmail } from '../utils/email'
+import AuthService from './auth.service'
+import { ValidationError, ConflictError } from '../errors'
+
+const UNIQUE_VIOLATION = '23505'
+
+/**
+ * Self-service account flows: registration, email verification and password reset.
+ * The links sent by email carry single-use tokens, only their hashes are stored.
+ */
+export class RegistrationService {
+    constructor(
+        private usersRepository: any = UsersRepository,
+        private userTokensRepository: any = UserTokensRepository,
+        private authService: any = AuthService,
+        private mailTransport: any = mailer,
+        private transaction: typeof withTransaction = withTransaction
+    ) {}
+
+    /**
+     * Creates an account and sends the email verification link. The user can log in once the email is verified.
+     *
+     * @param email - The email address, stored lower-cased.
+     * @param password - The password, checked against the password rules.
+     * @returns The created user.
+     * @throws ValidationError if the email is invalid or the password breaks the password rules.
+     * @throws ConflictError if the email is already registered.
+     */
+    async register(email: string, password: string) {
+        const normalized = normalizeEmail(email)
+        if (!isValidEmail(normalized)) {
+            throw new ValidationError('Invalid email', 'INVALID_EMAIL')
+        }
+        const passwordError = validatePassword(password, normalized)
+        if (passwordError) {
+            throw new ValidationError(passwordError, 'WEAK_PASSWORD')
+        }
+
+        let registered: { user: any; token: string }
+        try {
+            registered = await this.transaction(async (tx) => {
+                const user = await this.usersRepository.forTransaction(tx).createUser({ email: normalized, password, currency: config.market.currency })
+                const token = await this.issueToken(this.userTokensRepository.forTransaction(tx), user.id, 'email_verification')
+                return { user, token }
+            })
+        } catch (error: any) {
+            if (error?.code === UNIQUE_VIOLATION) {
+                throw new ConflictError('Email is already registered', 'EMAIL_TAKEN')
+            }
+            throw error
+        }
+
+        await this.deliver(this.verificationMessage(normalized, registered.token))
+        return registered.user
+    }
+
+    /**
+     * Verifies the email of the account the token was sent to.
+     *
+     * @param token - The token from the verification link.
+     * @throws ValidationError if the token is unknown, expired or already used.
+     */
+    async verifyEmail(token: string) {
+        await this.transaction(async (tx) => {
+            const userTokensRepository = this.userTokensRepository.forTransaction(tx)
+            const stored = await this.redeemToken(userTokensRepository, token, 'email_verification')
+            if (!stored) {
+                throw new ValidationError('Invalid or expired verification link', 'INVALID_TOKEN')
+            }
+            await this.usersRepository.forTransaction(tx).markEmailVerified(stored.user_id)
+        })
+    }
+
+    /**
+     * Sends a new verification link to an unverified account, the previous links stop working.
+     * Does nothing for unknown, verified or disabled accounts, so the response does not reveal which emails are registered.
+     *
+     * @param email - The email address of the account.
+     */
+    async resendVerification(email: string) {
+        const normalized = normalizeEmail(email)
+        const user = (await this.usersRepository.getUserByEmail(normalized)).rows[0]
+        if (!user || user.email_verified_at || user.disabled_at) {
+            return
+        }
+        const token = await this.transaction(async (tx) => {
+            const userTokensRepository = this.userTokensRepository.forTransaction(tx)
+            await userTokensRepository.useUserTokens(user.id, 'email_verification')
+            return await this.issueToken(userTokensRepository, user.id, 'email_verification')
+        })
+        await this.deliver(this.verificationMessage(normalized, token))
+    }
+
+    /**
+     * Sends a password reset link, the previous links stop working.
+     * Does nothing for unknown or disabled accounts, so the response does not reveal which emails are registered.
+     *
+     * @param email - The email address of the account.
+     */
+    async requestPasswordReset(email: string) {
+        const normalized = normalizeEmail(email)
+        const user = (await this.usersRepository.getUserByEmail(normalized)).rows[0]
+        if (!user || user.disabled_at) {
+            return
+        }
+        const token = await this.transaction(async (tx) => {
+            const userTokensRepository = this.userTokensRepository.forTransaction(tx)
+            await userTokensRepository.useUserTokens(user.id, 'password_reset')
+            return await this.issueToken(userTokensRepository, user.id, 'password_reset')
+        })
+        await this.deliver({
+            to: normalized,
+            subject: 'Reset your password',
+            text: `Open the link to choose a new password, it is valid for ${Math.round(config.auth.passwordResetTtl / 60)} minutes:\n${config.mail.appUrl}/reset-password?token=${token}\n\nIf you did not ask for it, ignore this message.`
+        })
+    }
+
+    /**
+     * Sets a new password with the token from a password reset link and ends every session of the user.
+     * The email counts as verified, since the user received the link.
+     *
+     * @param token - The token from the password reset link.
+     * @param password - The new password, checked against the password rules.
+     * @throws ValidationError if the token cannot be redeemed or the password breaks the password rules.
+     * The token stays usable after a rejected password, since the transaction is rolled back.
+     */
+    async resetPassword(token: string, password: string) {
+        const revocation = await this.transaction(async (tx) => {
+            const usersRepository = this.usersRepository.forTransaction(tx)
+            const userTokensRepository = this.userTokensRepository.forTransaction(tx)
+            const stored = await this.redeemToken(userTokensRepository, token, 'password_reset')
+            if (!stored) {
+                throw new ValidationError('Invalid or expired password reset link', 'INVALID_TOKEN')
+            }
+            const user = (await usersRepository.getUserCredentialsById(stored.user_id)).rows[0]
+            const passwordError = validatePassword(password, user.email)
+            if (passwordError) {
+                throw new ValidationError(passwordError, 'WEAK_PASSWORD')
+            }
+            await usersRepository.changePassword(user.id, password)
+            await usersRepository.markEmailVerified(user.id)
+            return { userId: user.id, version: await this.authService.revokeAllSessions(user.id, tx) }
+        })
+        await this.authService.publishSessionVersion(revocation.userId, revocation.version)
+    }
+
+    /**
+     * Generates a token and stores its hash.
+     *
+     * @returns The token, known only to the recipient of the email from now on.
+     */
+    private async issueToken(userTokensRepository: any, userId: number, purpose: UserTokenPurpose) {
+        const token = generateToken()
+        const ttl = purpose === 'password_reset' ? config.auth.passwordResetTtl : config.auth.emailVerificationTtl
+        await userTokensRepository.createToken({ userId, purpose, tokenHash: hashToken(token), expiresAt: new Date(Date.now() + ttl * 1000) })
+        return token
+    }
+
+    /**
+     * Looks up an unused, unexpired token and uses up every token of its user with the same purpose.
+     * Must be called inside a transaction.
+     *
+     * @returns The token row, or `undefined` if the token cannot be redeemed.
+     */
+    private async redeemToken(userTokensRepository: any, token: string, purpose: UserTokenPurpose) {
+        const stored = await userTokensRepository.getTokenByHashForUpdate(hashToken(token), purpose)
+        if (!stored || stored.used_at || new Date(stored.expires_at).getTime() <= Date.now()) {
+            return undefined
+        }
+        await userTokensRepository.useUserTokens(stored.user_id, purpose)
+        return stored
+    }
+
+    private verificationMessage(email: string, token: string): MailMessage {
+        return {
+            to: email,
+            subject: 'Verify your email',
+            text: `Open the link to verify your email, it is valid for ${Math.round(config.auth.emailVerificationTtl / 3600)} hours:\n${config.mail.appUrl}/verify-email?token=${token}`
+        }
+    }
+
+    /**
+     * Sends a message. A failed delivery is logged rather than failing the request, the user can ask for a new link.
+     */
+    private async deliver(message: MailMessage) {
+        try {
+            await this.mailTransport.send(message)
+        } catch (err) {
+            console.error(`Sending "${message.subject}" to ${message.to} failed:`, err)
+        }
+    }
+}
+
+export default new RegistrationService()
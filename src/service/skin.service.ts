@@ -1,83 +1,401 @@
-import { FastifyReply, FastifyRequest } from 'fastify'
-import Redis from 'ioredis';
-import { Worker } from 'worker_threads'
+import { randomUUID } from 'crypto'
+import config from '../config/config'
+import { SkinsRepository, ExchangeRatesRepository } from '../repository'
+import { CatalogQuery, SkinFields } from '../repository/skins.repository'
+import { roundMoney } from '../utils/money'
+import { MarketQuery } from '../providers'
+import { streamSkinWorker, SkinStream, SkinWorkerItem } from '../workers'
+import { cacheStore, CacheStore } from '../cache'
+import { CircuitOpenError } from '../utils/circuit-breaker'
+import { primeAsyncIterator } from '../utils/stream'
+import { ValidationError, ConflictError, NotFoundError, ServiceUnavailableError, UpstreamError } from '../errors'
 
-const redis = new Redis({
-    host: process.env.REDIS_HOST,
-    port: Number(process.env.REDIS_PORT)
-});
+// PostgreSQL error code raised by the unique index on items.market_hash_name
+const UNIQUE_VIOLATION = '23505'
+
+// Milliseconds between two cache reads while another process refreshes the live catalog
+const CACHE_POLL_INTERVAL = 250
+
+const HOUR = 60 * 60 * 1000
+const CHANGE_PERIODS: Record<string, number> = {
+    '24h': 24 * HOUR,
+    '7d': 7 * 24 * HOUR,
+    '30d': 30 * 24 * HOUR
+}
+
+/**
+ * Computes the percentage change between two prices, rounded to two decimals.
+ *
+ * @param previous - The older price.
+ * @param current - The newer price.
+ * @returns The change in percent, or `null` if either price is missing or the older price is zero.
+ */
+const percentChange = (previous?: number | null, current?: number | null) => {
+    if (previous === null || previous === undefined || current === null || current === undefined || previous === 0) {
+        return null
+    }
+    return roundMoney(((current - previous) / previous) * 100)
+}
+
+interface CachedSkins {
+    fetchedAt: number
+    // The cache list holding the catalog, one JSON array of skins per entry
+    listKey: string
+    batches: number
+}
+
+type CatalogPageQuery = Omit<CatalogQuery, 'after' | 'conversion'> & { currency: string }
+
+/**
+ * Encodes the position after a skin into an opaque pagination cursor bound to the sort and currency it was produced with.
+ */
+const encodeCursor = (query: CatalogPageQuery, last: { id: number; sort_value: string | number }) =>
+    Buffer.from(JSON.stringify({ sort: query.sort, order: query.order, currency: query.currency, value: String(last.sort_value), id: last.id })).toString(
+        'base64url'
+    )
+
+/**
+ * Decodes a pagination cursor produced by `encodeCursor`.
+ *
+ * @returns The position to continue after, or `undefined` if the cursor is malformed or was produced with another sort or currency.
+ */
+const decodeCursor = (cursor: string, query: CatalogPageQuery) => {
+    try {
+        const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'))
+        if (decoded.sort !== query.sort || decoded.order !== query.order || decoded.currency !== query.currency || typeof decoded.value !== 'string' || !Number.isInteger(decoded.id)) {
+            return undefined
+        }
+        return { value: decoded.value as string, id: decoded.id as number }
+    } catch (err) {
+        return undefined
+    }
+}
+
+export class SkinService {
+    constructor(
+        private skinsRepository: any = SkinsRepository,
+        private exchangeRatesRepository: any = ExchangeRatesRepository,
+        private cache: CacheStore = cacheStore,
+        private streamSkins: SkinStream = streamSkinWorker
+    ) {}
 
-class SkinService {
     /**
-     * Retrieves skins data by utilizing a worker thread and caches the result.
-     * 
-     * @param req - The Fastify request object.
-     * @param res - The Fastify reply object.
-     * 
+     * Retrieves a page of the synced catalog.
+     *
+     * @param query - The filters, the sort, the page size and the currency of the prices, one of `MARKET_CURRENCIES`.
+     * @param cursor - The `nextCursor` of the previous page, if any.
+     * @returns An object with the skins, the total number of matching skins and the cursor of the next page, `null` on the last page.
+     * @throws ValidationError if the cursor is malformed or was produced with another sort or currency.
+     * @throws ServiceUnavailableError if no exchange rate to the currency has been loaded.
      * @remarks
-     * This method first attempts to retrieve the skins data from a Redis cache.
-     * If the data is found in the cache, it is returned immediately.
-     * If not, a worker thread is spawned to fetch the data.
-     * The response is streamed back to the client in chunks.
-     * The fetched data is then cached in Redis for subsequent requests.
-     * 
-     * @throws Internal server error if there is an issue with Redis or the worker thread.
+     * Overrides and skins without a price synced in the requested currency are converted
+     * with the latest stored exchange rate, so a non-base currency needs a loaded rate.
+     */
+    async getCatalog(query: CatalogPageQuery, cursor?: string) {
+        const after = cursor ? decodeCursor(cursor, query) : undefined
+        if (cursor && !after) {
+            throw new ValidationError('Invalid cursor', 'INVALID_CURSOR')
+        }
+
+        const { currency, ...filters } = query
+        let conversion
+        if (currency !== config.market.currency) {
+            const rate = await this.exchangeRatesRepository.getLatestRate(config.market.currency, currency)
+            if (!rate) {
+                throw new ServiceUnavailableError(`No exchange rate to ${currency} has been loaded yet`, undefined, 'EXCHANGE_RATE_UNAVAILABLE')
+            }
+            conversion = { currency, rate: rate.rate }
+        }
+
+        const [page, total] = await Promise.all([
+            this.skinsRepository.getSkins({ ...filters, conversion, after, limit: query.limit + 1 }),
+            this.skinsRepository.countSkins({ ...filters, conversion })
+        ])
+        const rows = page.rows.slice(0, query.limit)
+        const items = rows.map(({ sort_value, ...skin }: any) => skin)
+
+        return {
+            currency,
+            items,
+            total,
+            nextCursor: page.rows.length > query.limit ? encodeCursor(query, rows[rows.length - 1]) : null
+        }
+    }
+
+    /**
+     * Retrieves a skin as customers see it.
+     *
+     * @param id - The ID of the skin.
+     * @returns The skin with its prices including overrides, or `undefined` if it does not exist or is hidden or deleted.
      */
-    async getSkinsByWorker(req: FastifyRequest, res: FastifyReply) {
-        const cacheKey = 'skins_data'
+    async getSkinById(id: number) {
+        return await this.skinsRepository.getVisibleSkinById(id)
+    }
 
+    /**
+     * Adds a skin to the catalog manually.
+     *
+     * @param fields - The fields of the new skin, `name` is required.
+     * @returns The created skin.
+     * @throws ConflictError if a skin with the same `market_hash_name` exists.
+     */
+    async createSkin(fields: Partial<SkinFields> & { name: string }) {
+        try {
+            return await this.skinsRepository.createSkin(fields)
+        } catch (error: any) {
+            throw this.toConflict(error)
+        }
+    }
+
+    /**
+     * Updates the provided fields of a skin, the other fields keep their values.
+     *
+     * @param id - The ID of the skin.
+     * @param fields - The fields to change.
+     * @returns The updated skin.
+     * @throws NotFoundError if the skin does not exist.
+     * @throws ConflictError if another skin has the new `market_hash_name`.
+     */
+    async updateSkin(id: number, fields: Partial<SkinFields>) {
+        let skin
         try {
-            let cachedData = await redis.get(cacheKey);
-            if (cachedData) {
-                res.send({
-                    statusCode: 200,
-                    msg: 'Skins retrieved successfully (from cache)',
-                    data: JSON.parse(cachedData)
-                });
-                return;
+            skin = await this.skinsRepository.updateSkinFields(id, fields)
+        } catch (error: any) {
+            throw this.toConflict(error)
+        }
+        if (!skin) {
+            throw new NotFoundError('Skin not found')
+        }
+        return skin
+    }
+
+    /**
+     * Maps a violation of the unique index on `market_hash_name` to a `ConflictError`, other errors are returned as they are.
+     */
+    private toConflict(error: any) {
+        if (error?.code === UNIQUE_VIOLATION) {
+            return new ConflictError('A skin with this market_hash_name already exists', 'MARKET_HASH_NAME_TAKEN')
+        }
+        return error
+    }
+
+    /**
+     * Soft-deletes a skin, it disappears from the catalog and can no longer be purchased.
+     *
+     * @param id - The ID of the skin.
+     * @returns The deleted skin, or `undefined` if it does not exist or is already deleted.
+     */
+    async deleteSkin(id: number) {
+        return await this.skinsRepository.deleteSkin(id)
+    }
+
+    /**
+     * Retrieves the price history of a skin as a time-bucketed series and its price change over 24h, 7d and 30d.
+     *
+     * @param id - The ID of the skin.
+     * @param interval - The bucket size, `hour` or `day`.
+     * @param from - The inclusive start of the series.
+     * @param to - The exclusive end of the series.
+     * @returns An object with the skin, the series and the percentage changes of both prices,
+     *          or `undefined` if the skin does not exist or is hidden or deleted.
+     *
+     * @remarks
+     * Changes compare the latest snapshot with the latest snapshot recorded before the start of each period,
+     * a change is `null` when there is no snapshot old enough.
+     */
+    async getSkinHistory(id: number, interval: 'hour' | 'day', from: Date, to: Date) {
+        const skin = await this.skinsRepository.getVisibleSkinById(id)
+        if (!skin) {
+            return undefined
+        }
+
+        const now = new Date()
+        const [series, latest, ...past] = await Promise.all([
+            this.skinsRepository.getPriceHistory(id, interval, from, to),
+            this.skinsRepository.getPriceSnapshotAt(id, now),
+            ...Object.values(CHANGE_PERIODS).map((period) => this.skinsRepository.getPriceSnapshotAt(id, new Date(now.getTime() - period)))
+        ])
+
+        const change: Record<string, { tradable: number | null; non_tradable: number | null }> = {}
+        Object.keys(CHANGE_PERIODS).forEach((period, index) => {
+            change[period] = {
+                tradable: percentChange(past[index]?.min_price_tradable, latest?.min_price_tradable),
+                non_tradable: percentChange(past[index]?.min_price_non_tradable, latest?.min_price_non_tradable)
             }
-        } catch (err) {
-            console.error('Redis error:', err);
-            res.status(500).send({ error: 'Internal server error (cache)' });
-            return;
-        }
-
-        const worker = new Worker('./src/workers/skin.worker.js')
-
-        res.raw.setHeader('Content-Type', 'application/json')
-        res.raw.setHeader('Transfer-Encoding', 'chunked')
-        res.raw.setHeader('Connection', 'keep-alive')
-        res.raw.write('')
-
-        let responseData: string = ''
-
-        worker.on('message', (message) => {
-            if (message !== null) {
-                const data = JSON.parse(JSON.stringify(message))
-                res.raw.write(data)
-                responseData += data
-            } else {
-                try {
-                    res.raw.end()
-                } catch (err) {
-                    console.error('JSON parsing error:', err)
-                    res.status(500).send({ error: 'Internal server error while parsing JSON' })
+        })
+
+        return {
+            skin: { id: skin.id, name: skin.name },
+            series,
+            change
+        }
+    }
+
+    /**
+     * Streams the live catalog fetched by the skin worker, cached per app ID and currency.
+     *
+     * @param query - The app ID and the currency of the catalog.
+     * @param signal - Aborts a fetch started for this request, e.g. when the client disconnects.
+     * @returns An object with an async iterator over the batches of skins, the time they were fetched
+     *          and the cache status: `HIT` for a fresh cached catalog, `STALE` for an outdated one served while it is refreshed
+     *          in the background and `MISS` for a catalog fetched for this request.
+     * @throws ServiceUnavailableError if the circuit of the market is open and the catalog is not cached.
+     * @throws UpstreamError if the worker fails before its first batch, the cause is only logged.
+     *
+     * @remarks
+     * - Only one batch is held in memory per request, both when streaming from the worker and from the cache.
+     *   A catalog is cached as a list of batches and published once its last batch is stored.
+     * - A cached catalog is fresh for `SKINS_CACHE_TTL` seconds and may be served stale for `SKINS_CACHE_STALE_TTL` more seconds.
+     * - Refreshes are single-flight: a cache lock lets one request fetch while the others wait up to
+     *   `SKINS_CACHE_WAIT_TIMEOUT` seconds for the catalog to be cached before fetching it themselves.
+     * - While Redis is unavailable every process caches in memory.
+     * - While the circuit of the market is open, cached catalogs are served as usual and a missing one fails fast
+     *   with the number of seconds to wait.
+     */
+    async getSkinsByWorker(query: MarketQuery, signal?: AbortSignal) {
+        const key = `skins_data:${query.appId}:${query.currency}`
+        try {
+            const cached = await this.readCachedSkins(key)
+            if (cached) {
+                const fresh = Date.now() - cached.fetchedAt < config.skinsCache.ttl * 1000
+                if (!fresh) {
+                    this.refreshInBackground(key, query)
+                }
+                return { cache: fresh ? 'HIT' : 'STALE', fetchedAt: cached.fetchedAt, batches: cached.batches }
+            }
+
+            const lockKey = `lock:${key}`
+            const token = await this.cache.acquireLock(lockKey, config.skinsCache.lockTtl * 1000)
+            if (!token) {
+                const awaited = await this.waitForSkins(key, signal)
+                if (awaited) {
+                    return { cache: 'HIT', fetchedAt: awaited.fetchedAt, batches: awaited.batches }
                 }
             }
-        });
-
-        worker.on('error', (error) => {
-            console.error('Worker error:', error);
-            res.status(500).send({ error: 'Internal server error' });
-        });
-
-        worker.on('exit', async(code) => {
-            if (code !== 0) {
-                console.log(`Worker stopped with exit code ${code}`);
-            } else {
-                await redis.set(cacheKey, responseData, 'EX', 300);
+            const batches = await this.fetchSkins(key, query, token ? { key: lockKey, token } : null, signal)
+            return { cache: 'MISS', fetchedAt: Date.now(), batches }
+        } catch (err: any) {
+            if (err instanceof CircuitOpenError) {
+                throw new ServiceUnavailableError('The market is unavailable, please retry later', Math.ceil(err.retryAfter / 1000), 'MARKET_UNAVAILABLE')
+            }
+            throw new UpstreamError('Failed to fetch skins from the market', err)
+        }
+    }
+
+    /**
+     * Opens a cached catalog.
+     *
+     * @returns A promise that resolves to the fetch time and an iterator over the cached batches,
+     *          or `null` if the catalog is missing, unreadable or its batches expired.
+     */
+    private async readCachedSkins(key: string) {
+        const raw = await this.cache.get(key)
+        if (!raw) {
+            return null
+        }
+        try {
+            const cached = JSON.parse(raw) as CachedSkins
+            if (!Number.isFinite(cached.fetchedAt) || typeof cached.listKey !== 'string' || !Number.isInteger(cached.batches)) {
+                return null
+            }
+            return { fetchedAt: cached.fetchedAt, batches: await primeAsyncIterator(this.readCachedBatches(cached)) }
+        } catch (err) {
+            return null
+        }
+    }
+
+    /**
+     * Reads the batches of a cached catalog one at a time.
+     *
+     * @throws Will throw an error if a batch is missing.
+     */
+    private async *readCachedBatches(cached: CachedSkins) {
+        for (let index = 0; index < cached.batches; index++) {
+            const [raw] = await this.cache.getListRange(cached.listKey, index, index)
+            if (raw === undefined) {
+                throw new Error(`Cached catalog ${cached.listKey} is incomplete`)
+            }
+            yield JSON.parse(raw) as SkinWorkerItem[]
+        }
+    }
+
+    /**
+     * Refreshes a stale catalog without a client, unless another request holds the refresh lock.
+     * Errors are logged, the stale catalog stays in use.
+     */
+    private async refreshInBackground(key: string, query: MarketQuery) {
+        try {
+            const lockKey = `lock:${key}`
+            const token = await this.cache.acquireLock(lockKey, config.skinsCache.lockTtl * 1000)
+            if (!token) {
+                return
+            }
+            for await (const _ of await this.fetchSkins(key, query, { key: lockKey, token })) {
+                // Every batch is cached while it is consumed
+            }
+        } catch (err) {
+            console.error(`Background refresh of ${key} failed:`, err)
+        }
+    }
+
+    /**
+     * Polls the cache until another request has cached the catalog.
+     *
+     * @returns A promise that resolves to the opened catalog, or `null` if it did not appear within `SKINS_CACHE_WAIT_TIMEOUT` seconds.
+     * @throws The reason of `signal` if the request is aborted while waiting.
+     */
+    private async waitForSkins(key: string, signal?: AbortSignal) {
+        const deadline = Date.now() + config.skinsCache.waitTimeout * 1000
+        while (Date.now() < deadline) {
+            await new Promise((resolve) => setTimeout(resolve, CACHE_POLL_INTERVAL))
+            signal?.throwIfAborted()
+            const cached = await this.readCachedSkins(key)
+            if (cached) {
+                return cached
+            }
+        }
+        return null
+    }
+
+    /**
+     * Streams the catalog from the skin worker and caches each batch as it passes, for the fresh and the stale period.
+     * The catalog is published only after its last batch was cached, and the refresh lock is released when the stream ends.
+     *
+     * @param lock - The refresh lock held by this fetch, if any.
+     * @returns A promise that resolves, once the first batch arrived, to an async iterator over the batches.
+     * @throws Will throw an error if the worker fails before its first batch.
+     */
+    private async fetchSkins(key: string, query: MarketQuery, lock: { key: string; token: string } | null, signal?: AbortSignal) {
+        let source: AsyncGenerator<SkinWorkerItem[]>
+        try {
+            source = await this.streamSkins(query, signal)
+        } catch (err) {
+            if (lock) {
+                await this.cache.releaseLock(lock.key, lock.token)
+            }
+            throw err
+        }
+
+        const cache = this.cache
+        const fetchedAt = Date.now()
+        const listKey = `${key}:batches:${randomUUID()}`
+        const ttl = config.skinsCache.ttl + config.skinsCache.staleTtl
+        return (async function* () {
+            try {
+                let batches = 0
+                for await (const batch of source) {
+                    await cache.pushToList(listKey, JSON.stringify(batch), ttl)
+                    batches++
+                    yield batch
+                }
+                const cached: CachedSkins = { fetchedAt, listKey, batches }
+                await cache.set(key, JSON.stringify(cached), ttl)
+            } finally {
+                if (lock) {
+                    await cache.releaseLock(lock.key, lock.token)
+                }
             }
-        });
+        })()
     }
 }
 
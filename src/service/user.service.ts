@@ -1,7 +1,57 @@
-import { UsersRepository } from '../repository/'
+import { UsersRepository, SkinsRepository, OrdersRepository, InventoryRepository, LedgerRepository } from '../repository/'
+import { withTransaction } from '../config/db.config'
+import config from '../config/config'
+import { roundMoney, MAX_MONEY } from '../utils/money'
+import CurrencyService from './currency.service'
+import AuthService from './auth.service'
+import { NotFoundError, ValidationError, InsufficientFundsError, ForbiddenError, ConflictError, ServiceUnavailableError } from '../errors'
 
-class UserService {
-    constructor(private usersRepository: any = UsersRepository) {}
+export class UserService {
+    constructor(
+        private usersRepository: any = UsersRepository,
+        private skinsRepository: any = SkinsRepository,
+        private ordersRepository: any = OrdersRepository,
+        private inventoryRepository: any = InventoryRepository,
+        private ledgerRepository: any = LedgerRepository,
+        private currencyService: any = CurrencyService,
+        private authService: any = AuthService,
+        private transaction: typeof withTransaction = withTransaction
+    ) {}
+
+    /**
+     * Changes the balance of a user and appends the matching entry to the balance ledger.
+     * Every balance mutation goes through this method, so the ledger always explains the stored balance.
+     * Must be called inside a transaction holding the row lock taken by `getUserForUpdate`.
+     *
+     * @param tx - The client of the running transaction.
+     * @param user - The locked user row, amounts are in its balance currency.
+     * @param change - The direction, amount, reason and optional related order of the change.
+     * @returns The user's balance after the change.
+     * @throws ValidationError if the balance would exceed `MAX_MONEY`.
+     */
+    private async applyBalanceChange(
+        tx: any,
+        user: { id: number; balance: number; currency: string },
+        change: { type: 'debit' | 'credit'; amount: number; reason: string; orderId?: number; note?: string }
+    ) {
+        const amount = roundMoney(change.amount)
+        const newBalance = roundMoney(change.type === 'credit' ? user.balance + amount : user.balance - amount)
+        if (newBalance > MAX_MONEY) {
+            throw new ValidationError('The balance would exceed the largest supported amount', 'BALANCE_LIMIT_EXCEEDED')
+        }
+        await this.usersRepository.forTransaction(tx).updateUserBalance(user.id, newBalance)
+        await this.ledgerRepository.forTransaction(tx).addEntry({
+            userId: user.id,
+            type: change.type,
+            amount,
+            reason: change.reason,
+            orderId: change.orderId,
+            note: change.note,
+            balanceAfter: newBalance,
+            currency: user.currency
+        })
+        return newBalance
+    }
 
     /**
      * Retrieves a list of users from the repository.
@@ -10,12 +60,8 @@ class UserService {
      * @throws {Error} Throws an error if the users could not be fetched.
      */
     async getUsers() {
-        try {
-            const res = await this.usersRepository.getUsers()
-            return res.rows
-        } catch (err) {
-            throw new Error('Failed to fetch users')
-        }
+        const res = await this.usersRepository.getUsers()
+        return res.rows
     }
 
     /**
@@ -26,59 +72,311 @@ class UserService {
      * @throws Will throw an error if the user retrieval fails.
      */
     async getUserById(id: number) {
-        try {
-            const res = await this.usersRepository.getUserById(id)
-            return res.rows[0]
-        } catch (err) {
-            throw new Error(`Failed to fetch user with ID ${id}`)
+        const res = await this.usersRepository.getUserById(id)
+        return res.rows[0]
+    }
+
+    /**
+     * Retrieves a page of the user's inventory together with its total size and current valuation.
+     *
+     * @param userId - The ID of the owner.
+     * @param limit - The maximum number of items to return.
+     * @param offset - The number of items to skip.
+     * @returns An object with the inventory items, the total number of owned items, their total value
+     *          and the valuation currency, the user's balance currency.
+     *          Current prices are converted with the latest stored exchange rate and are `null` if none has been loaded.
+     * @throws Will throw an error if the inventory cannot be fetched.
+     */
+    async getUserInventory(userId: number, limit: number, offset: number) {
+        const user = (await this.usersRepository.getUserById(userId)).rows[0]
+        const currency = user?.currency ?? config.market.currency
+        const rate = await this.currencyService.getRateFromBase(currency)
+        const [res, summary] = await Promise.all([
+            this.inventoryRepository.getUserInventory(userId, limit, offset, rate?.rate ?? null),
+            this.inventoryRepository.getUserInventorySummary(userId, rate?.rate ?? null)
+        ])
+        return {
+            currency,
+            items: res.rows,
+            total: summary.total,
+            totalValue: summary.total_value
         }
     }
 
     /**
-     * Deducts a specified amount from the user's balance.
-     * 
-     * @param userId - The ID of the user whose balance is to be deducted.
-     * @param amount - The amount to be deducted from the user's balance.
-     * @returns An object indicating the success or failure of the operation.
-     *          If successful, the object contains the user's updated balance.
-     *          If unsuccessful, the object contains an error message.
-     * 
-     * @throws Will roll back the transaction and return an error message if any step fails.
+     * Retrieves a page of the user's balance ledger and reconciles it with the stored balance.
+     *
+     * @param userId - The ID of the user.
+     * @param filters - Optional inclusive `from` and exclusive `to` dates plus `limit` and `offset`.
+     * @returns An object with the ledger entries, their total count and the reconciliation result,
+     *          or `undefined` if the user does not exist.
+     * @throws Will throw an error if the ledger cannot be fetched.
+     */
+    async getUserTransactions(userId: number, filters: { from?: Date; to?: Date; limit: number; offset: number }) {
+        const reconciliation = await this.ledgerRepository.getReconciliation(userId)
+        if (!reconciliation) {
+            return undefined
+        }
+        const { entries, total } = await this.ledgerRepository.getUserEntries(userId, filters)
+        return {
+            transactions: entries,
+            total,
+            reconciliation: {
+                balance: reconciliation.balance,
+                ledgerBalance: reconciliation.ledger_balance,
+                consistent: reconciliation.balance === reconciliation.ledger_balance
+            }
+        }
+    }
+
+    /**
+     * Buys a skin for the user at the price the catalog shows in the user's balance currency:
+     * the price stored in the `items` table, or its price override if one is set, in the base currency.
+     * In another currency a converted override comes first, then the price synced in that currency,
+     * then the base price converted with the latest stored exchange rate, see `SkinsRepository.getPricesInCurrency`.
+     *
+     * @param userId - The ID of the buyer.
+     * @param skinId - The ID of the skin to buy.
+     * @param tradable - Whether the tradable or the non-tradable variant is bought.
+     * @returns The created order and the user's updated balance. The item is added to the user's inventory.
+     *
+     * @remarks
+     * - The user row and the item row are both locked for the duration of the transaction,
+     *   so the charged price cannot change between the balance check and the deduction.
+     * - The order keeps the price in the base currency and references the latest `exchange_rates` row at the time of the purchase.
+     *
+     * @throws NotFoundError if the user or the skin does not exist.
+     * @throws ValidationError if the skin cannot be bought, e.g. it is hidden, delisted or has no price for the variant.
+     * @throws ServiceUnavailableError if no rate to the user's currency has been loaded.
+     * @throws InsufficientFundsError if the balance is lower than the price.
+     * Any failure rolls back the transaction.
+     */
+    async buyItem(userId: number, skinId: number, tradable: boolean) {
+        return await this.transaction(async (tx) => {
+            const user = await this.usersRepository.forTransaction(tx).getUserForUpdate(userId)
+            if (!user) {
+                throw new NotFoundError('User not found')
+            }
+            const skin = await this.skinsRepository.forTransaction(tx).getSkinForUpdate(skinId)
+            if (!skin || skin.deleted_at) {
+                throw new NotFoundError('Skin not found')
+            }
+            if (skin.hidden) {
+                throw new ValidationError('Skin is not available for purchase', 'SKIN_UNAVAILABLE')
+            }
+            if (skin.delisted_at) {
+                throw new ValidationError('Skin is no longer listed', 'SKIN_UNAVAILABLE')
+            }
+            const listedPrice = tradable ? skin.min_price_tradable : skin.min_price_non_tradable
+            if (listedPrice === null || listedPrice === undefined) {
+                throw new ValidationError(`Skin is not available as ${tradable ? 'tradable' : 'non-tradable'}`, 'SKIN_UNAVAILABLE')
+            }
+            const rate = await this.currencyService.getRateFromBase(user.currency)
+            if (!rate) {
+                throw new ServiceUnavailableError(`No exchange rate to ${user.currency} has been loaded yet`, undefined, 'EXCHANGE_RATE_UNAVAILABLE')
+            }
+            const basePrice = roundMoney(listedPrice)
+            let price = basePrice
+            if (user.currency !== config.market.currency) {
+                const prices = await this.skinsRepository.forTransaction(tx).getPricesInCurrency(skin.id, { currency: user.currency, rate: rate.rate })
+                price = roundMoney(tradable ? prices.min_price_tradable : prices.min_price_non_tradable)
+            }
+            if (user.balance < price) {
+                throw new InsufficientFundsError()
+            }
+            const order = await this.ordersRepository.forTransaction(tx).createOrder({
+                userId,
+                itemId: skin.id,
+                price,
+                tradable,
+                currency: user.currency,
+                basePrice,
+                exchangeRateId: rate.id
+            })
+            await this.inventoryRepository
+                .forTransaction(tx)
+                .addItem({ userId, itemId: skin.id, orderId: order.id, price, currency: user.currency, tradable })
+            const balance = await this.applyBalanceChange(tx, user, { type: 'debit', amount: price, reason: 'purchase', orderId: order.id })
+
+            return {
+                order,
+                user: {
+                    id: userId,
+                    balance,
+                    currency: user.currency
+                }
+            }
+        })
+    }
+
+    /**
+     * Adds funds to the user's balance.
+     *
+     * @param userId - The ID of the user.
+     * @param amount - The positive amount to add.
+     * @returns The user's updated balance.
+     * @throws NotFoundError if the user does not exist. Any failure rolls back the transaction.
+     */
+    async deposit(userId: number, amount: number) {
+        return await this.transaction(async (tx) => {
+            const user = await this.usersRepository.forTransaction(tx).getUserForUpdate(userId)
+            if (!user) {
+                throw new NotFoundError('User not found')
+            }
+            const balance = await this.applyBalanceChange(tx, user, { type: 'credit', amount, reason: 'deposit' })
+
+            return {
+                user: {
+                    id: userId,
+                    balance,
+                    currency: user.currency
+                }
+            }
+        })
+    }
+
+    /**
+     * Reverses a purchase: the item is taken out of the buyer's inventory and the price is credited back.
+     *
+     * @param orderId - The ID of the order to refund.
+     * @param requester - The authenticated user, only the buyer or a user with the `balance:adjust` permission may refund the order.
+     * @returns The refunded order and the user's updated balance.
+     *
+     * @remarks
+     * - The buyer row is locked before the order row, in the same order as `buyItem` locks the user before the item.
+     * - If the buyer changed the balance currency since the purchase, the base price is refunded converted with the latest stored exchange rate.
+     *
+     * @throws NotFoundError if the order does not exist.
+     * @throws ForbiddenError if the order belongs to another user and the requester lacks the permission.
+     * @throws ConflictError if the order was already refunded or the item is no longer owned.
+     * @throws ServiceUnavailableError if the price has to be converted and no rate to the user's currency has been loaded.
+     * Any failure rolls back the transaction.
+     */
+    async refundOrder(orderId: number, requester: { id: number; permissions: string[] }) {
+        return await this.transaction(async (tx) => {
+            const ordersRepository = this.ordersRepository.forTransaction(tx)
+            const inventoryRepository = this.inventoryRepository.forTransaction(tx)
+            const placed = await ordersRepository.getOrderById(orderId)
+            if (!placed) {
+                throw new NotFoundError('Order not found')
+            }
+            if (placed.user_id !== requester.id && !requester.permissions.includes('balance:adjust')) {
+                throw new ForbiddenError('Access denied! You can only refund your own orders.')
+            }
+            const user = await this.usersRepository.forTransaction(tx).getUserForUpdate(placed.user_id)
+            const order = await ordersRepository.getOrderForUpdate(orderId)
+            if (order.status !== 'completed') {
+                throw new ConflictError('Order has already been refunded', 'ORDER_ALREADY_REFUNDED')
+            }
+            const owned = await inventoryRepository.getItemByOrderForUpdate(orderId)
+            if (!owned) {
+                throw new ConflictError('Item is no longer in the inventory', 'ITEM_NOT_OWNED')
+            }
+            let amount = order.price
+            if (order.currency !== user.currency) {
+                const rate = await this.currencyService.getRateFromBase(user.currency)
+                if (!rate) {
+                    throw new ServiceUnavailableError(`No exchange rate to ${user.currency} has been loaded yet`, undefined, 'EXCHANGE_RATE_UNAVAILABLE')
+                }
+                amount = roundMoney(order.base_price * rate.rate)
+            }
+            await inventoryRepository.removeItem(owned.id)
+            const refunded = await ordersRepository.updateOrderStatus(orderId, 'refunded')
+            const balance = await this.applyBalanceChange(tx, user, { type: 'credit', amount, reason: 'refund', orderId })
+
+            return {
+                order: refunded,
+                user: {
+                    id: user.id,
+                    balance,
+                    currency: user.currency
+                }
+            }
+        })
+    }
+
+    /**
+     * Changes the balance currency of the user. The balance is converted through the base currency with the latest stored rates
+     * and recorded in the ledger as a debit of the old balance and a credit of the converted one, both with the `currency_conversion` reason.
+     *
+     * @param userId - The ID of the user.
+     * @param currency - The new balance currency, one of `MARKET_CURRENCIES`.
+     * @returns The user's converted balance.
+     * @throws NotFoundError if the user does not exist.
+     * @throws ServiceUnavailableError if no rate to the old or the new currency has been loaded.
+     * Any failure rolls back the transaction.
      */
-    async deductBalance(userId: number, amount: number) {
-        try {
-            await this.usersRepository.begin()
-            const res = await this.usersRepository.getUserForUpdate(userId)
-            if (!res) {
-                await this.usersRepository.rollBack()
-                return {
-                    success: false,
-                    msg: 'User not found'
+    async changeCurrency(userId: number, currency: string) {
+        return await this.transaction(async (tx) => {
+            const usersRepository = this.usersRepository.forTransaction(tx)
+            const user = await usersRepository.getUserForUpdate(userId)
+            if (!user) {
+                throw new NotFoundError('User not found')
+            }
+            let balance = user.balance
+            if (user.currency !== currency) {
+                const from = await this.currencyService.getRateFromBase(user.currency)
+                const to = await this.currencyService.getRateFromBase(currency)
+                if (!from || !to) {
+                    throw new ServiceUnavailableError(`No exchange rate to ${from ? currency : user.currency} has been loaded yet`, undefined, 'EXCHANGE_RATE_UNAVAILABLE')
+                }
+                const converted = roundMoney((user.balance / from.rate) * to.rate)
+                const note = `${user.currency} to ${currency}`
+                if (user.balance > 0) {
+                    await this.applyBalanceChange(tx, user, { type: 'debit', amount: user.balance, reason: 'currency_conversion', note })
+                }
+                await usersRepository.updateUserCurrency(userId, currency)
+                balance = 0
+                if (converted > 0) {
+                    balance = await this.applyBalanceChange(tx, { id: userId, balance: 0, currency }, { type: 'credit', amount: converted, reason: 'currency_conversion', note })
                 }
             }
-            const balance = res.balance
-            if (balance < amount) {
-                await this.usersRepository.rollBack()
-                return {
-                    success: false,
-                    msg: 'Insufficient balance'
+
+            return {
+                user: {
+                    id: userId,
+                    balance,
+                    currency
                 }
             }
-            const newBalance = balance - amount
-            await this.usersRepository.updateUserBalance(userId, newBalance)
-            await this.usersRepository.commit()
+        })
+    }
+
+    /**
+     * Corrects the user's balance by an arbitrary amount on behalf of an admin.
+     *
+     * @param userId - The ID of the user.
+     * @param amount - The non-zero amount to add (positive) or remove (negative).
+     * @param reason - The mandatory explanation, stored on the ledger entry.
+     * @returns The user's updated balance.
+     * @throws NotFoundError if the user does not exist.
+     * @throws InsufficientFundsError if a debit would make the balance negative.
+     * Any failure rolls back the transaction.
+     */
+    async adjustBalance(userId: number, amount: number, reason: string) {
+        return await this.transaction(async (tx) => {
+            const user = await this.usersRepository.forTransaction(tx).getUserForUpdate(userId)
+            if (!user) {
+                throw new NotFoundError('User not found')
+            }
+            if (amount < 0 && user.balance < -amount) {
+                throw new InsufficientFundsError()
+            }
+            const balance = await this.applyBalanceChange(tx, user, {
+                type: amount > 0 ? 'credit' : 'debit',
+                amount: Math.abs(amount),
+                reason: 'admin_adjustment',
+                note: reason
+            })
 
             return {
-                success: true,
                 user: {
                     id: userId,
-                    balance: newBalance
+                    balance,
+                    currency: user.currency
                 }
             }
-        } catch (error) {
-            await this.usersRepository.rollBack()
-            return { success: false, msg: error }
-        }
+        })
     }
 
     /**
@@ -89,27 +387,35 @@ class UserService {
      * @throws Will throw an error if the user cannot be fetched.
      */
     async getUserByEmail(email: string) {
-        try {
-            const res = await this.usersRepository.getUserByEmail(email)
-            return res.rows[0]
-        } catch (err) {
-            throw new Error(`Failed to fetch user with email ${email}`)
-        }
+        const res = await this.usersRepository.getUserByEmail(email)
+        return res.rows[0]
+    }
+
+    /**
+     * Retrieves a user together with the password hash by their ID.
+     *
+     * @param id - The unique identifier of the user.
+     * @returns The user object containing id, email and password hash.
+     * @throws Will throw an error if the user cannot be fetched.
+     */
+    async getUserCredentialsById(id: number) {
+        const res = await this.usersRepository.getUserCredentialsById(id)
+        return res.rows[0]
     }
 
     /**
-     * Changes the password for a user with the specified ID.
+     * Changes the password for a user with the specified ID and ends all of the user's sessions.
      *
      * @param userId - The ID of the user whose password is to be changed.
      * @param newPassword - The new password to be set for the user.
      * @throws Will throw an error if the password change operation fails.
      */
     async changePassword(userId: number, newPassword: string) {
-        try {
-            await this.usersRepository.changePassword(userId, newPassword)
-        } catch (err) {
-            throw new Error(`Failed to change password for user with ID ${userId}`)
-        }
+        const version = await this.transaction(async (tx) => {
+            await this.usersRepository.forTransaction(tx).changePassword(userId, newPassword)
+            return await this.authService.revokeAllSessions(userId, tx)
+        })
+        await this.authService.publishSessionVersion(userId, version)
     }
 }
 
@@ -0,0 +1,86 @@
+/**
+ * Thrown instead of calling an operation while its circuit is open.
+ * `retryAfter` is the number of milliseconds until the circuit lets a trial call through.
+ */
+export class CircuitOpenError extends Error {
+    constructor(
+        name: string,
+        readonly retryAfter: number
+    ) {
+        super(`Circuit ${name} is open`)
+        this.name = 'CircuitOpenError'
+    }
+}
+
+/**
+ * Stops calling an unhealthy dependency so callers fail fast instead of waiting for timeouts.
+ *
+ * @remarks
+ * - `closed`: Calls go through. After `threshold` consecutive failures the circuit opens.
+ * - `open`: Calls fail with `CircuitOpenError` for `resetTimeout` milliseconds, or for as long as the dependency asked.
+ * - `half-open`: One trial call goes through, its success closes the circuit and its failure opens it again.
+ */
+export class CircuitBreaker {
+    private failures = 0
+    private openUntil = 0
+    private trialRunning = false
+
+    /**
+     * @param name - The name of the dependency, used in errors and logs.
+     * @param threshold - The number of consecutive failures that open the circuit.
+     * @param resetTimeout - The number of milliseconds the circuit stays open.
+     * @param isFailure - Whether an error counts as a failure of the dependency. Defaults to every error.
+     */
+    constructor(
+        readonly name: string,
+        private threshold: number,
+        private resetTimeout: number,
+        private isFailure: (error: unknown) => boolean = () => true
+    ) {}
+
+    get state() {
+        if (this.openUntil === 0) {
+            return 'closed'
+        }
+        return this.openUntil > Date.now() ? 'open' : 'half-open'
+    }
+
+    /**
+     * Calls `operation` unless the circuit is open.
+     *
+     * @param operation - The call to the dependency.
+     * @param retryAfter - Extracts how long the dependency asked to be left alone from an error, e.g. a rate limit.
+     * @returns A promise that resolves to the result of the operation.
+     * @throws {CircuitOpenError} If the circuit is open or a trial call is already running.
+     * @throws The error of the operation otherwise.
+     */
+    async execute<T>(operation: () => Promise<T>, retryAfter?: (error: unknown) => number | undefined): Promise<T> {
+        const state = this.state
+        if (state === 'open' || (state === 'half-open' && this.trialRunning)) {
+            throw new CircuitOpenError(this.name, Math.max(0, this.openUntil - Date.now()))
+        }
+        this.trialRunning = state === 'half-open'
+
+        try {
+            const result = await operation()
+            if (this.openUntil !== 0) {
+                console.info(`Circuit ${this.name} closed`)
+            }
+            this.failures = 0
+            this.openUntil = 0
+            return result
+        } catch (error) {
+            if (this.isFailure(error)) {
+                this.failures++
+                const requested = retryAfter?.(error)
+                if (state === 'half-open' || this.failures >= this.threshold || requested !== undefined) {
+                    this.openUntil = Date.now() + (requested ?? this.resetTimeout)
+                    console.error(`Circuit ${this.name} opened for ${this.openUntil - Date.now()} ms after ${this.failures} failures`)
+                }
+            }
+            throw error
+        } finally {
+            this.trialRunning = false
+        }
+    }
+}
@@ -0,0 +1,17 @@
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+/**
+ * Normalizes an email address for storage and lookups, emails are stored lower-cased.
+ *
+ * @param email - The email address as entered by the user.
+ * @returns The trimmed, lower-cased address.
+ */
+export const normalizeEmail = (email: string) => email.trim().toLowerCase()
+
+/**
+ * Checks the shape of a normalized email address. Whether it exists is only proven by the verification link.
+ *
+ * @param email - The normalized email address.
+ * @returns `true` if the address looks deliverable and fits the column.
+ */
+export const isValidEmail = (email: string) => EMAIL_PATTERN.test(email) && email.length <= 255
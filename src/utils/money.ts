@@ -0,0 +1,12 @@
+/**
+ * Rounds a monetary value to two decimal places, the precision of the NUMERIC(12, 2) columns.
+ *
+ * @param value - The value to round.
+ * @returns The rounded value.
+ */
+export const roundMoney = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100
+
+/**
+ * The largest value the NUMERIC(12, 2) columns hold.
+ */
+export const MAX_MONEY = 9999999999.99
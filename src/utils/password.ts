@@ -0,0 +1,27 @@
+// bcrypt ignores everything after the first 72 bytes
+const MAX_PASSWORD_BYTES = 72
+const MIN_PASSWORD_LENGTH = 8
+
+/**
+ * Checks a new password against the password rules: 8 to 72 bytes, at least one letter and one digit,
+ * and not the email address itself.
+ *
+ * @param password - The new password.
+ * @param email - The email of the account, if known.
+ * @returns The violated rule as a message, or `null` if the password is acceptable.
+ */
+export const validatePassword = (password: unknown, email?: string) => {
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+        return `Password must be at least ${MIN_PASSWORD_LENGTH} characters long`
+    }
+    if (Buffer.byteLength(password) > MAX_PASSWORD_BYTES) {
+        return `Password must be at most ${MAX_PASSWORD_BYTES} bytes long`
+    }
+    if (!/\p{L}/u.test(password) || !/\d/.test(password)) {
+        return 'Password must contain at least one letter and one digit'
+    }
+    if (email && password.toLowerCase() === email.toLowerCase()) {
+        return 'Password must not be the email address'
+    }
+    return null
+}
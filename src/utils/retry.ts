@@ -0,0 +1,41 @@
+export interface RetryOptions {
+    // The number of retries after the first attempt
+    retries: number
+    // The upper bound of the first delay in milliseconds, doubled on every retry
+    baseDelay: number
+    // The upper bound of any delay in milliseconds
+    maxDelay: number
+    // Whether the error is worth another attempt
+    shouldRetry: (error: unknown) => boolean
+    // The delay the failed call asked for, e.g. from a `Retry-After` header
+    retryAfter?: (error: unknown) => number | undefined
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+/**
+ * Calls `operation` until it succeeds, retrying with exponential backoff and full jitter.
+ *
+ * @param operation - The call to retry, it receives the zero-based attempt number.
+ * @param options - The retry policy.
+ * @returns A promise that resolves to the result of the first successful attempt.
+ * @throws The last error if it is not retryable, if the retries are exhausted,
+ *         or if the requested `retryAfter` exceeds `maxDelay`.
+ */
+export const retry = async <T>(operation: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await operation(attempt)
+        } catch (error) {
+            if (attempt >= options.retries || !options.shouldRetry(error)) {
+                throw error
+            }
+            const requested = options.retryAfter?.(error)
+            if (requested !== undefined && requested > options.maxDelay) {
+                throw error
+            }
+            const backoff = Math.random() * Math.min(options.maxDelay, options.baseDelay * 2 ** attempt)
+            await sleep(requested ?? backoff)
+        }
+    }
+}
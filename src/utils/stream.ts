@@ -0,0 +1,22 @@
+/**
+ * Waits for the first value of an async iterator, so failures to start surface before anything is consumed.
+ *
+ * @param iterator - The iterator to start.
+ * @returns A promise that resolves to an async generator yielding every value, the first one included.
+ *          Leaving it early returns the underlying iterator as well.
+ * @throws The error the iterator throws while producing its first value.
+ */
+export const primeAsyncIterator = async <T>(iterator: AsyncIterator<T>) => {
+    const first = await iterator.next()
+    return (async function* () {
+        try {
+            let next = first
+            while (!next.done) {
+                yield next.value
+                next = await iterator.next()
+            }
+        } finally {
+            await iterator.return?.(undefined)
+        }
+    })()
+}
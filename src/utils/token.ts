@@ -0,0 +1,16 @@
+import { createHash, randomBytes } from 'crypto'
+
+/**
+ * Generates an opaque token to hand out once, e.g. in a link or as a refresh token.
+ *
+ * @returns 32 random bytes encoded as base64url.
+ */
+export const generateToken = () => randomBytes(32).toString('base64url')
+
+/**
+ * Hashes a token for storage, so a leaked table cannot be used to redeem the tokens in it.
+ *
+ * @param token - The token known to the client.
+ * @returns The SHA-256 hash as 64 hex characters.
+ */
+export const hashToken = (token: string) => createHash('sha256').update(token).digest('hex')
@@ -0,0 +1,125 @@
+import path from 'path'
+import config from '../config/config'
+import { MarketUpstreamError, MarketDataProvider } from '../providers'
+import { retry } from '../utils/retry'
+import { CircuitBreaker } from '../utils/circuit-breaker'
+import { primeAsyncIterator } from '../utils/stream'
+import { WorkerPool, WorkerTimeoutError } from './pool'
+
+export interface SkinWorkerData {
+    provider: string
+    appId: number
+    currency: string
+    // The number of items the worker posts per batch
+    batchSize: number
+}
+
+export interface SkinWorkerItem {
+    name: string
+    min_price_non_tradable: number | null
+    min_price_tradable: number | null
+}
+
+// Under ts-node the worker is loaded from source and needs the TypeScript loader, the build runs the compiled file
+const isTypeScript = path.extname(__filename) === '.ts'
+
+/**
+ * Whether a failed fetch says something about the health of the market: timeouts, network errors,
+ * rate limits and server errors. Other client errors, e.g. an unknown currency, are not retried.
+ */
+const isUpstreamFailure = (error: unknown) =>
+    error instanceof WorkerTimeoutError ||
+    (error instanceof MarketUpstreamError && (error.status === undefined || error.status === 429 || error.status >= 500))
+
+const getRetryAfter = (error: unknown) => (error instanceof MarketUpstreamError && error.status === 429 ? error.retryAfter : undefined)
+
+const skinWorkerPool = new WorkerPool(
+    path.join(__dirname, `skin.worker${isTypeScript ? '.ts' : '.js'}`),
+    config.upstream.poolSize,
+    { execArgv: isTypeScript ? ['--require', 'ts-node/register/transpile-only'] : undefined },
+    (error) => (error.name === 'MarketUpstreamError' ? new MarketUpstreamError(error.message, error.status, error.retryAfter) : new Error(error.message))
+)
+
+const marketBreaker = new CircuitBreaker('market', config.upstream.breakerThreshold, config.upstream.breakerResetTimeout, isUpstreamFailure)
+
+type SkinWorkerQuery = Partial<SkinWorkerData> & Pick<SkinWorkerData, 'appId' | 'currency'>
+
+/**
+ * Streams one catalog in batches, see `streamSkinWorker`.
+ */
+export type SkinStream = (data: SkinWorkerQuery, signal?: AbortSignal) => Promise<AsyncGenerator<SkinWorkerItem[]>>
+
+/**
+ * Streams one catalog from the market data provider in batches through the skin worker pool.
+ * The worker posts the next batch only once the previous one was consumed.
+ *
+ * @param data - The catalog to fetch. The provider defaults to the `MARKET_PROVIDER` setting and the batch size to `UPSTREAM_BATCH_SIZE`.
+ * @param signal - Aborts the fetch and terminates its worker.
+ * @returns A promise that resolves, once the first batch arrived, to an async iterator over all batches.
+ *          Leaving the iteration early terminates the worker.
+ *
+ * @throws {MarketUpstreamError} If the market responds with an error.
+ * @throws {WorkerTimeoutError} If the worker stays silent too long.
+ * @throws {CircuitOpenError} If the market is considered unhealthy.
+ *
+ * @remarks
+ * - Each step of the worker runs for at most `UPSTREAM_TIMEOUT_MS`. Attempts that fail before the first batch are retried
+ *   with exponential backoff and jitter, a 429 response after its `Retry-After` delay unless that exceeds `UPSTREAM_RETRY_MAX_DELAY_MS`.
+ *   Once the first batch arrived a failure is not retried, as the consumer may already have used it.
+ * - After `UPSTREAM_BREAKER_THRESHOLD` failed fetches, or a 429 that could not be retried, the circuit opens
+ *   and fetches fail fast with `CircuitOpenError` until `UPSTREAM_BREAKER_RESET_MS` or the `Retry-After` delay passed.
+ */
+const streamSkinWorker = (data: SkinWorkerQuery, signal?: AbortSignal) => {
+    const workerData: SkinWorkerData = { provider: config.market.provider, batchSize: config.upstream.batchSize, ...data }
+    return marketBreaker.execute(
+        () =>
+            retry(() => primeAsyncIterator(skinWorkerPool.stream<SkinWorkerItem[]>(workerData, config.upstream.timeout, signal)), {
+                retries: config.upstream.retries,
+                baseDelay: config.upstream.retryBaseDelay,
+                maxDelay: config.upstream.retryMaxDelay,
+                shouldRetry: isUpstreamFailure,
+                retryAfter: getRetryAfter
+            }),
+        getRetryAfter
+    )
+}
+
+/**
+ * Creates a `SkinStream` that fetches from a provider instance in the current thread, without the worker pool,
+ * retries or the circuit breaker. Used when the application is given its market data provider, e.g. in tests.
+ *
+ * @param provider - The market data provider.
+ * @returns The stream, posting batches of `data.batchSize` items like the skin worker.
+ */
+const streamFromProvider =
+    (provider: MarketDataProvider): SkinStream =>
+    async (data, signal) => {
+        const items = await provider.fetchItems({ appId: data.appId, currency: data.currency })
+        signal?.throwIfAborted()
+        const batchSize = data.batchSize ?? config.upstream.batchSize
+        return (async function* () {
+            for (let i = 0; i < items.length; i += batchSize) {
+                yield items.slice(i, i + batchSize).map((item) => ({
+                    name: item.market_hash_name,
+                    min_price_non_tradable: item.min_price_non_tradable,
+                    min_price_tradable: item.min_price_tradable
+                }))
+            }
+        })()
+    }
+
+/**
+ * Fetches one whole catalog from the market data provider, see `streamSkinWorker`.
+ *
+ * @param data - The catalog to fetch.
+ * @returns A promise that resolves to the catalog items.
+ */
+const runSkinWorker = async (data: SkinWorkerQuery) => {
+    const items: SkinWorkerItem[] = []
+    for await (const batch of await streamSkinWorker(data)) {
+        items.push(...batch)
+    }
+    return items
+}
+
+export { runSkinWorker, streamSkinWorker, streamFromProvider, skinWorkerPool, marketBreaker }
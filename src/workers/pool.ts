@@ -0,0 +1,235 @@
+import { Worker } from 'worker_threads'
+
+/**
+ * Thrown when a worker stays silent longer than the timeout of its task. The worker is terminated.
+ */
+export class WorkerTimeoutError extends Error {
+    constructor(readonly timeout: number) {
+        super(`Worker task timed out after ${timeout} ms`)
+        this.name = 'WorkerTimeoutError'
+    }
+}
+
+/**
+ * The messages exchanged with a pooled worker. The pool posts `{ id, data }` to start a task, the worker answers
+ * with any number of `{ id, batch }` and finally with `{ id, result }` or `{ id, error }`.
+ * After each batch the worker waits for `{ id, ack: true }`, so it never runs ahead of the consumer.
+ */
+export interface WorkerTaskMessage {
+    id: number
+    batch?: unknown
+    result?: unknown
+    error?: { name?: string; message: string; status?: number; retryAfter?: number }
+}
+
+/**
+ * A fixed number of long-lived worker threads running tasks one at a time, further tasks wait for a free worker.
+ */
+export class WorkerPool {
+    private workers = new Set<Worker>()
+    private idle: Worker[] = []
+    private waiting: Array<{ take: (worker: Worker) => void; reject: (error: Error) => void }> = []
+    private nextId = 0
+    private closed = false
+
+    /**
+     * @param filename - The worker script.
+     * @param size - The maximum number of workers, started on demand.
+     * @param options - The options every worker is started with.
+     * @param toError - Turns the error a worker reported back into an error instance.
+     */
+    constructor(
+        private filename: string,
+        private size: number,
+        private options: { execArgv?: string[] } = {},
+        private toError: (error: NonNullable<WorkerTaskMessage['error']>) => Error = (error) => new Error(error.message)
+    ) {}
+
+    /**
+     * Runs a task and yields the batches the worker posts, one at a time.
+     *
+     * @param data - The task data posted to the worker.
+     * @param timeout - The number of milliseconds the worker may stay silent, the time the consumer takes is not counted.
+     * @param signal - Aborts the task, e.g. when the client that needs the result disconnects.
+     * @returns An async generator of the batches that returns the result posted by the worker.
+     * @throws {WorkerTimeoutError} If the worker stays silent longer than `timeout`.
+     * @throws The reason of `signal` if the task is aborted.
+     * @throws The error reported by the worker, or an error if the worker crashed.
+     *
+     * @remarks
+     * The next batch is requested only when the consumer asks for it. A task that is aborted, times out
+     * or is left before its end terminates its worker, a new worker is started on demand.
+     */
+    async *stream<TBatch, TResult = unknown>(data: unknown, timeout: number, signal?: AbortSignal): AsyncGenerator<TBatch, TResult> {
+        const worker = await this.acquire(signal)
+        const id = ++this.nextId
+        const inbox: WorkerTaskMessage[] = []
+        let failure: Error | null = null
+        let wake: (() => void) | null = null
+
+        const onMessage = (message: WorkerTaskMessage) => {
+            if (message?.id === id) {
+                inbox.push(message)
+                wake?.()
+            }
+        }
+        const onError = (error: Error) => {
+            failure ??= error
+            wake?.()
+        }
+        const onExit = (code: number) => {
+            failure ??= new Error(`Worker stopped with exit code ${code}`)
+            wake?.()
+        }
+        const onAbort = () => {
+            failure ??= signal!.reason
+            wake?.()
+        }
+
+        // Waits for the next message of this task
+        const receive = () =>
+            new Promise<WorkerTaskMessage>((resolve, reject) => {
+                const timer = setTimeout(() => {
+                    failure ??= new WorkerTimeoutError(timeout)
+                    wake?.()
+                }, timeout)
+                wake = () => {
+                    if (failure || inbox.length) {
+                        clearTimeout(timer)
+                        wake = null
+                        failure ? reject(failure) : resolve(inbox.shift()!)
+                    }
+                }
+                wake()
+            })
+
+        let finished = false
+        worker.on('message', onMessage)
+        worker.on('error', onError)
+        worker.on('exit', onExit)
+        signal?.addEventListener('abort', onAbort)
+        try {
+            worker.postMessage({ id, data })
+            while (true) {
+                const message = await receive()
+                if (message.batch !== undefined) {
+                    yield message.batch as TBatch
+                    worker.postMessage({ id, ack: true })
+                    continue
+                }
+                finished = true
+                if (message.error) {
+                    throw this.toError(message.error)
+                }
+                return message.result as TResult
+            }
+        } finally {
+            worker.off('message', onMessage)
+            worker.off('error', onError)
+            worker.off('exit', onExit)
+            signal?.removeEventListener('abort', onAbort)
+            if (finished) {
+                this.release(worker)
+            } else {
+                this.discard(worker)
+            }
+        }
+    }
+
+    /**
+     * Closes the pool and terminates every worker, running tasks fail as if their worker crashed.
+     * Tasks waiting for a worker and tasks started afterwards are rejected.
+     */
+    async destroy() {
+        this.closed = true
+        const workers = [...this.workers]
+        this.workers.clear()
+        this.idle = []
+        this.waiting.splice(0).forEach((waiter) => waiter.reject(new Error('Worker pool is closed')))
+        await Promise.all(workers.map((worker) => worker.terminate()))
+    }
+
+    /**
+     * Describes the current load of the pool, e.g. for health checks.
+     *
+     * @returns The maximum number of workers, the busy and idle ones, the tasks waiting for a worker and whether the pool was closed.
+     */
+    stats() {
+        return {
+            size: this.size,
+            busy: this.workers.size - this.idle.length,
+            idle: this.idle.length,
+            waiting: this.waiting.length,
+            closed: this.closed
+        }
+    }
+
+    /**
+     * Takes an idle worker, starts a new one below `size` or waits for one to be released.
+     */
+    private acquire(signal?: AbortSignal) {
+        signal?.throwIfAborted()
+        if (this.closed) {
+            return Promise.reject(new Error('Worker pool is closed'))
+        }
+        const worker = this.idle.pop() ?? (this.workers.size < this.size ? this.spawn() : undefined)
+        if (worker) {
+            worker.ref()
+            return Promise.resolve(worker)
+        }
+        return new Promise<Worker>((resolve, reject) => {
+            const onAbort = () => {
+                this.waiting = this.waiting.filter((waiter) => waiter !== entry)
+                reject(signal!.reason)
+            }
+            const entry = {
+                take: (worker: Worker) => {
+                    signal?.removeEventListener('abort', onAbort)
+                    worker.ref()
+                    resolve(worker)
+                },
+                reject: (error: Error) => {
+                    signal?.removeEventListener('abort', onAbort)
+                    reject(error)
+                }
+            }
+            signal?.addEventListener('abort', onAbort, { once: true })
+            this.waiting.push(entry)
+        })
+    }
+
+    /**
+     * Hands a worker that finished its task to the next waiting task, or keeps it idle.
+     */
+    private release(worker: Worker) {
+        if (!this.workers.has(worker)) {
+            return
+        }
+        const next = this.waiting.shift()
+        if (next) {
+            next.take(worker)
+            return
+        }
+        // Idle workers must not keep a CLI process alive
+        worker.unref()
+        this.idle.push(worker)
+    }
+
+    /**
+     * Terminates a worker whose task did not finish cleanly and starts a replacement for a waiting task.
+     */
+    private discard(worker: Worker) {
+        this.workers.delete(worker)
+        worker.terminate()
+        const next = this.waiting.shift()
+        if (next) {
+            next.take(this.spawn())
+        }
+    }
+
+    private spawn() {
+        const worker = new Worker(this.filename, this.options)
+        this.workers.add(worker)
+        return worker
+    }
+}
@@ -0,0 +1,49 @@
+import { parentPort, isMainThread } from 'worker_threads'
+import { createMarketDataProvider, MarketUpstreamError } from '../providers'
+import type { SkinWorkerData } from '.'
+import type { WorkerTaskMessage } from './pool'
+
+if (!isMainThread) {
+    // Задачи, ожидающие подтверждения отправленной пачки
+    const pendingAcks = new Map<number, () => void>()
+
+    const fetchItems = async (id: number, { provider, appId, currency, batchSize }: SkinWorkerData) => {
+        const marketItems = await createMarketDataProvider(provider).fetchItems({ appId, currency })
+
+        // Отправляем предметы пачками и ждём подтверждения перед следующей пачкой
+        for (let i = 0; i < marketItems.length; i += batchSize) {
+            const batch = marketItems.slice(i, i + batchSize).map((item) => ({
+                name: item.market_hash_name,
+                min_price_non_tradable: item.min_price_non_tradable,
+                min_price_tradable: item.min_price_tradable
+            }))
+            const acked = new Promise<void>((resolve) => pendingAcks.set(id, resolve))
+            parentPort!.postMessage({ id, batch } satisfies WorkerTaskMessage)
+            await acked
+        }
+        return { count: marketItems.length }
+    }
+
+    parentPort!.on('message', async ({ id, data, ack }: { id: number; data?: SkinWorkerData; ack?: boolean }) => {
+        if (ack) {
+            pendingAcks.get(id)?.()
+            pendingAcks.delete(id)
+            return
+        }
+        let reply: WorkerTaskMessage
+        try {
+            reply = { id, result: await fetchItems(id, data!) }
+        } catch (error: any) {
+            reply = {
+                id,
+                error: {
+                    name: error?.name,
+                    message: error?.message || String(error),
+                    status: error instanceof MarketUpstreamError ? error.status : undefined,
+                    retryAfter: error instanceof MarketUpstreamError ? error.retryAfter : undefined
+                }
+            }
+        }
+        parentPort!.postMessage(reply)
+    })
+}
@@ -0,0 +1,55 @@
+import { describe, it, beforeEach, afterEach } from 'node:test'
+import assert from 'node:assert/strict'
+import { createTestApp, login, PASSWORD } from './helpers'
+
+describe('account management', () => {
+    let context: ReturnType<typeof createTestApp>
+    let headers: Record<string, string>
+
+    beforeEach(async () => {
+        context = createTestApp()
+        context.repositories.users.insertUser({ email: 'support@example.com', password: PASSWORD, role: 'support' })
+        headers = { authorization: `Bearer ${await login(context.app, 'support@example.com')}` }
+    })
+
+    afterEach(async () => {
+        await context.app.close()
+    })
+
+    it('lets support disable a customer', async () => {
+        const response = await context.app.inject({ method: 'POST', url: `/admin/users/${context.user.id}/disable`, headers, payload: { reason: 'Suspected takeover' } })
+
+        assert.equal(response.statusCode, 200)
+        assert.notEqual(response.json().user.disabled_at, null)
+    })
+
+    it('refuses to let support disable an admin or force an admin password reset', async () => {
+        const disable = await context.app.inject({ method: 'POST', url: `/admin/users/${context.admin.id}/disable`, headers, payload: { reason: 'Suspected takeover' } })
+        const reset = await context.app.inject({ method: 'POST', url: `/admin/users/${context.admin.id}/force-password-reset`, headers })
+
+        for (const response of [disable, reset]) {
+            assert.equal(response.statusCode, 403)
+            assert.equal(response.json().code, 'INSUFFICIENT_PERMISSIONS')
+        }
+        const admin = context.repositories.tables.users.find((user) => user.id === context.admin.id)
+        assert.equal(admin.disabled_at, null)
+        assert.equal(admin.password_reset_required, false)
+        assert.ok(await login(context.app, 'admin@example.com'))
+    })
+
+    it('refuses to assign a role granting permissions the actor lacks', async () => {
+        context.repositories.tables.roles.push({ name: 'manager', description: 'Manages staff roles' })
+        context.repositories.tables.role_permissions.manager = ['users:assign-role', 'users:manage', 'users:read']
+        context.repositories.users.insertUser({ email: 'manager@example.com', password: PASSWORD, role: 'manager' })
+        const manager = { authorization: `Bearer ${await login(context.app, 'manager@example.com')}` }
+        const url = `/admin/users/${context.user.id}/role`
+
+        const escalation = await context.app.inject({ method: 'PUT', url, headers: manager, payload: { role: 'admin' } })
+        assert.equal(escalation.statusCode, 403)
+        assert.equal(escalation.json().code, 'INSUFFICIENT_PERMISSIONS')
+        assert.equal(context.repositories.tables.users.find((user) => user.id === context.user.id).role, 'user')
+
+        const allowed = await context.app.inject({ method: 'PUT', url, headers: manager, payload: { role: 'support' } })
+        assert.equal(allowed.statusCode, 200)
+    })
+})
@@ -0,0 +1,127 @@
+import { describe, it, beforeEach, afterEach } from 'node:test'
+import assert from 'node:assert/strict'
+import { createTestApp, login, PASSWORD } from './helpers'
+
+describe('POST /users/login', () => {
+    let context: ReturnType<typeof createTestApp>
+
+    beforeEach(() => {
+        context = createTestApp()
+    })
+
+    afterEach(async () => {
+        await context.app.close()
+    })
+
+    it('returns tokens that authenticate the user', async () => {
+        const response = await context.app.inject({ method: 'POST', url: '/users/login', payload: { email: 'Buyer@Example.com', password: PASSWORD } })
+
+        assert.equal(response.statusCode, 200)
+        const body = response.json()
+        assert.equal(typeof body.token, 'string')
+        assert.equal(typeof body.refreshToken, 'string')
+        assert.ok(body.expiresIn > 0)
+
+        const profile = await context.app.inject({ method: 'GET', url: `/users/${context.user.id}`, headers: { authorization: `Bearer ${body.token}` } })
+        assert.equal(profile.statusCode, 200)
+        assert.equal(profile.json().user.email, 'buyer@example.com')
+    })
+
+    it('rejects a wrong password with the error envelope', async () => {
+        const response = await context.app.inject({ method: 'POST', url: '/users/login', payload: { email: 'buyer@example.com', password: 'wrong password' } })
+
+        assert.equal(response.statusCode, 401)
+        const body = response.json()
+        assert.equal(body.code, 'INVALID_CREDENTIALS')
+        assert.equal(body.requestId, response.headers['x-request-id'])
+    })
+
+    it('rejects an unverified email', async () => {
+        context.repositories.users.insertUser({ email: 'new@example.com', password: PASSWORD, email_verified_at: null })
+
+        const response = await context.app.inject({ method: 'POST', url: '/users/login', payload: { email: 'new@example.com', password: PASSWORD } })
+
+        assert.equal(response.statusCode, 403)
+        assert.equal(response.json().code, 'EMAIL_NOT_VERIFIED')
+    })
+
+    it('validates the body', async () => {
+        const response = await context.app.inject({ method: 'POST', url: '/users/login', payload: { email: 'buyer@example.com' } })
+
+        assert.equal(response.statusCode, 400)
+        assert.equal(response.json().code, 'VALIDATION_ERROR')
+    })
+
+    it('locks the email out after repeated failures', async () => {
+        for (let attempt = 0; attempt < 5; attempt++) {
+            await context.app.inject({ method: 'POST', url: '/users/login', payload: { email: 'buyer@example.com', password: 'wrong password' } })
+        }
+
+        const response = await context.app.inject({ method: 'POST', url: '/users/login', payload: { email: 'buyer@example.com', password: PASSWORD } })
+
+        assert.equal(response.statusCode, 429)
+        assert.equal(response.json().code, 'LOGIN_LOCKED')
+        assert.ok(Number(response.headers['retry-after']) > 0)
+    })
+
+    it('rejects requests without a token', async () => {
+        const response = await context.app.inject({ method: 'GET', url: `/users/${context.user.id}` })
+
+        assert.equal(response.statusCode, 403)
+        assert.equal(response.json().code, 'TOKEN_MISSING')
+    })
+
+    it('rejects the access token after logout', async () => {
+        const session = (await context.app.inject({ method: 'POST', url: '/users/login', payload: { email: 'buyer@example.com', password: PASSWORD } })).json()
+        const headers = { authorization: `Bearer ${session.token}` }
+
+        const logout = await context.app.inject({ method: 'POST', url: '/users/logout', headers, payload: { refreshToken: session.refreshToken } })
+        assert.equal(logout.statusCode, 200)
+
+        const response = await context.app.inject({ method: 'GET', url: `/users/${context.user.id}`, headers })
+        assert.equal(response.statusCode, 401)
+        assert.equal(response.json().code, 'TOKEN_REVOKED')
+    })
+
+    it('rejects tokens issued before a password change, even within the same second', async () => {
+        const before = { authorization: `Bearer ${await login(context.app, 'buyer@example.com')}` }
+        const newPassword = 'another horse battery 2'
+
+        const change = await context.app.inject({ method: 'PATCH', url: '/users/change-password', headers: before, payload: { oldPassword: PASSWORD, newPassword } })
+        assert.equal(change.statusCode, 200)
+        const after = { authorization: `Bearer ${await login(context.app, 'buyer@example.com', newPassword)}` }
+
+        const rejected = await context.app.inject({ method: 'GET', url: `/users/${context.user.id}`, headers: before })
+        assert.equal(rejected.statusCode, 401)
+        assert.equal(rejected.json().code, 'TOKEN_REVOKED')
+        const accepted = await context.app.inject({ method: 'GET', url: `/users/${context.user.id}`, headers: after })
+        assert.equal(accepted.statusCode, 200)
+    })
+
+    it('keeps access tokens valid until the revoking transaction committed', async () => {
+        const headers = { authorization: `Bearer ${await login(context.app, 'buyer@example.com')}` }
+        const auth = context.app.services.auth
+
+        // A transaction that rolls back after the revocation never publishes the new version
+        const version = await auth.revokeAllSessions(context.user.id)
+        const pending = await context.app.inject({ method: 'GET', url: `/users/${context.user.id}`, headers })
+        assert.equal(pending.statusCode, 200)
+
+        await auth.publishSessionVersion(context.user.id, version)
+        const revoked = await context.app.inject({ method: 'GET', url: `/users/${context.user.id}`, headers })
+        assert.equal(revoked.statusCode, 401)
+    })
+
+    it('does not share sessions between applications', async () => {
+        const token = await login(context.app, 'buyer@example.com')
+        const other = createTestApp()
+
+        try {
+            const response = await other.app.inject({ method: 'GET', url: `/users/${other.user.id}`, headers: { authorization: `Bearer ${token}` } })
+            assert.equal(response.statusCode, 200)
+            assert.equal(other.repositories.tables.refresh_tokens.length, 0)
+        } finally {
+            await other.app.close()
+        }
+    })
+})
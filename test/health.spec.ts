@@ -0,0 +1,63 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import config from '../src/config/config'
+import { createTestApp, StubMarketDataProvider } from './helpers'
+
+const failingRedis = {
+    postgres: async () => undefined,
+    redis: async () => {
+        throw new Error('Connection is closed.')
+    }
+}
+
+describe('health', () => {
+    it('reports the process as live', async () => {
+        const { app } = createTestApp()
+
+        const response = await app.inject({ method: 'GET', url: '/health/live' })
+        await app.close()
+
+        assert.equal(response.statusCode, 200)
+    })
+
+    it('reports ready once every check passes', async () => {
+        const { app } = createTestApp(new StubMarketDataProvider(), { postgres: async () => undefined, redis: async () => undefined })
+
+        const response = await app.inject({ method: 'GET', url: '/health/ready' })
+        await app.close()
+
+        assert.equal(response.statusCode, 200)
+        assert.equal(response.json().checks.postgres.status, 'up')
+    })
+
+    it('reports the failed checks with 503', async () => {
+        const { app } = createTestApp(new StubMarketDataProvider(), failingRedis)
+        const { exposeErrorDetails } = config
+        config.exposeErrorDetails = true
+
+        const response = await app.inject({ method: 'GET', url: '/health/ready' }).finally(() => {
+            config.exposeErrorDetails = exposeErrorDetails
+        })
+        await app.close()
+
+        assert.equal(response.statusCode, 503)
+        const { checks } = response.json()
+        assert.equal(checks.postgres.status, 'up')
+        assert.deepEqual({ status: checks.redis.status, error: checks.redis.error }, { status: 'down', error: 'Connection is closed.' })
+    })
+
+    it('hides the check errors unless NODE_ENV is development or test', async () => {
+        const { app } = createTestApp(new StubMarketDataProvider(), failingRedis)
+        const { exposeErrorDetails } = config
+        config.exposeErrorDetails = false
+
+        const response = await app.inject({ method: 'GET', url: '/health/ready' }).finally(() => {
+            config.exposeErrorDetails = exposeErrorDetails
+        })
+        await app.close()
+
+        assert.equal(response.statusCode, 503)
+        assert.equal(response.json().checks.redis.status, 'down')
+        assert.equal(response.json().checks.redis.error, undefined)
+    })
+})
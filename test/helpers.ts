@@ -0,0 +1,83 @@
+import App from '../src/app'
+import { createMemoryRepositories, memoryTransaction } from '../src/repository/memory'
+import { MemoryCacheStore } from '../src/cache'
+import { Mailer, MailMessage } from '../src/mailer'
+import { MarketDataProvider, MarketItem, MarketQuery } from '../src/providers'
+import { HealthCheck } from '../src/service/health.service'
+
+export const PASSWORD = 'correct horse battery'
+
+/**
+ * A market returning fixed items and counting how often it was asked.
+ */
+export class StubMarketDataProvider implements MarketDataProvider {
+    readonly name = 'stub'
+    readonly queries: MarketQuery[] = []
+
+    constructor(private items: MarketItem[] = []) {}
+
+    async fetchItems(query: MarketQuery) {
+        this.queries.push(query)
+        return this.items
+    }
+}
+
+/**
+ * A mailer keeping the sent messages.
+ */
+export class RecordingMailer implements Mailer {
+    readonly name = 'recording'
+    readonly sent: MailMessage[] = []
+
+    async send(message: MailMessage) {
+        this.sent.push(message)
+    }
+}
+
+/**
+ * Creates the application with in-memory repositories, cache and store, so it runs without PostgreSQL and Redis.
+ * The tables start with a verified user, an admin and a few skins.
+ *
+ * @param provider - The market the live catalog is fetched from, a stub with no items by default.
+ * @param healthChecks - The checks of `GET /health/ready`, none by default.
+ */
+export const createTestApp = (provider: MarketDataProvider = new StubMarketDataProvider(), healthChecks: Record<string, HealthCheck> = {}) => {
+    const repositories = createMemoryRepositories()
+    const mailer = new RecordingMailer()
+    const app = App(
+        { logger: false },
+        {
+            repositories,
+            transaction: memoryTransaction,
+            cache: new MemoryCacheStore(),
+            store: new MemoryCacheStore(1000),
+            mailer,
+            marketDataProvider: provider,
+            healthChecks
+        }
+    )
+
+    const user = repositories.users.insertUser({ email: 'buyer@example.com', password: PASSWORD, balance: 100 })
+    const admin = repositories.users.insertUser({ email: 'admin@example.com', password: PASSWORD, balance: 0, role: 'admin' })
+    const skins = [
+        repositories.skins.insertSkin({ name: 'AK-47 | Redline', market_hash_name: 'AK-47 | Redline (Field-Tested)', min_price_tradable: 12.5, min_price_non_tradable: 10 }),
+        repositories.skins.insertSkin({ name: 'AWP | Asiimov', market_hash_name: 'AWP | Asiimov (Field-Tested)', min_price_tradable: 150, min_price_non_tradable: null }),
+        repositories.skins.insertSkin({ name: 'Glock-18 | Fade', market_hash_name: 'Glock-18 | Fade (Factory New)', min_price_tradable: 40, min_price_non_tradable: 35 }),
+        repositories.skins.insertSkin({ name: 'M4A4 | Howl', market_hash_name: 'M4A4 | Howl (Minimal Wear)', min_price_tradable: 3000, hidden: true })
+    ]
+
+    return { app, repositories, mailer, user, admin, skins }
+}
+
+/**
+ * Logs in through the API.
+ *
+ * @returns The access token.
+ */
+export const login = async (app: ReturnType<typeof App>, email: string, password: string = PASSWORD) => {
+    const response = await app.inject({ method: 'POST', url: '/users/login', payload: { email, password } })
+    if (response.statusCode !== 200) {
+        throw new Error(`Login failed with ${response.statusCode}: ${response.body}`)
+    }
+    return response.json().token as string
+}
@@ -0,0 +1,249 @@
+import { describe, it, beforeEach, afterEach } from 'node:test'
+import assert from 'node:assert/strict'
+import config from '../src/config/config'
+import { createTestApp, login } from './helpers'
+
+describe('POST /users/buy', () => {
+    let context: ReturnType<typeof createTestApp>
+    let headers: Record<string, string>
+
+    beforeEach(async () => {
+        context = createTestApp()
+        headers = { authorization: `Bearer ${await login(context.app, 'buyer@example.com')}` }
+    })
+
+    afterEach(async () => {
+        await context.app.close()
+    })
+
+    it('charges the balance and adds the skin to the inventory', async () => {
+        const [redline] = context.skins
+
+        const response = await context.app.inject({ method: 'POST', url: '/users/buy', headers, payload: { skinId: redline.id } })
+
+        assert.equal(response.statusCode, 200)
+        const body = response.json()
+        assert.equal(body.order.price, 12.5)
+        assert.equal(body.order.tradable, true)
+        assert.deepEqual(body.user, { id: context.user.id, balance: 87.5, currency: context.user.currency })
+
+        const inventory = await context.app.inject({ method: 'GET', url: `/users/${context.user.id}/inventory`, headers })
+        assert.equal(inventory.statusCode, 200)
+        assert.deepEqual(
+            inventory.json().items.map((item: any) => item.item_id),
+            [redline.id]
+        )
+
+        const transactions = await context.app.inject({ method: 'GET', url: `/users/${context.user.id}/transactions`, headers })
+        assert.equal(transactions.json().reconciliation.consistent, true)
+    })
+
+    it('buys the non-tradable variant at its own price', async () => {
+        const [redline] = context.skins
+
+        const response = await context.app.inject({ method: 'POST', url: '/users/buy', headers, payload: { skinId: redline.id, tradable: false } })
+
+        assert.equal(response.statusCode, 200)
+        assert.equal(response.json().user.balance, 90)
+    })
+
+    it('rejects a purchase above the balance without charging', async () => {
+        const asiimov = context.skins[1]
+
+        const response = await context.app.inject({ method: 'POST', url: '/users/buy', headers, payload: { skinId: asiimov.id } })
+
+        assert.equal(response.statusCode, 400)
+        assert.equal(response.json().code, 'INSUFFICIENT_FUNDS')
+        assert.equal(context.repositories.tables.users.find((user) => user.id === context.user.id).balance, 100)
+        assert.equal(context.repositories.tables.orders.length, 0)
+    })
+
+    it('rejects hidden and unknown skins', async () => {
+        const hidden = context.skins[3]
+
+        const unavailable = await context.app.inject({ method: 'POST', url: '/users/buy', headers, payload: { skinId: hidden.id } })
+        assert.equal(unavailable.statusCode, 400)
+        assert.equal(unavailable.json().code, 'SKIN_UNAVAILABLE')
+
+        const unknown = await context.app.inject({ method: 'POST', url: '/users/buy', headers, payload: { skinId: 999 } })
+        assert.equal(unknown.statusCode, 404)
+    })
+
+    it('replays a retried purchase with the same Idempotency-Key', async () => {
+        const [redline] = context.skins
+        const request = { method: 'POST' as const, url: '/users/buy', headers: { ...headers, 'idempotency-key': 'purchase-0001' }, payload: { skinId: redline.id } }
+
+        const first = await context.app.inject(request)
+        const retry = await context.app.inject(request)
+
+        assert.equal(first.statusCode, 200)
+        assert.equal(retry.statusCode, 200)
+        assert.deepEqual(retry.json(), first.json())
+        assert.equal(context.repositories.tables.orders.length, 1)
+    })
+
+    it('keeps the Idempotency-Key reserved while a slow purchase is running', async () => {
+        const [redline] = context.skins
+        const request = { method: 'POST' as const, url: '/users/buy', headers: { ...headers, 'idempotency-key': 'purchase-0002' }, payload: { skinId: redline.id } }
+        const { lockTtl } = config.idempotency
+        config.idempotency.lockTtl = 1
+        const buyItem = context.app.services.user.buyItem.bind(context.app.services.user)
+        context.app.services.user.buyItem = async (...args) => {
+            await new Promise((resolve) => setTimeout(resolve, 1500))
+            return buyItem(...args)
+        }
+
+        try {
+            const first = context.app.inject(request)
+            await new Promise((resolve) => setTimeout(resolve, 1200))
+            const retry = await context.app.inject(request)
+
+            assert.equal(retry.statusCode, 409)
+            assert.equal(retry.json().code, 'IDEMPOTENCY_KEY_IN_USE')
+            assert.equal((await first).statusCode, 200)
+            assert.equal(context.repositories.tables.orders.length, 1)
+        } finally {
+            config.idempotency.lockTtl = lockTtl
+        }
+    })
+
+    it('requires authentication', async () => {
+        const response = await context.app.inject({ method: 'POST', url: '/users/buy', payload: { skinId: context.skins[0].id } })
+
+        assert.equal(response.statusCode, 403)
+    })
+})
+
+describe('POST /users/deposit', () => {
+    let context: ReturnType<typeof createTestApp>
+
+    beforeEach(() => {
+        context = createTestApp()
+    })
+
+    afterEach(async () => {
+        await context.app.close()
+    })
+
+    it('is refused to users without the balance:deposit permission', async () => {
+        const headers = { authorization: `Bearer ${await login(context.app, 'buyer@example.com')}` }
+
+        const response = await context.app.inject({ method: 'POST', url: '/users/deposit', headers, payload: { amount: 1000 } })
+
+        assert.equal(response.statusCode, 403)
+        assert.equal(context.repositories.tables.users.find((user) => user.id === context.user.id).balance, 100)
+    })
+
+    it('credits the account of the userId', async () => {
+        const headers = { authorization: `Bearer ${await login(context.app, 'admin@example.com')}` }
+
+        const response = await context.app.inject({ method: 'POST', url: '/users/deposit', headers, payload: { amount: 0.07, userId: context.user.id } })
+
+        assert.equal(response.statusCode, 200)
+        assert.equal(response.json().user.balance, 100.07)
+    })
+
+    it('rejects amounts the balance columns cannot store', async () => {
+        const headers = { authorization: `Bearer ${await login(context.app, 'admin@example.com')}` }
+
+        for (const amount of [0.001, 1e12]) {
+            const response = await context.app.inject({ method: 'POST', url: '/users/deposit', headers, payload: { amount, userId: context.user.id } })
+            assert.equal(response.statusCode, 400, `amount ${amount}`)
+        }
+
+        const overflow = await context.app.inject({ method: 'POST', url: '/users/deposit', headers, payload: { amount: 9999999999.99, userId: context.user.id } })
+        assert.equal(overflow.statusCode, 400)
+        assert.equal(overflow.json().code, 'BALANCE_LIMIT_EXCEEDED')
+        assert.equal(context.repositories.tables.balance_transactions.filter((entry) => entry.reason === 'deposit').length, 0)
+    })
+})
+
+describe('balance currency', () => {
+    const currency = config.market.currencies.find((code) => code !== config.market.currency)!
+    let context: ReturnType<typeof createTestApp>
+    let headers: Record<string, string>
+
+    beforeEach(async () => {
+        context = createTestApp()
+        headers = { authorization: `Bearer ${await login(context.app, 'buyer@example.com')}` }
+        await context.repositories.exchangeRates.addRates(config.market.currency, { [currency]: 1.1 }, 'test')
+        context.repositories.tables.item_prices.push({ item_id: context.skins[0].id, currency, min_price_tradable: 14, min_price_non_tradable: 11 })
+    })
+
+    afterEach(async () => {
+        await context.app.close()
+    })
+
+    it('converts the balance through the ledger', async () => {
+        const response = await context.app.inject({ method: 'PATCH', url: '/users/currency', headers, payload: { currency: currency.toLowerCase() } })
+
+        assert.equal(response.statusCode, 200)
+        assert.deepEqual(response.json().user, { id: context.user.id, balance: 110, currency })
+        const transactions = await context.app.inject({ method: 'GET', url: `/users/${context.user.id}/transactions`, headers })
+        assert.equal(transactions.json().reconciliation.consistent, true)
+    })
+
+    it('charges the price the catalog shows in the balance currency', async () => {
+        const [redline, , glock] = context.skins
+        await context.app.inject({ method: 'PATCH', url: '/users/currency', headers, payload: { currency } })
+
+        const catalog = (await context.app.inject({ method: 'GET', url: `/skin?currency=${currency}` })).json()
+        const shown = (skin: { id: number }) => catalog.items.find((item: any) => item.id === skin.id).min_price_tradable
+
+        const synced = await context.app.inject({ method: 'POST', url: '/users/buy', headers, payload: { skinId: redline.id } })
+        assert.equal(synced.json().order.price, shown(redline))
+        assert.equal(synced.json().order.price, 14)
+
+        const converted = await context.app.inject({ method: 'POST', url: '/users/buy', headers, payload: { skinId: glock.id } })
+        assert.equal(converted.json().order.price, shown(glock))
+        assert.equal(converted.json().order.price, 44)
+    })
+
+    it('refunds an order in the new currency after a change', async () => {
+        const [redline] = context.skins
+        const order = (await context.app.inject({ method: 'POST', url: '/users/buy', headers, payload: { skinId: redline.id } })).json().order
+        await context.app.inject({ method: 'PATCH', url: '/users/currency', headers, payload: { currency } })
+
+        const refund = await context.app.inject({ method: 'POST', url: `/users/orders/${order.id}/refund`, headers })
+
+        assert.equal(refund.statusCode, 200)
+        assert.deepEqual(refund.json().user, { id: context.user.id, balance: 110, currency })
+    })
+
+    it('rejects currencies outside MARKET_CURRENCIES', async () => {
+        const response = await context.app.inject({ method: 'PATCH', url: '/users/currency', headers, payload: { currency: 'XYZ' } })
+
+        assert.equal(response.statusCode, 400)
+        assert.equal(response.json().code, 'UNSUPPORTED_CURRENCY')
+    })
+})
+
+describe('POST /users/:id/adjust', () => {
+    let context: ReturnType<typeof createTestApp>
+    let headers: Record<string, string>
+
+    beforeEach(async () => {
+        context = createTestApp()
+        headers = { authorization: `Bearer ${await login(context.app, 'admin@example.com')}` }
+    })
+
+    afterEach(async () => {
+        await context.app.close()
+    })
+
+    it('debits a negative amount', async () => {
+        const url = `/users/${context.user.id}/adjust`
+
+        const debit = await context.app.inject({ method: 'POST', url, headers, payload: { amount: -0.03, reason: 'Correction' } })
+        assert.equal(debit.statusCode, 200)
+        assert.equal(debit.json().user.balance, 99.97)
+    })
+
+    it('rejects amounts that round to zero or overflow the balance columns', async () => {
+        for (const amount of [0, 0.004, -0.004, 1e12, -1e12]) {
+            const response = await context.app.inject({ method: 'POST', url: `/users/${context.user.id}/adjust`, headers, payload: { amount, reason: 'Correction' } })
+            assert.equal(response.statusCode, 400, `amount ${amount}`)
+        }
+        assert.equal(context.repositories.tables.balance_transactions.filter((entry) => entry.reason === 'admin_adjustment').length, 0)
+    })
+})
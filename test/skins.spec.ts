@@ -0,0 +1,134 @@
+import { describe, it, beforeEach, afterEach } from 'node:test'
+import assert from 'node:assert/strict'
+import config from '../src/config/config'
+import { createTestApp, StubMarketDataProvider } from './helpers'
+
+describe('skins', () => {
+    let provider: StubMarketDataProvider
+    let context: ReturnType<typeof createTestApp>
+
+    beforeEach(() => {
+        provider = new StubMarketDataProvider([
+            { market_hash_name: 'AK-47 | Redline (Field-Tested)', min_price_tradable: 12.5, min_price_non_tradable: 10 },
+            { market_hash_name: 'AWP | Asiimov (Field-Tested)', min_price_tradable: 150, min_price_non_tradable: null }
+        ])
+        context = createTestApp(provider)
+    })
+
+    afterEach(async () => {
+        await context.app.close()
+    })
+
+    describe('GET /skin', () => {
+        it('lists the visible skins by name', async () => {
+            const response = await context.app.inject({ method: 'GET', url: '/skin' })
+
+            assert.equal(response.statusCode, 200)
+            const body = response.json()
+            assert.equal(body.total, 3)
+            assert.deepEqual(
+                body.items.map((skin: any) => skin.name),
+                ['AK-47 | Redline', 'AWP | Asiimov', 'Glock-18 | Fade']
+            )
+        })
+
+        it('pages with the cursor', async () => {
+            const first = (await context.app.inject({ method: 'GET', url: '/skin?limit=2&sort=price_tradable&order=desc' })).json()
+            const second = (await context.app.inject({ method: 'GET', url: `/skin?limit=2&sort=price_tradable&order=desc&cursor=${first.nextCursor}` })).json()
+
+            assert.deepEqual(
+                [...first.items, ...second.items].map((skin: any) => skin.min_price_tradable),
+                [150, 40, 12.5]
+            )
+            assert.equal(second.nextCursor, null)
+        })
+
+        it('filters by name and price', async () => {
+            const response = await context.app.inject({ method: 'GET', url: '/skin?search=a&max_price_tradable=50' })
+
+            assert.deepEqual(
+                response.json().items.map((skin: any) => skin.name),
+                ['AK-47 | Redline', 'Glock-18 | Fade']
+            )
+        })
+
+        it('rejects an invalid query', async () => {
+            const response = await context.app.inject({ method: 'GET', url: '/skin?limit=0' })
+
+            assert.equal(response.statusCode, 400)
+            assert.equal(response.json().code, 'VALIDATION_ERROR')
+        })
+    })
+
+    describe('GET /skin/:id', () => {
+        it('returns a skin with its price overrides', async () => {
+            const [redline] = context.skins
+            redline.price_override_tradable = 11
+
+            const response = await context.app.inject({ method: 'GET', url: `/skin/${redline.id}` })
+
+            assert.equal(response.statusCode, 200)
+            assert.equal(response.json().skin.min_price_tradable, 11)
+        })
+
+        it('hides hidden skins', async () => {
+            const response = await context.app.inject({ method: 'GET', url: `/skin/${context.skins[3].id}` })
+
+            assert.equal(response.statusCode, 404)
+        })
+    })
+
+    describe('GET /skin/live', () => {
+        it('fetches the catalog from the market once and serves it from the cache', async () => {
+            const first = await context.app.inject({ method: 'GET', url: '/skin/live' })
+            const second = await context.app.inject({ method: 'GET', url: '/skin/live' })
+
+            assert.equal(first.statusCode, 200)
+            assert.equal(first.headers['x-cache'], 'MISS')
+            assert.equal(second.headers['x-cache'], 'HIT')
+            assert.deepEqual(second.json(), first.json())
+            assert.deepEqual(first.json(), [
+                { name: 'AK-47 | Redline (Field-Tested)', min_price_non_tradable: 10, min_price_tradable: 12.5 },
+                { name: 'AWP | Asiimov (Field-Tested)', min_price_non_tradable: null, min_price_tradable: 150 }
+            ])
+            assert.equal(provider.queries.length, 1)
+        })
+
+        it('keeps the X-Request-Id header of the streamed response', async () => {
+            const response = await context.app.inject({ method: 'GET', url: '/skin/live', headers: { 'x-request-id': 'live-0001' } })
+
+            assert.equal(response.statusCode, 200)
+            assert.equal(response.headers['x-request-id'], 'live-0001')
+        })
+
+        it('rejects currencies and app IDs that are not configured without fetching', async () => {
+            const currency = await context.app.inject({ method: 'GET', url: '/skin/live?currency=AAA' })
+            const appId = await context.app.inject({ method: 'GET', url: '/skin/live?app_id=12345' })
+
+            assert.equal(currency.statusCode, 400)
+            assert.equal(currency.json().code, 'UNSUPPORTED_CURRENCY')
+            assert.equal(appId.statusCode, 400)
+            assert.equal(provider.queries.length, 0)
+        })
+
+        it('rate limits the live catalog per client', async () => {
+            for (let i = 0; i < config.rateLimit.live.max; i++) {
+                const response = await context.app.inject({ method: 'GET', url: '/skin/live' })
+                assert.equal(response.statusCode, 200)
+            }
+
+            const limited = await context.app.inject({ method: 'GET', url: '/skin/live' })
+
+            assert.equal(limited.statusCode, 429)
+            assert.ok(Number(limited.headers['retry-after']) > 0)
+        })
+
+        it('streams NDJSON on request', async () => {
+            const response = await context.app.inject({ method: 'GET', url: '/skin/live', headers: { accept: 'application/x-ndjson' } })
+
+            const lines = response.body.trim().split('\n').map((line) => JSON.parse(line))
+            assert.equal(lines.length, 2)
+            assert.equal(lines[1].name, 'AWP | Asiimov (Field-Tested)')
+        })
+    })
+})